@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from "react";
+
+export type RealtimeEvent =
+  | {
+      type: "message";
+      agentId: number;
+      conversationId: number;
+      platform: string;
+      direction: "inbound" | "outbound";
+      message: { role: string; content: string; timestamp: string; sentBy?: number };
+    }
+  | { type: "message_status"; agentId: number; conversationId: number | null; whatsappMessageId: string; status: string }
+  | { type: "lead_score"; agentId: number; conversationId: number; score: number; recommendation?: string }
+  | { type: "handoff"; agentId: number; conversationId: number; state: string; assignedUserId: number | null };
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Subscribe to live conversation events from /api/realtime, for one agent or, without
+ * an agentId, for all of the user's agents. Reconnects with backoff when the socket drops.
+ */
+export function useRealtime(onEvent: (event: RealtimeEvent) => void, agentId?: number | string | null) {
+  const [connected, setConnected] = useState(false);
+  // Latest handler without reconnecting when the caller passes a new function each render
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    const token = localStorage.getItem("auth_token");
+    if (!token) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const params = new URLSearchParams({ token });
+      if (agentId) params.set("agentId", String(agentId));
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/realtime?${params}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+      };
+      socket.onmessage = (message) => {
+        const event = JSON.parse(message.data);
+        if (event.type !== "ready") handlerRef.current(event as RealtimeEvent);
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (stopped) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [agentId]);
+
+  return { connected };
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRealtime } from "@/hooks/useRealtime";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -88,6 +89,19 @@ export default function AgentDashboard() {
     enabled: agentsList.length > 0,
   });
 
+  // Refresh the stats as conversations happen instead of waiting for a reload
+  const queryClient = useQueryClient();
+  const { connected: live } = useRealtime((event) => {
+    if (event.type === "message_status") return;
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return key.startsWith("/api/analytics/summary") ||
+          (key.startsWith("/api/agents/performance") && String(event.agentId) === selectedAgent);
+      },
+    });
+  });
+
   if (agentsLoading) {
     return (
       <div className="container mx-auto p-6">
@@ -107,7 +121,10 @@ export default function AgentDashboard() {
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex justify-between items-center">
-        <h1 className="text-3xl font-bold">Agent Performance Dashboard</h1>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">Agent Performance Dashboard</h1>
+          {live && <Badge variant="outline" className="text-green-600 border-green-600">Live</Badge>}
+        </div>
         <div className="flex gap-4">
           <Select value={selectedAgent} onValueChange={setSelectedAgent}>
             <SelectTrigger className="w-[200px]">
@@ -61,7 +61,7 @@ const platformTypes = [
     setupComplexity: 'Medium',
     estimatedTime: '15-20 minutes',
     requirements: ['Facebook Page', 'Meta App', 'Page Access Token'],
-    fields: ['facebookPageId', 'facebookAccessToken', 'facebookWebhook']
+    fields: ['facebookPageId', 'facebookAccessToken', 'facebookAppSecret', 'facebookWebhook']
   },
   {
     id: 'instagram-direct',
@@ -131,6 +131,7 @@ const wizardSchema = z.object({
   // Facebook Messenger
   facebookPageId: z.string().optional(),
   facebookAccessToken: z.string().optional(),
+  facebookAppSecret: z.string().optional(),
   facebookWebhook: z.string().optional(),
   
   // Instagram Direct
@@ -316,6 +317,7 @@ export default function AgentWizard() {
       whatsappWebhook: "",
       facebookPageId: "",
       facebookAccessToken: "",
+      facebookAppSecret: "",
       facebookWebhook: "",
       instagramBusinessId: "",
       instagramAccessToken: "",
@@ -353,6 +355,7 @@ export default function AgentWizard() {
         whatsappWebhook: agent?.whatsappWebhook || "",
         facebookPageId: agent?.facebookPageId || "",
         facebookAccessToken: agent?.facebookAccessToken || "",
+        facebookAppSecret: agent?.facebookAppSecret || "",
         facebookWebhook: agent?.facebookWebhook || "",
         instagramBusinessId: agent?.instagramBusinessId || "",
         instagramAccessToken: agent?.instagramAccessToken || "",
@@ -410,6 +413,7 @@ export default function AgentWizard() {
           whatsappWebhook: data.whatsappWebhook,
           facebookPageId: data.facebookPageId,
           facebookAccessToken: data.facebookAccessToken,
+          facebookAppSecret: data.facebookAppSecret,
           facebookWebhook: data.facebookWebhook,
           instagramBusinessId: data.instagramBusinessId,
           instagramAccessToken: data.instagramAccessToken,
@@ -450,6 +454,7 @@ export default function AgentWizard() {
             whatsappWebhook: data.whatsappWebhook,
             facebookPageId: data.facebookPageId,
             facebookAccessToken: data.facebookAccessToken,
+            facebookAppSecret: data.facebookAppSecret,
             facebookWebhook: data.facebookWebhook,
             instagramBusinessId: data.instagramBusinessId,
             instagramAccessToken: data.instagramAccessToken,
@@ -1102,6 +1107,19 @@ export default function AgentWizard() {
                               </FormItem>
                             )}
                           />
+                          <FormField
+                            control={form.control}
+                            name="facebookAppSecret"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>App Secret</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Your Meta App Secret" type="password" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                         </>
                       )}
                       
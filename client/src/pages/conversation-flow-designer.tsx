@@ -28,6 +28,7 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { validateExpression } from '@shared/flow-expressions';
 import { 
   Bot, 
   Plus, 
@@ -54,9 +55,22 @@ import {
   XCircle,
   AlertCircle,
   Clock,
-  Send
+  Send,
+  History,
+  RotateCcw
 } from 'lucide-react';
 
+// Validation message from the last save, shown under any node
+const NodeDiagnostic = ({ data }: { data: any }) => {
+  if (!data.error && !data.warning) return null;
+  return (
+    <div className={`flex items-start gap-1 text-xs mt-2 p-1 rounded max-w-64 text-white ${data.error ? 'bg-red-600' : 'bg-amber-600'}`}>
+      <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+      <span>{data.error || data.warning}</span>
+    </div>
+  );
+};
+
 // Custom Node Components
 const StartNode = ({ data }: { data: any }) => (
   <div className="px-4 py-2 bg-green-500 text-white rounded-lg border-2 border-green-600 min-w-32 text-center">
@@ -65,6 +79,7 @@ const StartNode = ({ data }: { data: any }) => (
       <span className="font-medium">Start</span>
     </div>
     {data.label && <div className="text-xs mt-1 opacity-90">{data.label}</div>}
+    <NodeDiagnostic data={data} />
   </div>
 );
 
@@ -77,11 +92,26 @@ const MessageNode = ({ data }: { data: any }) => (
     <div className="text-sm bg-blue-600 p-2 rounded text-left">
       {data.message || 'Click to edit message...'}
     </div>
+    <NodeDiagnostic data={data} />
+  </div>
+);
+
+const QuestionNode = ({ data }: { data: any }) => (
+  <div className={`px-4 py-3 bg-teal-500 text-white rounded-lg border-2 min-w-48 ${data.error ? 'border-red-600 ring-2 ring-red-400' : 'border-teal-600'}`}>
+    <div className="flex items-center gap-2 mb-2">
+      <Edit className="w-4 h-4" />
+      <span className="font-medium">Question</span>
+      {data.variable && <span className="text-xs bg-teal-700 px-1 rounded">{`{${data.variable}}`}</span>}
+    </div>
+    <div className="text-sm bg-teal-600 p-2 rounded text-left">
+      {data.message || 'Click to set question...'}
+    </div>
+    <NodeDiagnostic data={data} />
   </div>
 );
 
 const ConditionNode = ({ data }: { data: any }) => (
-  <div className="px-4 py-3 bg-yellow-500 text-white rounded-lg border-2 border-yellow-600 min-w-48">
+  <div className={`px-4 py-3 bg-yellow-500 text-white rounded-lg border-2 min-w-48 ${data.error ? 'border-red-600 ring-2 ring-red-400' : 'border-yellow-600'}`}>
     <div className="flex items-center gap-2 mb-2">
       <HelpCircle className="w-4 h-4" />
       <span className="font-medium">Condition</span>
@@ -89,6 +119,7 @@ const ConditionNode = ({ data }: { data: any }) => (
     <div className="text-sm bg-yellow-600 p-2 rounded text-left">
       {data.condition || 'Click to set condition...'}
     </div>
+    <NodeDiagnostic data={data} />
   </div>
 );
 
@@ -101,6 +132,7 @@ const ActionNode = ({ data }: { data: any }) => (
     <div className="text-sm bg-purple-600 p-2 rounded text-left">
       {data.action || 'Click to set action...'}
     </div>
+    <NodeDiagnostic data={data} />
   </div>
 );
 
@@ -111,12 +143,14 @@ const EndNode = ({ data }: { data: any }) => (
       <span className="font-medium">End</span>
     </div>
     {data.label && <div className="text-xs mt-1 opacity-90">{data.label}</div>}
+    <NodeDiagnostic data={data} />
   </div>
 );
 
 const nodeTypes: NodeTypes = {
   start: StartNode,
   message: MessageNode,
+  question: QuestionNode,
   condition: ConditionNode,
   action: ActionNode,
   end: EndNode,
@@ -134,6 +168,47 @@ const initialNodes: Node[] = [
 
 const initialEdges: Edge[] = [];
 
+interface FlowDiagnostic {
+  severity?: 'error' | 'warning';
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+// Same checks the server runs on save, so mistakes show up before the request
+function validateFlowConditions(nodes: Node[], edges: Edge[]): FlowDiagnostic[] {
+  const diagnostics: FlowDiagnostic[] = [];
+  for (const node of nodes) {
+    if (node.type === 'question' && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(node.data?.variable || '')) {
+      diagnostics.push({ nodeId: node.id, message: 'Variable name must be letters, digits and underscores' });
+    }
+    if (node.type === 'question' && node.data?.validation?.type === 'choice' && !(node.data.options || []).length) {
+      diagnostics.push({ nodeId: node.id, message: 'Choice questions need at least one option' });
+    }
+    if (node.type !== 'condition') continue;
+    const condition = node.data?.condition || '';
+    const error = condition.trim() ? validateExpression(condition) : 'Condition is empty';
+    if (error) diagnostics.push({ nodeId: node.id, message: error });
+  }
+  for (const edge of edges) {
+    const condition = edge.data?.condition;
+    const error = condition ? validateExpression(condition) : null;
+    if (error) diagnostics.push({ edgeId: edge.id, message: error });
+  }
+  return diagnostics;
+}
+
+// Server errors arrive as "400: {json}" from apiRequest
+function parseDiagnostics(error: any): FlowDiagnostic[] {
+  const match = String(error?.message || '').match(/^\d+: ([\s\S]*)$/);
+  if (!match) return [];
+  try {
+    return JSON.parse(match[1]).diagnostics || [];
+  } catch {
+    return [];
+  }
+}
+
 function FlowCanvas() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -142,8 +217,10 @@ function FlowCanvas() {
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [showNodeDialog, setShowNodeDialog] = useState(false);
+  const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
   const [flowName, setFlowName] = useState('');
   const [selectedAgent, setSelectedAgent] = useState<string>('');
+  const [showVersions, setShowVersions] = useState(false);
 
   // Fetch user's agents
   const { data: agents = [] } = useQuery({
@@ -167,6 +244,10 @@ function FlowCanvas() {
     }
   }, []);
 
+  const onEdgeClick = useCallback((event: React.MouseEvent, edge: Edge) => {
+    setSelectedEdge(edge);
+  }, []);
+
   const addNode = useCallback((type: string) => {
     const position = reactFlowInstance.project({
       x: Math.random() * 400 + 50,
@@ -186,11 +267,46 @@ function FlowCanvas() {
   const updateNodeData = useCallback((nodeId: string, newData: any) => {
     setNodes((nds) =>
       nds.map((node) =>
-        node.id === nodeId ? { ...node, data: { ...node.data, ...newData } } : node
+        node.id === nodeId ? { ...node, data: { ...node.data, ...newData, error: undefined, warning: undefined } } : node
       )
     );
   }, [setNodes]);
 
+  const updateEdge = useCallback((edgeId: string, label: string, condition: string) => {
+    setEdges((eds) =>
+      eds.map((edge) =>
+        edge.id === edgeId
+          ? { ...edge, label: label || undefined, data: { ...edge.data, condition: condition || undefined }, style: { strokeWidth: 2 } }
+          : edge
+      )
+    );
+  }, [setEdges]);
+
+  const deleteEdge = useCallback((edgeId: string) => {
+    setEdges((eds) => eds.filter((edge) => edge.id !== edgeId));
+  }, [setEdges]);
+
+  // Mark offending nodes and edges; an empty list clears previous markers
+  const applyDiagnostics = useCallback((diagnostics: FlowDiagnostic[]) => {
+    const isWarning = (d: FlowDiagnostic) => d.severity === 'warning';
+    setNodes((nds) =>
+      nds.map((node) => {
+        const error = diagnostics.find((d) => d.nodeId === node.id && !isWarning(d));
+        const warning = diagnostics.find((d) => d.nodeId === node.id && isWarning(d));
+        return error || warning || node.data?.error || node.data?.warning
+          ? { ...node, data: { ...node.data, error: error?.message, warning: warning?.message } }
+          : node;
+      })
+    );
+    setEdges((eds) =>
+      eds.map((edge) => {
+        const diagnostic = diagnostics.find((d) => d.edgeId === edge.id);
+        const stroke = diagnostic ? (isWarning(diagnostic) ? '#d97706' : '#dc2626') : undefined;
+        return { ...edge, style: stroke ? { strokeWidth: 2, stroke } : { strokeWidth: 2 } };
+      })
+    );
+  }, [setNodes, setEdges]);
+
   const deleteNode = useCallback((nodeId: string) => {
     setNodes((nds) => nds.filter((node) => node.id !== nodeId));
     setEdges((eds) => eds.filter((edge) => edge.source !== nodeId && edge.target !== nodeId));
@@ -199,16 +315,28 @@ function FlowCanvas() {
   // Save flow mutation
   const saveFlowMutation = useMutation({
     mutationFn: async (flowData: any) => {
-      return apiRequest(`/api/agents/${selectedAgent}/conversation-flow`, {
-        method: 'POST',
-        body: flowData,
-      });
+      return apiRequest('POST', `/api/agents/${selectedAgent}/conversation-flow`, flowData);
     },
-    onSuccess: () => {
-      toast({ title: 'Success', description: 'Conversation flow saved successfully' });
-      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+    onSuccess: async (response: Response) => {
+      const saved = await response.json();
+      const warnings: FlowDiagnostic[] = saved.flowWarnings || [];
+      applyDiagnostics(warnings);
+      toast(warnings.length > 0
+        ? { title: 'Draft saved with warnings', description: warnings.map((d) => d.message).join('\n') }
+        : { title: 'Draft saved', description: 'Publish the draft to use it in live conversations' });
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/${selectedAgent}/flow-versions`] });
     },
     onError: (error: any) => {
+      const diagnostics = parseDiagnostics(error);
+      if (diagnostics.length > 0) {
+        applyDiagnostics(diagnostics);
+        toast({
+          title: 'Flow has errors',
+          description: diagnostics.filter((d) => d.severity !== 'warning').map((d) => d.message).join('\n'),
+          variant: 'destructive'
+        });
+        return;
+      }
       toast({ 
         title: 'Error', 
         description: error.message || 'Failed to save conversation flow',
@@ -217,6 +345,29 @@ function FlowCanvas() {
     },
   });
 
+  const publishFlowMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/agents/${selectedAgent}/conversation-flow/publish`, {});
+    },
+    onSuccess: async (response: Response) => {
+      const { version } = await response.json();
+      toast({ title: 'Published', description: `Version ${version.version} is now live` });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/${selectedAgent}/flow-versions`] });
+    },
+    onError: (error: any) => {
+      const diagnostics = parseDiagnostics(error);
+      applyDiagnostics(diagnostics);
+      toast({
+        title: 'Error',
+        description: diagnostics.length > 0
+          ? diagnostics.filter((d) => d.severity !== 'warning').map((d) => d.message).join('\n')
+          : error.message || 'Failed to publish conversation flow',
+        variant: 'destructive'
+      });
+    },
+  });
+
   const handleSaveFlow = () => {
     if (!selectedAgent) {
       toast({ 
@@ -236,10 +387,27 @@ function FlowCanvas() {
       return;
     }
 
+    const diagnostics = validateFlowConditions(nodes, edges);
+    applyDiagnostics(diagnostics);
+    if (diagnostics.length > 0) {
+      toast({
+        title: 'Fix the highlighted conditions',
+        description: diagnostics.map((d) => d.message).join('\n'),
+        variant: 'destructive'
+      });
+      return;
+    }
+
     const flowData = {
       name: flowName,
-      nodes: nodes,
-      edges: edges,
+      nodes: nodes.map(({ id, type, position, data }) => ({ id, type, position, data: { ...data, error: undefined, warning: undefined } })),
+      edges: edges.map((edge) => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        label: typeof edge.label === 'string' ? edge.label : undefined,
+        condition: edge.data?.condition,
+      })),
       metadata: {
         created: new Date().toISOString(),
         version: '1.0',
@@ -285,7 +453,25 @@ function FlowCanvas() {
               className="mt-6"
             >
               <Save className="w-4 h-4 mr-2" />
-              {saveFlowMutation.isPending ? 'Saving...' : 'Save Flow'}
+              {saveFlowMutation.isPending ? 'Saving...' : 'Save Draft'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => publishFlowMutation.mutate()}
+              disabled={!selectedAgent || publishFlowMutation.isPending}
+              className="mt-6"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {publishFlowMutation.isPending ? 'Publishing...' : 'Publish'}
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setShowVersions(true)}
+              disabled={!selectedAgent}
+              className="mt-6"
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
             </Button>
           </div>
           
@@ -294,6 +480,10 @@ function FlowCanvas() {
               <MessageCircle className="w-4 h-4 mr-1" />
               Message
             </Button>
+            <Button onClick={() => addNode('question')} size="sm" variant="outline">
+              <Edit className="w-4 h-4 mr-1" />
+              Question
+            </Button>
             <Button onClick={() => addNode('condition')} size="sm" variant="outline">
               <HelpCircle className="w-4 h-4 mr-1" />
               Condition
@@ -318,6 +508,7 @@ function FlowCanvas() {
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={onNodeClick}
+        onEdgeClick={onEdgeClick}
         nodeTypes={nodeTypes}
         fitView
         className="bg-gray-50"
@@ -339,10 +530,231 @@ function FlowCanvas() {
         onUpdate={updateNodeData}
         onDelete={deleteNode}
       />
+
+      {/* Edge Edit Dialog */}
+      <EdgeEditDialog
+        edge={selectedEdge}
+        onClose={() => setSelectedEdge(null)}
+        onUpdate={updateEdge}
+        onDelete={deleteEdge}
+      />
+
+      {selectedAgent && (
+        <FlowVersionsDialog
+          agentId={selectedAgent}
+          open={showVersions}
+          onOpenChange={setShowVersions}
+        />
+      )}
     </div>
   );
 }
 
+interface FlowVersionSummary {
+  id: number;
+  // Assigned when published; null for the draft
+  version: number | null;
+  status: 'draft' | 'published' | 'archived';
+  note: string | null;
+  createdAt: string;
+  publishedAt: string | null;
+  live: boolean;
+  conversationCount: number;
+}
+
+interface FlowVersionDiff {
+  from: string;
+  to: string;
+  nodes: { added: string[]; removed: string[]; changed: Array<{ id: string; fields: string[] }> };
+  edges: { added: string[]; removed: string[]; changed: Array<{ id: string; fields: string[] }> };
+  settings: string[];
+  identical: boolean;
+}
+
+function FlowVersionsDialog({
+  agentId,
+  open,
+  onOpenChange
+}: {
+  agentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [diff, setDiff] = useState<FlowVersionDiff | null>(null);
+
+  const { data: versions = [] } = useQuery<FlowVersionSummary[]>({
+    queryKey: [`/api/agents/${agentId}/flow-versions`],
+    enabled: open,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      return apiRequest('POST', `/api/agents/${agentId}/flow-versions/${versionId}/rollback`, {});
+    },
+    onSuccess: async (response: Response) => {
+      const { version } = await response.json();
+      toast({ title: 'Rolled back', description: `Version ${version.version} is now live` });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/${agentId}/flow-versions`] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to roll back', variant: 'destructive' });
+    },
+  });
+
+  const compare = async (versionId: number) => {
+    try {
+      const response = await apiRequest('GET', `/api/agents/${agentId}/flow-versions/diff?from=published&to=${versionId}`);
+      setDiff(await response.json());
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to compare versions', variant: 'destructive' });
+    }
+  };
+
+  const describe = (kind: string, part: FlowVersionDiff['nodes']) => [
+    ...part.added.map((id) => `Added ${kind} ${id}`),
+    ...part.removed.map((id) => `Removed ${kind} ${id}`),
+    ...part.changed.map((change) => `Changed ${kind} ${change.id}: ${change.fields.join(', ')}`),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setDiff(null); onOpenChange(value); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Flow History</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {versions.length === 0 && <p className="text-sm text-gray-500">No versions saved yet.</p>}
+          {versions.map((version) => (
+            <div key={version.id} className="flex items-center justify-between border rounded p-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{version.version === null ? 'Draft' : `Version ${version.version}`}</span>
+                  <Badge variant={version.live ? 'default' : 'outline'}>{version.live ? 'live' : version.status}</Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {version.note || 'No note'} · {new Date(version.publishedAt || version.createdAt).toLocaleString()} · {version.conversationCount} conversations
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {!version.live && (
+                  <Button size="sm" variant="outline" onClick={() => compare(version.id)}>
+                    Compare
+                  </Button>
+                )}
+                {!version.live && version.status !== 'draft' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rollbackMutation.mutate(version.id)}
+                    disabled={rollbackMutation.isPending}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {diff && (
+          <div className="border-t pt-3">
+            <p className="text-sm font-medium mb-1">Changes from {diff.from} to {diff.to}</p>
+            {diff.identical ? (
+              <p className="text-sm text-gray-500">No differences.</p>
+            ) : (
+              <ul className="text-xs text-gray-700 space-y-1">
+                {[...describe('node', diff.nodes), ...describe('edge', diff.edges), ...diff.settings.map((setting) => `Changed ${setting}`)]
+                  .map((line) => <li key={line}>{line}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EdgeEditDialog({
+  edge,
+  onClose,
+  onUpdate,
+  onDelete
+}: {
+  edge: Edge | null;
+  onClose: () => void;
+  onUpdate: (edgeId: string, label: string, condition: string) => void;
+  onDelete: (edgeId: string) => void;
+}) {
+  const [label, setLabel] = useState('');
+  const [condition, setCondition] = useState('');
+
+  React.useEffect(() => {
+    if (edge) {
+      setLabel(typeof edge.label === 'string' ? edge.label : '');
+      setCondition(edge.data?.condition || '');
+    }
+  }, [edge]);
+
+  const conditionError = condition.trim() ? validateExpression(condition) : null;
+
+  if (!edge) return null;
+
+  return (
+    <Dialog open={!!edge} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Connection</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="edge-label">Label</Label>
+            <Input
+              id="edge-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g., Yes, No, Billing"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              From a condition node, "Yes"/"True" and "No"/"False" follow the condition's result.
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="edge-condition">Condition (optional)</Label>
+            <Input
+              id="edge-condition"
+              value={condition}
+              onChange={(e) => setCondition(e.target.value)}
+              placeholder="e.g., number(variables.budget) >= 1000"
+            />
+            {conditionError && <p className="text-xs text-red-600 mt-1">{conditionError}</p>}
+          </div>
+
+          <div className="flex justify-between pt-4">
+            <Button variant="destructive" onClick={() => { onDelete(edge.id); onClose(); }}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button disabled={!!conditionError} onClick={() => { onUpdate(edge.id, label, condition); onClose(); }}>
+                Save Changes
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function NodeEditDialog({ 
   node, 
   open, 
@@ -401,6 +813,81 @@ function NodeEditDialog({
             </div>
           )}
 
+          {node.type === 'question' && (
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="question">Question</Label>
+                <Textarea
+                  id="question"
+                  value={formData.message || ''}
+                  onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+                  placeholder="e.g., What's the best email to reach you?"
+                  rows={2}
+                />
+              </div>
+              <div>
+                <Label htmlFor="variable">Save answer as</Label>
+                <Input
+                  id="variable"
+                  value={formData.variable || ''}
+                  onChange={(e) => setFormData({ ...formData, variable: e.target.value })}
+                  placeholder="e.g., email"
+                />
+                <p className="text-xs text-gray-500 mt-1">Use it later as {'{'}{formData.variable || 'email'}{'}'} in messages or variables.{formData.variable || 'email'} in conditions.</p>
+              </div>
+              <div>
+                <Label>Expected answer</Label>
+                <Select
+                  value={formData.validation?.type || 'text'}
+                  onValueChange={(value) => setFormData({ ...formData, validation: { ...formData.validation, type: value } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text">Any text</SelectItem>
+                    <SelectItem value="email">Email address</SelectItem>
+                    <SelectItem value="phone">Phone number</SelectItem>
+                    <SelectItem value="number">Number</SelectItem>
+                    <SelectItem value="choice">Choice from options</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.validation?.type === 'number' && (
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    value={formData.validation?.min ?? ''}
+                    onChange={(e) => setFormData({ ...formData, validation: { ...formData.validation, min: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                    placeholder="Minimum"
+                  />
+                  <Input
+                    type="number"
+                    value={formData.validation?.max ?? ''}
+                    onChange={(e) => setFormData({ ...formData, validation: { ...formData.validation, max: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                    placeholder="Maximum"
+                  />
+                </div>
+              )}
+              {formData.validation?.type === 'choice' && (
+                <Input
+                  value={(formData.options || []).join(', ')}
+                  onChange={(e) => setFormData({ ...formData, options: e.target.value.split(',').map((o) => o.trim()).filter(Boolean) })}
+                  placeholder="Options, e.g. Basic, Pro, Enterprise"
+                />
+              )}
+              <div>
+                <Label htmlFor="fallback">Message for invalid answers (optional)</Label>
+                <Input
+                  id="fallback"
+                  value={formData.fallbackMessage || ''}
+                  onChange={(e) => setFormData({ ...formData, fallbackMessage: e.target.value })}
+                  placeholder="e.g., Please send a valid email address."
+                />
+              </div>
+            </div>
+          )}
+
           {node.type === 'condition' && (
             <div>
               <Label htmlFor="condition">Condition</Label>
@@ -408,8 +895,15 @@ function NodeEditDialog({
                 id="condition"
                 value={formData.condition || ''}
                 onChange={(e) => setFormData({ ...formData, condition: e.target.value })}
-                placeholder="e.g., user_input contains 'yes'"
+                placeholder="e.g., user_input contains 'yes' and length(user_input) < 40"
               />
+              {formData.condition?.trim() && validateExpression(formData.condition) ? (
+                <p className="text-xs text-red-600 mt-1">{validateExpression(formData.condition)}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Use user_input, variables.name and lead.email with ==, &gt;, contains, matches, in, and, or, not.
+                </p>
+              )}
             </div>
           )}
 
@@ -426,11 +920,80 @@ function NodeEditDialog({
                 <SelectContent>
                   <SelectItem value="send_email">Send Email</SelectItem>
                   <SelectItem value="create_ticket">Create Ticket</SelectItem>
-                  <SelectItem value="schedule_call">Schedule Call</SelectItem>
-                  <SelectItem value="save_lead">Save Lead</SelectItem>
-                  <SelectItem value="transfer_human">Transfer to Human</SelectItem>
+                  <SelectItem value="record_call_consent">Record Call Consent</SelectItem>
+                  <SelectItem value="schedule_callback">Schedule Callback</SelectItem>
+                  <SelectItem value="save_lead_info">Save Lead</SelectItem>
+                  <SelectItem value="update_user_profile">Update Profile</SelectItem>
+                  <SelectItem value="transfer_to_human">Transfer to Human</SelectItem>
                 </SelectContent>
               </Select>
+
+              {formData.action === 'send_email' && (
+                <div className="space-y-2 mt-3">
+                  <Input
+                    value={formData.actionConfig?.to || ''}
+                    onChange={(e) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, to: e.target.value } })}
+                    placeholder="Recipient (defaults to the agent's contact email)"
+                  />
+                  <Input
+                    value={formData.actionConfig?.subject || ''}
+                    onChange={(e) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, subject: e.target.value } })}
+                    placeholder="Subject, e.g. New lead: {user_name}"
+                  />
+                  <Textarea
+                    value={formData.actionConfig?.body || ''}
+                    onChange={(e) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, body: e.target.value } })}
+                    placeholder="Body (defaults to a summary of the lead)"
+                    rows={3}
+                  />
+                </div>
+              )}
+
+              {formData.action === 'create_ticket' && (
+                <div className="space-y-2 mt-3">
+                  <Input
+                    value={formData.actionConfig?.subject || ''}
+                    onChange={(e) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, subject: e.target.value } })}
+                    placeholder="Subject, e.g. Billing issue from {user_name}"
+                  />
+                  <Select
+                    value={formData.actionConfig?.priority || 'normal'}
+                    onValueChange={(value) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, priority: value } })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low priority</SelectItem>
+                      <SelectItem value="normal">Normal priority</SelectItem>
+                      <SelectItem value="high">High priority</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.action === 'record_call_consent' && (
+                <Textarea
+                  className="mt-3"
+                  value={formData.actionConfig?.body || ''}
+                  onChange={(e) => setFormData({ ...formData, actionConfig: { ...formData.actionConfig, body: e.target.value } })}
+                  placeholder="Consent wording the customer agreed to, e.g. Can we call you at {phone} about your quote?"
+                  rows={3}
+                />
+              )}
+
+              {(formData.action === 'save_lead_info' || formData.action === 'update_user_profile') && (
+                <Input
+                  className="mt-3"
+                  value={(formData.actionConfig?.fields || []).join(', ')}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    actionConfig: { ...formData.actionConfig, fields: e.target.value.split(',').map((f) => f.trim()).filter(Boolean) }
+                  })}
+                  placeholder="Variables to save, e.g. email, budget (blank saves all)"
+                />
+              )}
             </div>
           )}
 
@@ -470,10 +1033,12 @@ function getDefaultNodeData(type: string) {
   switch (type) {
     case 'message':
       return { message: 'Hello! How can I help you today?' };
+    case 'question':
+      return { message: 'What is your email address?', variable: 'email', validation: { type: 'email' } };
     case 'condition':
-      return { condition: 'user_input contains keyword' };
+      return { condition: "user_input contains 'keyword'" };
     case 'action':
-      return { action: 'save_lead' };
+      return { action: 'save_lead_info' };
     case 'end':
       return { label: 'Conversation Complete' };
     default:
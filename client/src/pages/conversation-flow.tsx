@@ -434,13 +434,13 @@ export default function ConversationFlow() {
   // Save flow mutation
   const saveFlowMutation = useMutation({
     mutationFn: async (flowData: any) => {
-      return apiRequest("PUT", `/api/agents/${id}`, {
-        conversationFlow: {
-          nodes,
-          edges,
-          variables: flowData.variables || []
-        },
-        flowEnabled: isFlowEnabled
+      // This editor has no drafts, so saving also publishes
+      return apiRequest("POST", `/api/agents/${id}/conversation-flow`, {
+        nodes,
+        edges,
+        variables: flowData.variables || [],
+        flowEnabled: isFlowEnabled,
+        publish: true
       });
     },
     onSuccess: () => {
@@ -730,6 +730,7 @@ export default function ConversationFlow() {
                         <SelectItem value="save_lead_info">Save Lead Info</SelectItem>
                         <SelectItem value="send_email">Send Email</SelectItem>
                         <SelectItem value="create_ticket">Create Support Ticket</SelectItem>
+                        <SelectItem value="record_call_consent">Record Call Consent</SelectItem>
                         <SelectItem value="schedule_callback">Schedule Callback</SelectItem>
                         <SelectItem value="transfer_to_human">Transfer to Human</SelectItem>
                         <SelectItem value="update_user_profile">Update User Profile</SelectItem>
@@ -61,7 +61,7 @@ const platformTypes = [
     color: '#07C160',
     description: 'WeChat Work integration for business communication',
     defaultMessage: 'Welcome to our WeChat support!',
-    fields: ['wechatCorpId', 'wechatSecret', 'wechatAgentId']
+    fields: ['wechatCorpId', 'wechatSecret', 'wechatAgentId', 'wechatToken', 'wechatEncodingAesKey']
   },
   {
     id: 'telegram-bot',
@@ -130,6 +130,8 @@ const createAgentSchema = z.object({
   wechatCorpId: z.string().optional(),
   wechatSecret: z.string().optional(),
   wechatAgentId: z.string().optional(),
+  wechatToken: z.string().optional(),
+  wechatEncodingAesKey: z.string().optional(),
   
   // Telegram Bot
   telegramBotToken: z.string().optional(),
@@ -203,6 +205,8 @@ export default function CreateAgent() {
       wechatCorpId: "",
       wechatSecret: "",
       wechatAgentId: "",
+      wechatToken: "",
+      wechatEncodingAesKey: "",
       // Telegram Bot
       telegramBotToken: "",
       telegramUsername: "",
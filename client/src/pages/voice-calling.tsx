@@ -32,7 +32,7 @@ export default function VoiceCalling() {
     enabled: !!selectedAgent,
   });
 
-  const { data: trigger } = useQuery({
+  const { data: trigger } = useQuery<Record<string, any>>({
     queryKey: ['/api/voice-calls/trigger', selectedAgent],
     enabled: !!selectedAgent,
   });
@@ -66,8 +66,8 @@ export default function VoiceCalling() {
     },
     onSuccess: () => {
       toast({
-        title: "Manual Call Initiated",
-        description: "The AI voice call has been started.",
+        title: "Call Scheduled",
+        description: "The AI voice call has been queued and will be placed within business hours.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/voice-calls'] });
     },
@@ -95,15 +95,16 @@ export default function VoiceCalling() {
 
   const getOutcomeBadge = (outcome: string) => {
     const colors = {
-      conversion: "bg-green-100 text-green-800",
-      callback_scheduled: "bg-blue-100 text-blue-800",
+      converted: "bg-green-100 text-green-800",
+      interested: "bg-green-50 text-green-700",
+      callback_requested: "bg-blue-100 text-blue-800",
       not_interested: "bg-red-100 text-red-800",
       no_answer: "bg-gray-100 text-gray-800",
     };
     
     return (
       <Badge className={colors[outcome as keyof typeof colors] || "bg-gray-100 text-gray-800"}>
-        {outcome?.replace('_', ' ').toUpperCase() || 'PENDING'}
+        {outcome?.replace(/_/g, ' ').toUpperCase() || 'PENDING'}
       </Badge>
     );
   };
@@ -281,7 +282,7 @@ export default function VoiceCalling() {
                           <Label>Delay (minutes)</Label>
                           <Input 
                             type="number"
-                            value={trigger.delayMinutes || 15}
+                            value={trigger.delayMinutes ?? 5}
                             onChange={(e) => handleTriggerUpdate('delayMinutes', parseInt(e.target.value))}
                           />
                           <p className="text-xs text-gray-600">Wait time after failed conversion</p>
@@ -290,7 +291,7 @@ export default function VoiceCalling() {
                           <Label>Max Attempts per Lead</Label>
                           <Input 
                             type="number"
-                            value={trigger.maxAttemptsPerLead || 2}
+                            value={trigger.maxAttemptsPerLead ?? 3}
                             onChange={(e) => handleTriggerUpdate('maxAttemptsPerLead', parseInt(e.target.value))}
                           />
                         </div>
@@ -370,6 +371,40 @@ export default function VoiceCalling() {
                       </div>
                     </>
                   )}
+
+                  {/* Compliance applies to every outbound call, manual ones included */}
+                  <div className="space-y-4 border-t pt-6">
+                    <h4 className="font-medium">Call Compliance</h4>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>Require Recorded Consent</Label>
+                        <p className="text-sm text-gray-600">Only call numbers that agreed to be called</p>
+                      </div>
+                      <Switch
+                        checked={trigger?.requireConsent ?? true}
+                        onCheckedChange={(checked) => handleTriggerUpdate('requireConsent', checked)}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Quiet Hours Start</Label>
+                        <Input
+                          type="time"
+                          value={trigger?.quietHoursStart ?? ''}
+                          onChange={(e) => handleTriggerUpdate('quietHoursStart', e.target.value || null)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Quiet Hours End</Label>
+                        <Input
+                          type="time"
+                          value={trigger?.quietHoursEnd ?? ''}
+                          onChange={(e) => handleTriggerUpdate('quietHoursEnd', e.target.value || null)}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-600">In the recipient's time zone; numbers on the do-not-call list are never called</p>
+                  </div>
                 </CardContent>
               </Card>
             </TabsContent>
@@ -401,36 +436,48 @@ export default function VoiceCalling() {
                             </div>
                             <div className="flex items-center space-x-2">
                               {getStatusBadge(call.status)}
-                              {call.callOutcome && getOutcomeBadge(call.callOutcome)}
+                              {call.outcome && getOutcomeBadge(call.outcome)}
                             </div>
                           </div>
                           
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                             <div>
                               <p className="text-gray-600">Trigger Reason</p>
-                              <p className="font-medium">{call.triggerReason?.replace('_', ' ')}</p>
+                              <p className="font-medium">{call.callData?.triggerReason || call.triggeredBy?.replace('_', ' ')}</p>
                             </div>
                             <div>
                               <p className="text-gray-600">Duration</p>
                               <p className="font-medium">
-                                {call.callDuration ? `${Math.floor(call.callDuration / 60)}:${(call.callDuration % 60).toString().padStart(2, '0')}` : 'N/A'}
+                                {call.duration ? `${Math.floor(call.duration / 60)}:${(call.duration % 60).toString().padStart(2, '0')}` : 'N/A'}
                               </p>
                             </div>
                             <div>
                               <p className="text-gray-600">Lead Score</p>
-                              <p className="font-medium">{call.leadScore || 'N/A'}</p>
+                              <p className="font-medium">{call.leadScore ?? 'N/A'}</p>
                             </div>
                             <div>
-                              <p className="text-gray-600">Sentiment</p>
-                              <p className="font-medium">{call.sentiment || 'N/A'}</p>
+                              <p className="text-gray-600">Follow-up</p>
+                              <p className="font-medium">{call.analysis?.followUp?.action?.replace(/_/g, ' ') || 'N/A'}</p>
                             </div>
                           </div>
+
+                          {call.analysis && (
+                            <div className="text-sm space-y-1">
+                              <p>{call.analysis.summary}</p>
+                              {call.analysis.objections?.length > 0 && (
+                                <p className="text-gray-600">Objections: {call.analysis.objections.join('; ')}</p>
+                              )}
+                              {call.analysis.followUp?.note && (
+                                <p className="text-gray-600">Next step: {call.analysis.followUp.note}</p>
+                              )}
+                            </div>
+                          )}
                           
-                          {call.transcript && (
+                          {call.transcription && (
                             <div>
                               <p className="text-gray-600 text-sm mb-2">Transcript:</p>
-                              <div className="bg-gray-50 rounded p-3 text-sm max-h-32 overflow-y-auto">
-                                {call.transcript}
+                              <div className="bg-gray-50 rounded p-3 text-sm max-h-32 overflow-y-auto whitespace-pre-wrap">
+                                {call.transcription}
                               </div>
                             </div>
                           )}
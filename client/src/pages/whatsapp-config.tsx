@@ -15,6 +15,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MessageSquare, Phone, Settings, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
 
 const whatsappConfigSchema = z.object({
   agentId: z.number(),
@@ -22,6 +23,7 @@ const whatsappConfigSchema = z.object({
   whatsappPhoneNumberId: z.string().min(1, "Phone Number ID is required"),
   whatsappAccessToken: z.string().min(1, "Access Token is required"),
   whatsappWebhookVerifyToken: z.string().min(1, "Webhook Verify Token is required"),
+  whatsappAppSecret: z.string().min(1, "App Secret is required"),
   whatsappNumber: z.string().min(1, "WhatsApp Number is required"),
 });
 
@@ -50,6 +52,13 @@ export default function WhatsAppConfig() {
     enabled: !!selectedAgent,
   });
 
+  // New WhatsApp messages and delivery status changes arrive over the realtime socket
+  useRealtime((event) => {
+    if (event.type === "message_status" || (event.type === "message" && event.platform === "whatsapp")) {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", selectedAgent, "whatsapp-messages"] });
+    }
+  }, selectedAgent);
+
   const form = useForm<WhatsAppConfigForm>({
     resolver: zodResolver(whatsappConfigSchema),
     defaultValues: {
@@ -58,6 +67,7 @@ export default function WhatsAppConfig() {
       whatsappPhoneNumberId: "",
       whatsappAccessToken: "",
       whatsappWebhookVerifyToken: "",
+      whatsappAppSecret: "",
       whatsappNumber: "",
     },
   });
@@ -71,6 +81,7 @@ export default function WhatsAppConfig() {
         whatsappPhoneNumberId: (agent as any).whatsappPhoneNumberId || "",
         whatsappAccessToken: (agent as any).whatsappAccessToken || "",
         whatsappWebhookVerifyToken: (agent as any).whatsappWebhookVerifyToken || "",
+        whatsappAppSecret: (agent as any).whatsappAppSecret || "",
         whatsappNumber: (agent as any).whatsappNumber || "",
       });
     }
@@ -273,6 +284,23 @@ export default function WhatsAppConfig() {
                         )}
                       />
 
+                      <FormField
+                        control={form.control}
+                        name="whatsappAppSecret"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>App Secret</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="password" placeholder="Your Meta App Secret" />
+                            </FormControl>
+                            <FormDescription>
+                              Used to check the signature on every webhook delivery; unsigned deliveries are rejected
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={form.control}
                         name="whatsappNumber"
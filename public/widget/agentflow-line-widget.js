@@ -0,0 +1,126 @@
+(function() {
+    'use strict';
+    
+    // AgentFlow LINE Widget Implementation
+    function createLineWidget() {
+        const script = document.currentScript || document.querySelector('script[data-agent-config]');
+        if (!script) return;
+        
+        const config = script.getAttribute('data-agent-config');
+        let settings = {};
+        
+        try {
+            settings = JSON.parse(atob(config));
+        } catch (e) {
+            console.error('AgentFlow: Invalid LINE widget configuration');
+            return;
+        }
+        
+        // Create widget container
+        const widgetContainer = document.createElement('div');
+        widgetContainer.id = 'agentflow-line-widget';
+        widgetContainer.style.cssText = `
+            position: fixed;
+            ${settings.position.includes('bottom') ? 'bottom: 20px;' : 'top: 20px;'}
+            ${settings.position.includes('left') ? 'left: 20px;' : 'right: 90px;'}
+            z-index: 9998;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        `;
+        
+        // Create chat button
+        const chatButton = document.createElement('div');
+        chatButton.style.cssText = `
+            width: 60px;
+            height: 60px;
+            background: #06C755;
+            border-radius: 50%;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+            transition: all 0.3s ease;
+            position: relative;
+        `;
+        
+        // LINE icon
+        chatButton.innerHTML = `
+            <svg width="30" height="30" viewBox="0 0 24 24" fill="white">
+                <path d="M19.365 9.863c.349 0 .63.285.63.631 0 .345-.281.63-.63.63H17.61v1.125h1.755c.349 0 .63.283.63.63 0 .344-.281.629-.63.629h-2.386c-.345 0-.627-.285-.627-.629V8.108c0-.345.282-.63.63-.63h2.386c.346 0 .627.285.627.63 0 .349-.281.63-.63.63H17.61v1.125h1.755zm-3.855 3.016c0 .27-.174.51-.432.596-.064.021-.133.031-.199.031-.211 0-.391-.09-.51-.25l-2.443-3.317v2.94c0 .344-.279.629-.631.629-.346 0-.626-.285-.626-.629V8.108c0-.27.173-.51.43-.595.06-.023.136-.033.194-.033.195 0 .375.104.495.254l2.462 3.33V8.108c0-.345.282-.63.63-.63.345 0 .63.285.63.63v4.771zm-5.741 0c0 .344-.282.629-.631.629-.345 0-.627-.285-.627-.629V8.108c0-.345.282-.63.63-.63.346 0 .628.285.628.63v4.771zm-2.466.629H4.917c-.345 0-.63-.285-.63-.629V8.108c0-.345.285-.63.63-.63.348 0 .63.285.63.63v4.141h1.756c.348 0 .629.283.629.63 0 .344-.282.629-.629.629M24 10.314C24 4.943 18.615.572 12 .572S0 4.943 0 10.314c0 4.811 4.27 8.842 10.035 9.608.391.082.923.258 1.058.59.12.301.079.766.038 1.08l-.164 1.02c-.045.301-.24 1.186 1.049.645 1.291-.539 6.916-4.078 9.436-6.975C23.176 14.393 24 12.458 24 10.314"/>
+            </svg>
+        `;
+        
+        // Pulse animation
+        const pulseRing = document.createElement('div');
+        pulseRing.style.cssText = `
+            position: absolute;
+            width: 100%;
+            height: 100%;
+            border: 2px solid #06C755;
+            border-radius: 50%;
+            animation: agentflow-pulse 2s infinite;
+            opacity: 0.5;
+        `;
+        
+        // Tooltip
+        const tooltip = document.createElement('div');
+        tooltip.className = 'agentflow-tooltip';
+        tooltip.textContent = 'Chat with us on LINE';
+        tooltip.style.cssText += `
+            bottom: 70px;
+            right: 0;
+        `;
+        
+        // Event handlers
+        chatButton.addEventListener('mouseenter', () => {
+            tooltip.classList.add('show');
+        });
+        
+        chatButton.addEventListener('mouseleave', () => {
+            tooltip.classList.remove('show');
+        });
+        
+        chatButton.addEventListener('click', () => {
+            // Track click event
+            if (window.gtag) {
+                gtag('event', 'click', {
+                    event_category: 'AgentFlow Widget',
+                    event_label: 'LINE Chat',
+                    value: 1
+                });
+            }
+            
+            // Generate LINE URL (add-friend link for the official account's basic ID)
+            const lineUrl = settings.lineAccountId && settings.lineAccountId.startsWith('@')
+                ? `https://line.me/R/ti/p/${encodeURIComponent(settings.lineAccountId)}`
+                : 'https://line.me/';
+            
+            // Open LINE
+            window.open(lineUrl, '_blank');
+            
+            // Analytics tracking
+            console.log('AgentFlow LINE widget clicked', {
+                timestamp: new Date().toISOString(),
+                config: settings.apiKey,
+                platform: 'line'
+            });
+        });
+        
+        // Assemble widget
+        chatButton.appendChild(pulseRing);
+        widgetContainer.appendChild(chatButton);
+        widgetContainer.appendChild(tooltip);
+        
+        // Add to page
+        document.body.appendChild(widgetContainer);
+        
+        console.log('AgentFlow LINE widget loaded successfully');
+    }
+    
+    // Initialize widget when DOM is ready
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', createLineWidget);
+    } else {
+        createLineWidget();
+    }
+})();
\ No newline at end of file
@@ -0,0 +1,126 @@
+(function() {
+    'use strict';
+    
+    // AgentFlow Viber Widget Implementation
+    function createViberWidget() {
+        const script = document.currentScript || document.querySelector('script[data-agent-config]');
+        if (!script) return;
+        
+        const config = script.getAttribute('data-agent-config');
+        let settings = {};
+        
+        try {
+            settings = JSON.parse(atob(config));
+        } catch (e) {
+            console.error('AgentFlow: Invalid Viber widget configuration');
+            return;
+        }
+        
+        // Create widget container
+        const widgetContainer = document.createElement('div');
+        widgetContainer.id = 'agentflow-viber-widget';
+        widgetContainer.style.cssText = `
+            position: fixed;
+            ${settings.position.includes('bottom') ? 'bottom: 20px;' : 'top: 20px;'}
+            ${settings.position.includes('left') ? 'left: 20px;' : 'right: 90px;'}
+            z-index: 9998;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        `;
+        
+        // Create chat button
+        const chatButton = document.createElement('div');
+        chatButton.style.cssText = `
+            width: 60px;
+            height: 60px;
+            background: #7360F2;
+            border-radius: 50%;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+            transition: all 0.3s ease;
+            position: relative;
+        `;
+        
+        // Viber icon
+        chatButton.innerHTML = `
+            <svg width="30" height="30" viewBox="0 0 24 24" fill="white">
+                <path d="M11.4 0C9.473.028 5.333.344 3.02 2.467 1.302 4.187.696 6.7.633 9.817.57 12.933.488 18.776 6.12 20.36h.003l-.004 2.416s-.037.977.61 1.177c.777.242 1.234-.5 1.98-1.302.407-.44.972-1.084 1.397-1.58 3.85.326 6.812-.416 7.15-.525.776-.252 5.176-.816 5.892-6.657.74-6.02-.36-9.83-2.34-11.546-.596-.55-3.006-2.3-8.375-2.323 0 0-.395-.025-1.037-.017zm.058 1.693c.545-.004.88.017.88.017 4.542.02 6.717 1.388 7.222 1.846 1.675 1.435 2.53 4.868 1.906 9.897v.002c-.604 4.878-4.174 5.184-4.832 5.395-.28.09-2.882.737-6.153.524 0 0-2.436 2.94-3.197 3.704-.12.12-.26.167-.352.144-.13-.033-.166-.188-.165-.414l.02-4.018c-4.762-1.32-4.485-6.292-4.43-8.895.054-2.604.543-4.738 1.996-6.173 1.96-1.773 5.474-2.018 7.11-2.03zm.38 2.602c-.167 0-.303.135-.304.302 0 .167.133.303.3.305 1.624.01 2.946.537 4.028 1.592 1.073 1.046 1.62 2.468 1.633 4.334.002.167.14.3.307.3.166-.002.3-.138.3-.304-.014-1.984-.618-3.596-1.816-4.764-1.19-1.16-2.692-1.753-4.447-1.765zm-3.96.695c-.19-.032-.4.005-.616.117l-.01.002c-.43.247-.816.562-1.146.932-.002.004-.006.004-.008.008-.267.323-.42.638-.46.948-.008.046-.01.093-.007.14 0 .136.022.27.065.4l.013.01c.135.48.473 1.276 1.205 2.604.42.768.903 1.5 1.446 2.186.27.344.56.673.87.984l.132.132c.31.308.64.6.984.87.686.543 1.418 1.027 2.186 1.447 1.328.733 2.126 1.07 2.604 1.206l.01.014c.13.042.265.064.402.063.046.002.092 0 .138-.008.31-.036.627-.19.948-.46.004 0 .003-.002.008-.005.37-.33.683-.72.93-1.148l.003-.01c.225-.432.15-.842-.18-1.12-.004 0-.698-.58-1.037-.83-.36-.255-.73-.492-1.113-.71-.51-.285-1.032-.106-1.248.174l-.447.564c-.23.283-.657.246-.657.246-3.12-.796-3.955-3.955-3.955-3.955s-.037-.426.248-.656l.563-.448c.277-.215.456-.737.17-1.248-.217-.383-.454-.756-.71-1.115-.25-.34-.826-1.033-.83-1.035-.137-.165-.31-.265-.502-.297zm4.49.88c-.158.002-.29.124-.3.282-.01.167.115.312.282.324 1.16.085 2.017.466 2.645 1.15.63.688.93 1.524.906 2.57-.002.168.13.306.3.31.166.003.305-.13.31-.297.025-1.175-.334-2.193-1.067-2.994-.74-.81-1.777-1.253-3.05-1.346h-.024zm.463 1.63c-.16.002-.29.127-.3.287-.008.167.12.31.288.32.523.028.875.175 1.113.422.24.245.388.62.416 1.164.01.167.15.295.318.287.167-.008.295-.15.287-.317-.03-.644-.215-1.178-.58-1.557-.367-.378-.893-.574-1.52-.607h-.018z"/>
+            </svg>
+        `;
+        
+        // Pulse animation
+        const pulseRing = document.createElement('div');
+        pulseRing.style.cssText = `
+            position: absolute;
+            width: 100%;
+            height: 100%;
+            border: 2px solid #7360F2;
+            border-radius: 50%;
+            animation: agentflow-pulse 2s infinite;
+            opacity: 0.5;
+        `;
+        
+        // Tooltip
+        const tooltip = document.createElement('div');
+        tooltip.className = 'agentflow-tooltip';
+        tooltip.textContent = 'Chat with us on Viber';
+        tooltip.style.cssText += `
+            bottom: 70px;
+            right: 0;
+        `;
+        
+        // Event handlers
+        chatButton.addEventListener('mouseenter', () => {
+            tooltip.classList.add('show');
+        });
+        
+        chatButton.addEventListener('mouseleave', () => {
+            tooltip.classList.remove('show');
+        });
+        
+        chatButton.addEventListener('click', () => {
+            // Track click event
+            if (window.gtag) {
+                gtag('event', 'click', {
+                    event_category: 'AgentFlow Widget',
+                    event_label: 'Viber Chat',
+                    value: 1
+                });
+            }
+            
+            // Generate Viber URL (public account chat URI)
+            const viberUrl = settings.viberBotId
+                ? `viber://pa?chatURI=${encodeURIComponent(settings.viberBotId)}`
+                : 'https://www.viber.com/';
+            
+            // Open Viber
+            window.open(viberUrl, '_blank');
+            
+            // Analytics tracking
+            console.log('AgentFlow Viber widget clicked', {
+                timestamp: new Date().toISOString(),
+                config: settings.apiKey,
+                platform: 'viber'
+            });
+        });
+        
+        // Assemble widget
+        chatButton.appendChild(pulseRing);
+        widgetContainer.appendChild(chatButton);
+        widgetContainer.appendChild(tooltip);
+        
+        // Add to page
+        document.body.appendChild(widgetContainer);
+        
+        console.log('AgentFlow Viber widget loaded successfully');
+    }
+    
+    // Initialize widget when DOM is ready
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', createViberWidget);
+    } else {
+        createViberWidget();
+    }
+})();
\ No newline at end of file
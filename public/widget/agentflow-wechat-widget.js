@@ -0,0 +1,124 @@
+(function() {
+    'use strict';
+    
+    // AgentFlow WeChat Widget Implementation
+    function createWeChatWidget() {
+        const script = document.currentScript || document.querySelector('script[data-agent-config]');
+        if (!script) return;
+        
+        const config = script.getAttribute('data-agent-config');
+        let settings = {};
+        
+        try {
+            settings = JSON.parse(atob(config));
+        } catch (e) {
+            console.error('AgentFlow: Invalid WeChat widget configuration');
+            return;
+        }
+        
+        // Create widget container
+        const widgetContainer = document.createElement('div');
+        widgetContainer.id = 'agentflow-wechat-widget';
+        widgetContainer.style.cssText = `
+            position: fixed;
+            ${settings.position.includes('bottom') ? 'bottom: 20px;' : 'top: 20px;'}
+            ${settings.position.includes('left') ? 'left: 20px;' : 'right: 90px;'}
+            z-index: 9998;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        `;
+        
+        // Create chat button
+        const chatButton = document.createElement('div');
+        chatButton.style.cssText = `
+            width: 60px;
+            height: 60px;
+            background: #07C160;
+            border-radius: 50%;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+            transition: all 0.3s ease;
+            position: relative;
+        `;
+        
+        // WeChat icon
+        chatButton.innerHTML = `
+            <svg width="30" height="30" viewBox="0 0 24 24" fill="white">
+                <path d="M8.691 2.188C3.891 2.188 0 5.476 0 9.53c0 2.212 1.17 4.203 3.002 5.55a.59.59 0 0 1 .213.665l-.39 1.48c-.019.07-.048.141-.048.213 0 .163.13.295.29.295a.326.326 0 0 0 .167-.054l1.903-1.114a.864.864 0 0 1 .717-.098 10.16 10.16 0 0 0 2.837.403c.276 0 .543-.027.811-.05-.857-2.578.157-4.972 1.932-6.446 1.703-1.415 3.882-1.98 5.853-1.838-.576-3.583-4.196-6.348-8.596-6.348zM5.785 5.991c.642 0 1.162.529 1.162 1.18a1.17 1.17 0 0 1-1.162 1.178A1.17 1.17 0 0 1 4.623 7.17c0-.651.52-1.18 1.162-1.18zm5.813 0c.642 0 1.162.529 1.162 1.18a1.17 1.17 0 0 1-1.162 1.178 1.17 1.17 0 0 1-1.162-1.178c0-.651.52-1.18 1.162-1.18zm5.34 2.867c-1.797-.052-3.746.512-5.28 1.786-1.72 1.428-2.687 3.72-1.78 6.22.942 2.453 3.666 4.229 6.884 4.229.826 0 1.622-.12 2.361-.336a.722.722 0 0 1 .598.082l1.584.926a.272.272 0 0 0 .14.047c.134 0 .24-.111.24-.247 0-.06-.023-.12-.038-.177l-.327-1.233a.582.582 0 0 1-.023-.156.49.49 0 0 1 .201-.398C23.024 18.48 24 16.82 24 14.98c0-3.21-2.931-5.837-6.656-6.088V8.89c-.135-.01-.27-.027-.407-.03zm-2.53 3.274c.535 0 .969.44.969.982a.976.976 0 0 1-.969.983.976.976 0 0 1-.969-.983c0-.542.434-.982.97-.982zm4.844 0c.535 0 .969.44.969.982a.976.976 0 0 1-.969.983.976.976 0 0 1-.969-.983c0-.542.434-.982.969-.982z"/>
+            </svg>
+        `;
+        
+        // Pulse animation
+        const pulseRing = document.createElement('div');
+        pulseRing.style.cssText = `
+            position: absolute;
+            width: 100%;
+            height: 100%;
+            border: 2px solid #07C160;
+            border-radius: 50%;
+            animation: agentflow-pulse 2s infinite;
+            opacity: 0.5;
+        `;
+        
+        // Tooltip
+        const tooltip = document.createElement('div');
+        tooltip.className = 'agentflow-tooltip';
+        tooltip.textContent = 'Chat with us on WeChat';
+        tooltip.style.cssText += `
+            bottom: 70px;
+            right: 0;
+        `;
+        
+        // Event handlers
+        chatButton.addEventListener('mouseenter', () => {
+            tooltip.classList.add('show');
+        });
+        
+        chatButton.addEventListener('mouseleave', () => {
+            tooltip.classList.remove('show');
+        });
+        
+        chatButton.addEventListener('click', () => {
+            // Track click event
+            if (window.gtag) {
+                gtag('event', 'click', {
+                    event_category: 'AgentFlow Widget',
+                    event_label: 'WeChat Chat',
+                    value: 1
+                });
+            }
+            
+            // WeChat Work has no public chat deep link; send visitors to the workspace entry page
+            const wechatUrl = 'https://work.weixin.qq.com/';
+            
+            // Open WeChat Work
+            window.open(wechatUrl, '_blank');
+            
+            // Analytics tracking
+            console.log('AgentFlow WeChat widget clicked', {
+                timestamp: new Date().toISOString(),
+                config: settings.apiKey,
+                platform: 'wechat'
+            });
+        });
+        
+        // Assemble widget
+        chatButton.appendChild(pulseRing);
+        widgetContainer.appendChild(chatButton);
+        widgetContainer.appendChild(tooltip);
+        
+        // Add to page
+        document.body.appendChild(widgetContainer);
+        
+        console.log('AgentFlow WeChat widget loaded successfully');
+    }
+    
+    // Initialize widget when DOM is ready
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', createWeChatWidget);
+    } else {
+        createWeChatWidget();
+    }
+})();
\ No newline at end of file
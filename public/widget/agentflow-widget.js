@@ -39,11 +39,17 @@
         return;
     }
 
+    // API calls go to the AgentFlow host that served this script, not the embedding site
+    const apiBase = script.src ? new URL(script.src).origin : window.location.origin;
+    const sessionKey = `agentflow_session_${config.agentId}`;
+
     // Widget state
     let isOpen = false;
-    let sessionId = null;
+    let sessionId = sessionStorage.getItem(sessionKey);
     let messages = [];
     let isLoading = false;
+    let staffPollTimer = null;
+    let lastStaffMessageAt = null;
 
     // Create widget styles
     const styles = `
@@ -156,6 +162,28 @@
             align-self: flex-start;
             opacity: 0.7;
         }
+        .agentflow-message.error {
+            background: #fdecea;
+            color: #b3261e;
+            align-self: flex-start;
+        }
+        .agentflow-typing {
+            display: inline-flex;
+            gap: 4px;
+        }
+        .agentflow-typing span {
+            width: 6px;
+            height: 6px;
+            border-radius: 50%;
+            background: #888;
+            animation: agentflow-typing 1.2s infinite ease-in-out;
+        }
+        .agentflow-typing span:nth-child(2) { animation-delay: 0.2s; }
+        .agentflow-typing span:nth-child(3) { animation-delay: 0.4s; }
+        @keyframes agentflow-typing {
+            0%, 80%, 100% { transform: translateY(0); opacity: 0.4; }
+            40% { transform: translateY(-4px); opacity: 1; }
+        }
 
         .agentflow-input-area {
             padding: 16px;
@@ -248,14 +276,41 @@
                     <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893A11.821 11.821 0 0020.893 3.086"/>
                 </svg>
             </button>
+            <div class="agentflow-chat" id="agentflow-chat">
+                <div class="agentflow-header">
+                    <div class="agentflow-header-avatar">💬</div>
+                    <div class="agentflow-header-info">
+                        <h3>Chat with us</h3>
+                        <p id="agentflow-status">Typically replies instantly</p>
+                    </div>
+                </div>
+                <div class="agentflow-messages" id="agentflow-messages"></div>
+                <div class="agentflow-whatsapp-handoff" id="agentflow-handoff" style="display: none;">
+                    <button class="agentflow-whatsapp-btn" id="agentflow-handoff-btn">Continue on WhatsApp</button>
+                </div>
+                <div class="agentflow-input-area">
+                    <textarea class="agentflow-input" id="agentflow-input" rows="1" placeholder="Type a message..."></textarea>
+                    <button class="agentflow-send-btn" id="agentflow-send" title="Send">
+                        <svg viewBox="0 0 24 24" width="18" height="18" fill="white"><path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z"/></svg>
+                    </button>
+                </div>
+            </div>
         </div>
     `;
 
     // Insert widget into DOM
     document.body.insertAdjacentHTML('beforeend', widgetHTML);
 
-    // Get DOM element
+    // Get DOM elements
     const toggleButton = document.getElementById('agentflow-toggle');
+    const chatPanel = document.getElementById('agentflow-chat');
+    const messagesContainer = document.getElementById('agentflow-messages');
+    const statusLine = document.getElementById('agentflow-status');
+    const handoffArea = document.getElementById('agentflow-handoff');
+    const handoffButton = document.getElementById('agentflow-handoff-btn');
+    const input = document.getElementById('agentflow-input');
+    const sendButton = document.getElementById('agentflow-send');
+    let handoffUrl = null;
 
     // WhatsApp Business integration with LLM trigger
     function openWhatsApp() {
@@ -268,7 +323,7 @@
             
             // Track widget interaction
             if (config.agentId) {
-                fetch(`${window.location.origin}/api/widget/track`, {
+                fetch(`${apiBase}/api/widget/track`, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
@@ -285,6 +340,211 @@
         }
     }
 
-    // Event listener - Direct WhatsApp redirect
-    toggleButton.addEventListener('click', openWhatsApp);
+    function addMessage(role, text) {
+        const bubble = document.createElement('div');
+        bubble.className = `agentflow-message ${role}`;
+        bubble.textContent = text;
+        messagesContainer.appendChild(bubble);
+        messagesContainer.scrollTop = messagesContainer.scrollHeight;
+        return bubble;
+    }
+
+    function showTyping() {
+        const bubble = document.createElement('div');
+        bubble.className = 'agentflow-message loading';
+        bubble.innerHTML = '<span class="agentflow-typing"><span></span><span></span><span></span></span>';
+        messagesContainer.appendChild(bubble);
+        messagesContainer.scrollTop = messagesContainer.scrollHeight;
+        statusLine.textContent = 'Typing...';
+        return bubble;
+    }
+
+    function setLoading(loading) {
+        isLoading = loading;
+        sendButton.disabled = loading;
+        if (!loading && !staffPollTimer) statusLine.textContent = 'Typically replies instantly';
+    }
+
+    function finishReply(result) {
+        if (result.sessionId) {
+            sessionId = result.sessionId;
+            sessionStorage.setItem(sessionKey, sessionId);
+        }
+        if (result.response) {
+            messages.push({ role: 'bot', content: result.response });
+        }
+        if (result.shouldTransfer && result.whatsappHandoff) {
+            handoffUrl = result.whatsappHandoff;
+            handoffArea.style.display = 'block';
+        }
+        if (result.handoffState === 'pending_human' || result.handoffState === 'human') {
+            startStaffPolling();
+        }
+    }
+
+    // A team member has taken over: poll for their replies until the bot is back in charge
+    function startStaffPolling() {
+        if (staffPollTimer) return;
+        statusLine.textContent = 'Waiting for a team member';
+        staffPollTimer = setInterval(pollStaffMessages, 5000);
+    }
+
+    async function pollStaffMessages() {
+        if (!sessionId) return;
+        try {
+            const params = new URLSearchParams({ apiKey: config.agentId });
+            if (lastStaffMessageAt) params.set('since', lastStaffMessageAt);
+            const response = await fetch(`${apiBase}/api/widget/messages/${encodeURIComponent(sessionId)}?${params}`);
+            if (!response.ok) return;
+
+            const result = await response.json();
+            result.messages.forEach(message => {
+                messages.push({ role: 'bot', content: message.content });
+                addMessage('bot', message.content);
+                lastStaffMessageAt = message.timestamp;
+            });
+            if (result.handoffState === 'human') {
+                statusLine.textContent = 'Chatting with a team member';
+            } else if (result.handoffState !== 'pending_human') {
+                clearInterval(staffPollTimer);
+                staffPollTimer = null;
+                statusLine.textContent = 'Typically replies instantly';
+            }
+        } catch (error) {
+            console.error('AgentFlow Widget:', error);
+        }
+    }
+
+    // Parse a Server-Sent Events stream from a fetch response body
+    async function readEventStream(response, onEvent) {
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let boundary;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const rawEvent = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+
+                let event = 'message';
+                let data = '';
+                rawEvent.split('\n').forEach(line => {
+                    if (line.startsWith('event:')) event = line.slice(6).trim();
+                    else if (line.startsWith('data:')) data += line.slice(5).trim();
+                });
+                if (data) onEvent(event, JSON.parse(data));
+            }
+        }
+    }
+
+    async function streamReply(text, typingBubble) {
+        const response = await fetch(`${apiBase}/api/widget/chat/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+            body: JSON.stringify({ apiKey: config.agentId, message: text, sessionId })
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(`Chat request failed (${response.status})`);
+        }
+
+        let replyBubble = null;
+        let failed = false;
+        await readEventStream(response, (event, data) => {
+            if (event === 'session') {
+                sessionId = data.sessionId;
+                sessionStorage.setItem(sessionKey, sessionId);
+            } else if (event === 'token') {
+                // Swap the typing indicator for the reply on the first token
+                if (!replyBubble) {
+                    typingBubble.remove();
+                    replyBubble = addMessage('bot', '');
+                }
+                replyBubble.textContent += data.delta;
+                messagesContainer.scrollTop = messagesContainer.scrollHeight;
+            } else if (event === 'done') {
+                if (!replyBubble) {
+                    typingBubble.remove();
+                    // No reply while a team member owns the conversation
+                    if (data.response) replyBubble = addMessage('bot', data.response);
+                }
+                finishReply(data);
+            } else if (event === 'error') {
+                failed = true;
+            }
+        });
+
+        if (failed) {
+            if (replyBubble) replyBubble.remove();
+            throw new Error('Chat stream failed');
+        }
+    }
+
+    // Fallback for browsers without streaming fetch support
+    async function fetchReply(text, typingBubble) {
+        const response = await fetch(`${apiBase}/api/widget/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ apiKey: config.agentId, message: text, sessionId })
+        });
+        if (!response.ok) {
+            throw new Error(`Chat request failed (${response.status})`);
+        }
+        const result = await response.json();
+        typingBubble.remove();
+        if (result.response) addMessage('bot', result.response);
+        finishReply(result);
+    }
+
+    async function sendMessage() {
+        const text = input.value.trim();
+        if (!text || isLoading) return;
+
+        input.value = '';
+        messages.push({ role: 'user', content: text });
+        addMessage('user', text);
+        setLoading(true);
+
+        const typingBubble = showTyping();
+        try {
+            if (window.ReadableStream && window.TextDecoder) {
+                await streamReply(text, typingBubble);
+            } else {
+                await fetchReply(text, typingBubble);
+            }
+        } catch (error) {
+            typingBubble.remove();
+            addMessage('error', 'Sorry, something went wrong. Please try again.');
+            console.error('AgentFlow Widget:', error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function toggleChat() {
+        isOpen = !isOpen;
+        chatPanel.classList.toggle('open', isOpen);
+        if (isOpen && messagesContainer.childElementCount === 0 && config.welcomeMessage) {
+            addMessage('bot', config.welcomeMessage);
+        }
+        if (isOpen) input.focus();
+    }
+
+    sendButton.addEventListener('click', sendMessage);
+    input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter' && !event.shiftKey) {
+            event.preventDefault();
+            sendMessage();
+        }
+    });
+    handoffButton.addEventListener('click', () => {
+        if (handoffUrl) window.open(handoffUrl, '_blank');
+    });
+
+    // Open the chat panel when chat is enabled, otherwise redirect straight to WhatsApp
+    toggleButton.addEventListener('click', config.enableChat ? toggleChat : openWhatsApp);
 })();
\ No newline at end of file
@@ -22,9 +22,13 @@ app.use(generateRequestId);
 app.use(securityHeaders);
 app.use(corsMiddleware);
 
-// Enhanced body parsing with security limits
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: false, limit: '10mb' }));
+// Enhanced body parsing with security limits; the raw body is kept for webhook signature checks
+const captureRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  req.rawBody = buf.toString('utf8');
+};
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.text({ type: ['text/xml', 'application/xml'], limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: false, limit: '10mb', verify: captureRawBody }));
 
 // Rate limiting for API routes
 app.use('/api', apiRateLimit);
@@ -1,27 +1,59 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { db } from "./db";
-import { insertAgentSchema, insertConversationSchema, insertUserSchema, loginSchema, businessTemplates, conversations as conversationsTable, analytics as analyticsTable } from "@shared/schema";
+import { type Agent, insertAgentSchema, insertConversationSchema, insertUserSchema, insertFlowTestCaseSchema, loginSchema, businessTemplates, conversations as conversationsTable, analytics as analyticsTable } from "@shared/schema";
 import { eq, and, gte, inArray } from "drizzle-orm";
-import { generateChatResponse, qualifyLead } from "./services/llm-providers";
+import { streamChatResponse } from "./services/llm-providers";
 import { authenticate, requireAdmin, requireApproved, requireSystemAdmin, requireBusinessManager, AuthenticatedRequest, AuthService } from "./auth";
-import { nanoid } from "nanoid";
 import { createSecureWidgetConfig } from "./encryption";
 import { randomBytes } from "crypto";
-import { whatsappService, type WhatsAppWebhookPayload } from "./services/whatsapp-business";
+import { nanoid } from "nanoid";
+import { whatsappService } from "./services/whatsapp-business";
+import { whatsappTemplateService, WhatsAppTemplateError } from "./services/whatsapp-templates";
+import { whatsappSessionWindow, WhatsAppWindowClosedError, SESSION_WINDOW_HOURS } from "./services/whatsapp-session-window";
 import { voiceCallingService } from "./services/voice-calling";
 import { logger } from "./services/logging";
 import { telegramService } from "./services/telegram";
 import { facebookMessengerService } from "./services/facebook-messenger";
 import { instagramService } from "./services/instagram";
 import { discordService } from "./services/discord";
+import { lineService } from "./services/line";
+import { viberService } from "./services/viber";
+import { wechatWorkService } from "./services/wechat-work";
+import { smsService } from "./services/sms";
+import { getChannelAdapter } from "./services/channels";
+import type { WebhookRequest } from "./services/channel-adapter";
+import { inboundPipeline } from "./services/inbound-pipeline";
+import { widgetChatService } from "./services/widget-chat";
+import { agentToolService } from "./services/agent-tools";
+import { EmbeddingProviderFactory } from "./services/embedding-providers";
+import { handoffService, HANDOFF_STATES, type HandoffState } from "./services/handoff";
+import { realtimeService } from "./services/realtime";
+import { conversationFlowService, type FlowNode, type FlowEdge } from "./services/conversation-flow";
+import { flowSimulator } from "./services/flow-simulator";
+import { flowVersionService } from "./services/flow-versions";
+import { callScheduler, CallSchedulingError, DEFAULT_TRIGGER_SETTINGS } from "./services/call-scheduler";
+import { CallBlockedError, callComplianceService, normalizePhoneNumber, DEFAULT_QUIET_HOURS } from "./services/call-compliance";
+import { callAnalysisService } from "./services/call-analysis";
+import { campaignService, CampaignError, CAMPAIGN_CHANNELS } from "./services/campaigns";
+import { isValidTimeZone } from "./utils/time-zones";
 
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
 import { randomBytes } from 'crypto';
 
+// What a provider signed: the public URL (https behind the hosting proxy), the raw body and headers
+function webhookRequest(req: Request): WebhookRequest {
+  return {
+    url: `${req.get('x-forwarded-proto') || req.protocol}://${req.get('host')}${req.originalUrl}`,
+    rawBody: req.rawBody || '',
+    headers: req.headers,
+    query: req.query
+  };
+}
+
 // Helper function to generate embed code
 function generateEmbedCode(platform: string, agent: any): string {
   const baseUrl = process.env.NODE_ENV === 'production' 
@@ -52,91 +84,6 @@ function generateEmbedCode(platform: string, agent: any): string {
 `.trim();
 }
 
-// WhatsApp Business API integration
-async function sendWhatsAppMessage(phoneNumber: string, message: string, accessToken: string) {
-  const url = `https://graph.facebook.com/v18.0/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`;
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      messaging_product: 'whatsapp',
-      to: phoneNumber,
-      type: 'text',
-      text: { body: message }
-    })
-  });
-  
-  return response.json();
-}
-
-async function processWhatsAppMessage(agent: any, message: any, messageData: any) {
-  const userPhone = message.from;
-  const userMessage = message.text.body;
-  
-  // Get or create conversation
-  let conversation = await storage.getConversationBySession(`whatsapp_${userPhone}_${agent.id}`);
-  if (!conversation) {
-    conversation = await storage.createConversation({
-      agentId: agent.id,
-      sessionId: `whatsapp_${userPhone}_${agent.id}`,
-      messages: [],
-      leadData: { phone: userPhone },
-    });
-  }
-
-  // Add user message to conversation
-  const userChatMessage = {
-    role: 'user' as const,
-    content: userMessage,
-    timestamp: new Date().toISOString(),
-  };
-
-  const updatedMessages = [...(conversation.messages || []), userChatMessage];
-
-  // Generate LLM response
-  const chatMessages = [
-    { role: 'system' as const, content: agent.systemPrompt },
-    ...updatedMessages.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
-  ];
-
-  const aiResponse = await generateChatResponse(chatMessages, agent.llmProvider);
-  
-  // Add AI response to conversation
-  const aiChatMessage = {
-    role: 'assistant' as const,
-    content: aiResponse.content,
-    timestamp: new Date().toISOString(),
-  };
-
-  const finalMessages = [...updatedMessages, aiChatMessage];
-
-  // Update conversation in database
-  await storage.updateConversation(conversation.id, {
-    messages: finalMessages,
-  });
-
-  // Send LLM response back to WhatsApp
-  if (agent.whatsappAccessToken) {
-    await sendWhatsAppMessage(userPhone, aiResponse.content, agent.whatsappAccessToken);
-  }
-
-  // Lead qualification after multiple exchanges
-  if (finalMessages.length >= 4) {
-    const conversationText = finalMessages.map(m => `${m.role}: ${m.content}`).join('\n');
-    const qualification = await qualifyLead(conversationText, agent.leadQualificationQuestions || [], agent.llmProvider);
-    
-    await storage.updateConversation(conversation.id, {
-      leadData: { ...conversation.leadData, ...qualification.extractedData, phone: userPhone },
-      conversionScore: qualification.score,
-      callScheduled: qualification.recommendation === 'call',
-    });
-  }
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
   app.post('/api/auth/register', async (req, res) => {
@@ -862,6 +809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'discord': 'discord',
         'line-messaging': 'line',
         'wechat-work': 'wechat',
+        'viber-business': 'viber',
         // Also accept backend platform types directly
         'whatsapp': 'whatsapp',
         'facebook': 'facebook',
@@ -869,7 +817,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const mappedPlatformType = platformType ? (platformMapping[platformType as keyof typeof platformMapping] || platformType) : 'whatsapp';
-      const validPlatforms = ['whatsapp', 'telegram', 'discord', 'facebook', 'instagram', 'line', 'wechat'];
+      const validPlatforms = ['whatsapp', 'telegram', 'discord', 'facebook', 'instagram', 'line', 'viber', 'wechat'];
       
       if (mappedPlatformType && !validPlatforms.includes(mappedPlatformType)) {
         return res.status(400).json({ message: "Invalid platform type. Must be one of: " + Object.keys(platformMapping).join(', ') });
@@ -879,6 +827,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (widgetColor && !/^#[0-9A-F]{6}$/i.test(widgetColor)) {
         return res.status(400).json({ message: "Widget color must be a valid hex color (e.g., #FF0000)" });
       }
+
+      const flowValidation = req.body.conversationFlow ? conversationFlowService.validateFlow(req.body.conversationFlow) : undefined;
+      if (flowValidation && !flowValidation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: flowValidation.errors,
+          diagnostics: flowValidation.diagnostics
+        });
+      }
       
       // Validation passed, proceed with creation
       const apiKey = randomBytes(32).toString('hex');
@@ -902,8 +859,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log('Agent data before creation:', agentData);
       
-      const agent = await storage.createAgent(agentData);
-      res.status(201).json(agent);
+      let agent = await storage.createAgent(agentData);
+      if (agent.conversationFlow) {
+        agent = (await flowVersionService.publish(agent, agent.conversationFlow, req.user!.id, 'Initial flow')).agent;
+      }
+      res.status(201).json(flowValidation?.warnings.length
+        ? { ...agent, flowWarnings: flowValidation.diagnostics }
+        : agent);
     } catch (error: any) {
       console.error('Agent creation error:', error);
       if (error.name === 'ZodError') {
@@ -927,9 +889,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!['system_admin', 'business_manager'].includes(req.user!.role) && existingAgent.userId !== req.user!.id) {
         return res.status(403).json({ message: "Access denied" });
       }
+
+      const flowValidation = validatedData.conversationFlow
+        ? conversationFlowService.validateFlow(validatedData.conversationFlow)
+        : undefined;
+      if (flowValidation && !flowValidation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: flowValidation.errors,
+          diagnostics: flowValidation.diagnostics
+        });
+      }
       
-      const agent = await storage.updateAgent(id, validatedData);
-      res.json(agent);
+      // Switching embedding provider makes the stored embeddings unusable for search
+      const embeddingProviderChanged = !!validatedData.embeddingProvider
+        && validatedData.embeddingProvider !== existingAgent.embeddingProvider;
+      if (embeddingProviderChanged) {
+        try {
+          EmbeddingProviderFactory.createProvider(validatedData.embeddingProvider!);
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+      }
+
+      // A flow sent here is saved as the draft, like the flow designer's saves; publishing makes it live
+      const { conversationFlow, ...agentUpdates } = validatedData;
+      const agent = await storage.updateAgent(id, agentUpdates);
+      const flowDraft = agent && conversationFlow
+        ? await flowVersionService.saveDraft(agent, conversationFlow as NonNullable<Agent['conversationFlow']>, req.user!.id, 'Saved with agent settings')
+        : undefined;
+
+      if (embeddingProviderChanged) {
+        const { AITrainingService } = await import('./services/ai-training');
+        AITrainingService.startReembedJob(id);
+      }
+
+      // Warnings (e.g. unreachable nodes) do not block saving but are returned for the designer
+      res.json({
+        ...agent,
+        ...(flowDraft ? { flowDraft } : {}),
+        ...(flowValidation?.warnings.length ? { flowWarnings: flowValidation.diagnostics } : {})
+      });
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid agent data", errors: error.errors });
@@ -1033,20 +1033,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Agent not found or inactive" });
         }
 
-        // Process incoming WhatsApp messages
-        for (const entry of webhookData.entry || []) {
-          for (const change of entry.changes || []) {
-            if (change.field === 'messages') {
-              const messages = change.value.messages || [];
-              
-              for (const message of messages) {
-                if (message.type === 'text') {
-                  await processWhatsAppMessage(agent, message, change.value);
-                }
-              }
-            }
-          }
+        // Same gate as /webhook/whatsapp/:agentId; the API key in the URL is not a secret
+        if (!whatsappService.verifySignature(agent, webhookRequest(req))) {
+          console.log(`WhatsApp webhook rejected for agent ${agent.id}: invalid signature`);
+          await logger.logWebhook('whatsapp', 'invalid_signature', agent.id);
+          return res.status(401).json({ message: "Invalid signature" });
         }
+
+        await inboundPipeline.handleWebhook(whatsappService, agent, webhookData);
       }
       
       res.status(200).json({ status: 'success' });
@@ -1107,13 +1101,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         agentId,
         enabled: false,
         triggerType: "time_based",
-        delayMinutes: 15,
-        businessHoursOnly: true,
+        ...DEFAULT_TRIGGER_SETTINGS,
+        requireConsent: true,
+        quietHoursStart: DEFAULT_QUIET_HOURS.start,
+        quietHoursEnd: DEFAULT_QUIET_HOURS.end,
         minEngagementScore: 50,
         requireEmailCapture: false,
         requirePhoneCapture: true,
-        maxAttemptsPerLead: 2,
-        retryDelayHours: 24,
         voicePersona: "professional",
         callObjective: "answer_questions"
       });
@@ -1132,6 +1126,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agent not found" });
       }
 
+      const invalidTime = ['quietHoursStart', 'quietHoursEnd'].find(field =>
+        req.body[field] !== undefined && req.body[field] !== null && !/^([01]\d|2[0-3]):[0-5]\d$/.test(req.body[field]));
+      if (invalidTime) {
+        return res.status(400).json({ message: `${invalidTime} must be a time like "21:00", or null to turn quiet hours off` });
+      }
+
       const existingTrigger = await storage.getVoiceCallTrigger(agentId);
       
       if (existingTrigger) {
@@ -1150,29 +1150,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Queue a call now or at scheduledFor; business hours and the attempt limit still apply
   app.post("/api/voice-calls/manual", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const { agentId, phoneNumber, triggerReason } = req.body;
+      const { agentId, phoneNumber, triggerReason, scheduledFor } = req.body;
       
       const agent = await storage.getAgent(agentId);
       if (!agent || agent.userId !== req.user!.id) {
         return res.status(404).json({ message: "Agent not found" });
       }
 
-      const voiceCall = await voiceCallingService.triggerVoiceCall({
-        agentId,
+      if (!phoneNumber) {
+        return res.status(400).json({ message: "phoneNumber is required" });
+      }
+
+      const notBefore = scheduledFor ? new Date(scheduledFor) : new Date();
+      if (isNaN(notBefore.getTime())) {
+        return res.status(400).json({ message: "scheduledFor must be an ISO date" });
+      }
+
+      const scheduledCall = await callScheduler.scheduleCall({
+        agentId: agent.id,
         phoneNumber,
-        triggerReason,
-        triggeredBy: "manual"
+        triggerReason: triggerReason || "Manual call",
+        triggeredBy: "manual",
+        notBefore
       });
 
-      res.json(voiceCall);
+      res.status(201).json(scheduledCall);
     } catch (error) {
+      if (error instanceof CallBlockedError) {
+        return res.status(403).json({ message: error.message, reason: error.reason });
+      }
+      if (error instanceof CallSchedulingError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error initiating manual voice call:", error);
       res.status(500).json({ message: "Failed to initiate voice call" });
     }
   });
 
+  // Queued and past scheduled calls; ?status=scheduled,in_call filters by status
+  app.get("/api/voice-calls/scheduled/:agentId", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agentId = parseInt(req.params.agentId);
+      const agent = await storage.getAgent(agentId);
+
+      if (!agent || agent.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const statuses = typeof req.query.status === 'string' ? req.query.status.split(',').filter(Boolean) : undefined;
+      res.json(await storage.getScheduledCallsByAgent(agentId, statuses));
+    } catch (error) {
+      console.error("Error fetching scheduled calls:", error);
+      res.status(500).json({ message: "Failed to fetch scheduled calls" });
+    }
+  });
+
+  app.post("/api/voice-calls/scheduled/:id/cancel", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const scheduledCall = await storage.getScheduledCall(parseInt(req.params.id));
+      const agent = scheduledCall && await storage.getAgent(scheduledCall.agentId);
+
+      if (!scheduledCall || !agent || agent.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Scheduled call not found" });
+      }
+
+      res.json(await callScheduler.cancel(scheduledCall, req.user!.id));
+    } catch (error) {
+      if (error instanceof CallSchedulingError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling scheduled call:", error);
+      res.status(500).json({ message: "Failed to cancel scheduled call" });
+    }
+  });
+
+  // Re-run transcript analysis, e.g. after it failed or the transcript was corrected
+  app.post("/api/voice-calls/:id/analyze", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const voiceCall = await storage.getVoiceCall(parseInt(req.params.id));
+      const agent = voiceCall && await storage.getAgent(voiceCall.agentId);
+
+      if (!voiceCall || !agent || agent.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Voice call not found" });
+      }
+
+      if (voiceCall.status !== 'completed' || !voiceCall.transcription) {
+        return res.status(409).json({ message: "Only answered calls with a transcript can be analysed" });
+      }
+
+      const analyzed = await callAnalysisService.analyzeCall(voiceCall, { force: true });
+      if (!analyzed) {
+        return res.status(409).json({ message: "This call is already being analysed" });
+      }
+      res.json(analyzed);
+    } catch (error) {
+      console.error("Error analysing voice call:", error);
+      res.status(500).json({ message: "Failed to analyse voice call" });
+    }
+  });
+
+  // Do-not-call registry for the signed-in business; applies to all of its agents
+  app.get("/api/voice-calls/do-not-call", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      res.json(await storage.getDoNotCallNumbers(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching do-not-call list:", error);
+      res.status(500).json({ message: "Failed to fetch do-not-call list" });
+    }
+  });
+
+  app.post("/api/voice-calls/do-not-call", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { phoneNumber, reason, source } = req.body;
+      if (typeof phoneNumber !== 'string' || !phoneNumber.trim()) {
+        return res.status(400).json({ message: "phoneNumber is required" });
+      }
+
+      const entry = await callComplianceService.addToDoNotCall(req.user!.id, phoneNumber, {
+        reason,
+        source,
+        addedBy: req.user!.id
+      });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error adding do-not-call number:", error);
+      res.status(500).json({ message: "Failed to add number to the do-not-call list" });
+    }
+  });
+
+  app.delete("/api/voice-calls/do-not-call/:phoneNumber", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const removed = await callComplianceService.removeFromDoNotCall(req.user!.id, req.params.phoneNumber, req.user!.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Number is not on the do-not-call list" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing do-not-call number:", error);
+      res.status(500).json({ message: "Failed to remove number from the do-not-call list" });
+    }
+  });
+
+  // Consent records for the signed-in business; ?phoneNumber= narrows to one number
+  app.get("/api/voice-calls/consents", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const phoneNumber = typeof req.query.phoneNumber === 'string' ? normalizePhoneNumber(req.query.phoneNumber) : undefined;
+      res.json(await storage.getCallConsents(req.user!.id, phoneNumber));
+    } catch (error) {
+      console.error("Error fetching call consents:", error);
+      res.status(500).json({ message: "Failed to fetch call consents" });
+    }
+  });
+
+  // Consent captured outside a conversation, e.g. a web form checkbox
+  app.post("/api/voice-calls/consents", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { agentId, phoneNumber, consentText, source, conversationId, timezone, grantedAt } = req.body;
+
+      const agent = await storage.getAgent(agentId);
+      if (!agent || agent.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      if (typeof phoneNumber !== 'string' || !phoneNumber.trim()) {
+        return res.status(400).json({ message: "phoneNumber is required" });
+      }
+      if (typeof consentText !== 'string' || !consentText.trim()) {
+        return res.status(400).json({ message: "consentText is required: the wording the customer agreed to" });
+      }
+      if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+        return res.status(400).json({ message: "timezone must be an IANA time zone, e.g. America/New_York" });
+      }
+      if (conversationId !== undefined) {
+        const conversation = await storage.getConversation(conversationId);
+        if (!conversation || conversation.agentId !== agent.id) {
+          return res.status(400).json({ message: "conversationId must be a conversation of this agent" });
+        }
+      }
+      const grantedAtDate = grantedAt ? new Date(grantedAt) : new Date();
+      if (isNaN(grantedAtDate.getTime())) {
+        return res.status(400).json({ message: "grantedAt must be an ISO date" });
+      }
+
+      const consent = await callComplianceService.recordConsent({
+        agent,
+        phoneNumber,
+        consentText,
+        source: source || 'web_form',
+        conversationId,
+        timezone,
+        grantedAt: grantedAtDate,
+        recordedBy: req.user!.id
+      });
+      res.status(201).json(consent);
+    } catch (error) {
+      console.error("Error recording call consent:", error);
+      res.status(500).json({ message: "Failed to record call consent" });
+    }
+  });
+
+  app.post("/api/voice-calls/consents/revoke", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { phoneNumber } = req.body;
+      if (typeof phoneNumber !== 'string' || !phoneNumber.trim()) {
+        return res.status(400).json({ message: "phoneNumber is required" });
+      }
+
+      const revoked = await callComplianceService.revokeConsent(req.user!.id, phoneNumber, req.user!.id);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking call consent:", error);
+      res.status(500).json({ message: "Failed to revoke call consent" });
+    }
+  });
+
+  // Call progress, recording and transcription callbacks from the telephony provider
+  app.post("/webhook/voice/status", async (req, res) => {
+    try {
+      const provider = voiceCallingService.getTelephonyProvider();
+      if (!provider.validateRequest(webhookRequest(req))) {
+        await logger.logWebhook('voice', 'invalid_signature');
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+
+      const update = provider.parseCallback(req.body);
+      if (!update) {
+        return res.status(400).json({ error: "Unrecognised callback" });
+      }
+
+      await voiceCallingService.processCallWebhook(update.callId, update.status, update);
+      res.status(200).type('text/xml').send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+    } catch (error) {
+      console.error('Voice status webhook error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.get("/api/voice-calls/analytics/:agentId", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
       const agentId = parseInt(req.params.agentId);
@@ -1226,82 +1442,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Agent is not active" });
       }
 
-      const currentSessionId = sessionId || nanoid();
-      
-      // Get or create conversation
-      let conversation = await storage.getConversationBySession(currentSessionId);
-      if (!conversation) {
-        conversation = await storage.createConversation({
-          agentId: agent.id,
-          sessionId: currentSessionId,
-          messages: [],
-          leadData: {},
-        });
+      const turn = await widgetChatService.startTurn(agent, message, sessionId);
+      if (!turn.routing.botReplies) {
+        return res.json(await widgetChatService.completeHandoffTurn(turn));
       }
 
-      // Add user message
-      const userMessage = {
-        role: 'user' as const,
-        content: message,
-        timestamp: new Date().toISOString(),
-      };
+      const aiResponse = await agentToolService.generateResponse(agent, turn.chatMessages, {
+        conversationId: turn.conversation.id
+      });
+      const result = await widgetChatService.completeTurn(agent, turn, aiResponse);
 
-      const updatedMessages = [...(conversation.messages || []), userMessage];
+      res.json(result);
 
-      // Generate AI response using LLM
-      const chatMessages = [
-        { role: 'system' as const, content: agent.systemPrompt },
-        ...updatedMessages.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
-      ];
+    } catch (error) {
+      console.error("Chat error:", error);
+      res.status(500).json({ message: "Failed to process chat message" });
+    }
+  });
 
-      const aiResponse = await generateChatResponse(chatMessages, agent.llmProvider);
-      
-      // Add AI response
-      const aiMessage = {
-        role: 'assistant' as const,
-        content: aiResponse.content,
-        timestamp: new Date().toISOString(),
-      };
+  // Streaming widget chat (Server-Sent Events): "session", then "token" events with
+  // text deltas, then "done" with the same payload as POST /api/widget/chat
+  app.post("/api/widget/chat/stream", async (req, res) => {
+    const { apiKey, message, sessionId } = req.body;
 
-      const finalMessages = [...updatedMessages, aiMessage];
+    if (!apiKey || !message) {
+      return res.status(400).json({ message: "API key and message are required" });
+    }
 
-      // Update conversation
-      await storage.updateConversation(conversation.id, {
-        messages: finalMessages,
-      });
+    let agent;
+    try {
+      agent = await storage.getAgentByApiKey(apiKey);
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      return res.status(500).json({ message: "Failed to process chat message" });
+    }
 
-      // Check if we should qualify this lead
-      if (finalMessages.length >= 4) {
-        const conversationText = finalMessages.map(m => `${m.role}: ${m.content}`).join('\n');
-        const qualification = await qualifyLead(conversationText, agent.leadQualificationQuestions || [], agent.llmProvider);
-        
-        await storage.updateConversation(conversation.id, {
-          leadData: qualification.extractedData,
-          conversionScore: qualification.score,
-          callScheduled: qualification.recommendation === 'call',
+    if (!agent) {
+      return res.status(404).json({ message: "Agent not found" });
+    }
+
+    if (agent.status !== 'active') {
+      return res.status(403).json({ message: "Agent is not active" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // The completion is still stored if the visitor disconnects mid-stream
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const turn = await widgetChatService.startTurn(agent, message, sessionId);
+      sendEvent('session', { sessionId: turn.sessionId });
+
+      if (!turn.routing.botReplies) {
+        const result = await widgetChatService.completeHandoffTurn(turn);
+        if (result.response) sendEvent('token', { delta: result.response });
+        sendEvent('done', result);
+        return;
+      }
+
+      // Tool-calling agents need the full completion to run tools, so their reply arrives as one token
+      let aiResponse;
+      if (agentToolService.getAgentTools(agent).length > 0) {
+        aiResponse = await agentToolService.generateResponse(agent, turn.chatMessages, {
+          conversationId: turn.conversation.id
+        });
+        sendEvent('token', { delta: aiResponse.content });
+      } else {
+        aiResponse = await streamChatResponse(turn.chatMessages, agent.llmProvider, (delta) => {
+          sendEvent('token', { delta });
         });
       }
+      const result = await widgetChatService.completeTurn(agent, turn, aiResponse);
 
-      // Generate WhatsApp handoff URL if conversation should transfer
-      let whatsappHandoff = null;
-      if (finalMessages.length >= 6 || aiResponse.content.toLowerCase().includes('contact') || aiResponse.content.toLowerCase().includes('speak')) {
-        if (agent.whatsappNumber) {
-          const handoffMessage = encodeURIComponent(`Continuing our conversation: ${finalMessages.slice(-2).map(m => m.content).join(' ')}`);
-          const cleanNumber = agent.whatsappNumber.replace(/[^0-9]/g, '');
-          whatsappHandoff = `https://wa.me/${cleanNumber}?text=${handoffMessage}`;
-        }
+      sendEvent('done', { ...result, usage: aiResponse.usage });
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      sendEvent('error', { message: "Failed to process chat message" });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Staff replies for a widget session after a human has taken over; polled by the widget
+  app.get("/api/widget/messages/:sessionId", async (req, res) => {
+    try {
+      const apiKey = req.query.apiKey as string;
+      const since = req.query.since as string | undefined;
+
+      if (!apiKey) {
+        return res.status(400).json({ message: "API key is required" });
       }
 
-      res.json({
-        response: aiResponse.content,
-        sessionId: currentSessionId,
-        whatsappHandoff,
-        shouldTransfer: !!whatsappHandoff,
-      });
+      const agent = await storage.getAgentByApiKey(apiKey);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      const result = await widgetChatService.getStaffMessages(agent, req.params.sessionId, since);
+      if (!result) {
+        return res.status(404).json({ message: "Session not found" });
+      }
 
+      res.json(result);
     } catch (error) {
-      console.error("Chat error:", error);
-      res.status(500).json({ message: "Failed to process chat message" });
+      console.error("Widget messages error:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
@@ -1351,7 +1606,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Return platform-specific configuration
-      const baseConfig = {
+      const baseConfig: Record<string, any> = {
         welcomeMessage: agent.welcomeMessage,
         widgetColor: agent.widgetColor,
         widgetPosition: agent.widgetPosition,
@@ -1379,6 +1634,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           baseConfig.discordGuildId = agent.discordGuildId;
           baseConfig.discordChannelId = agent.discordChannelId;
           break;
+        case 'line':
+          baseConfig.lineAccountId = agent.lineChannelId;
+          break;
+        case 'viber':
+          baseConfig.viberBotId = agent.viberBotId;
+          break;
+        case 'wechat':
+          baseConfig.wechatCorpId = agent.wechatCorpId;
+          break;
       }
 
       res.json(baseConfig);
@@ -1405,6 +1669,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         welcomeMessage: agent.welcomeMessage,
         whatsappNumber: agent.whatsappNumber,
         whatsappMode: agent.whatsappMode || 'web',
+        lineAccountId: agent.lineChannelId,
+        viberBotId: agent.viberBotId,
+        wechatCorpId: agent.wechatCorpId,
         timestamp: Date.now()
       };
       
@@ -1464,162 +1731,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // WhatsApp Business API Webhook verification
-  app.get("/webhook/whatsapp/:agentId", async (req, res) => {
+  // WhatsApp message history endpoint
+  app.get("/api/agents/:id/whatsapp-messages", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const { agentId } = req.params;
-      const mode = req.query['hub.mode'];
-      const token = req.query['hub.verify_token'];
-      const challenge = req.query['hub.challenge'];
-
-      const agent = await storage.getAgent(parseInt(agentId));
+      const agentId = parseInt(req.params.id);
+      const agent = await storage.getAgent(agentId);
+      
       if (!agent) {
-        console.log(`Webhook verification failed: Agent ${agentId} not found`);
-        return res.status(404).send('Agent not found');
+        return res.status(404).json({ error: "Agent not found" });
       }
 
-      // Check if WhatsApp is configured for this agent
-      if (!agent.whatsappWebhookVerifyToken) {
-        console.log(`Webhook verification failed: Agent ${agentId} has no WhatsApp verification token configured`);
-        return res.status(400).send('WhatsApp webhook not configured for this agent');
+      // Check if user owns this agent (unless admin)
+      if (req.user?.role !== 'admin' && agent.userId !== req.user?.id) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      if (mode === 'subscribe' && token === agent.whatsappWebhookVerifyToken) {
-        console.log('WhatsApp webhook verified for agent:', agentId);
-        res.status(200).send(challenge);
-      } else {
-        console.log(`Webhook verification failed: Mode=${mode}, Token match=${token === agent.whatsappWebhookVerifyToken}`);
-        res.status(403).send('Verification failed');
-      }
+      const messages = await storage.getWhatsappMessagesByAgent(agentId);
+      res.json(messages);
     } catch (error) {
-      console.error('Error verifying WhatsApp webhook:', error);
-      res.status(500).send('Internal server error');
+      console.error("Error fetching WhatsApp messages:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // WhatsApp Business API Webhook for incoming messages
-  app.post("/webhook/whatsapp/:agentId", async (req, res) => {
+  // WhatsApp message templates, synced from the agent's Business Account
+  const loadWhatsappAgent = async (req: AuthenticatedRequest, res: Response) => {
+    const agent = await storage.getAgent(parseInt(req.params.id));
+    if (!agent) {
+      res.status(404).json({ error: "Agent not found" });
+      return undefined;
+    }
+
+    // Check if user owns this agent (unless admin)
+    if (req.user?.role !== 'admin' && agent.userId !== req.user?.id) {
+      res.status(403).json({ error: "Access denied" });
+      return undefined;
+    }
+    return agent;
+  };
+
+  app.get("/api/agents/:id/whatsapp-templates", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const { agentId } = req.params;
-      const webhookData: WhatsAppWebhookPayload = req.body;
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
 
-      const agent = await storage.getAgent(parseInt(agentId));
-      if (!agent) {
-        console.log(`WhatsApp webhook failed: Agent ${agentId} not found`);
-        return res.status(404).json({ error: "Agent not found" });
-      }
+      const templates = await storage.getWhatsappTemplates(agent.id);
+      const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+      res.json(status ? templates.filter(template => template.status === status) : templates);
+    } catch (error) {
+      console.error("Error fetching WhatsApp templates:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Check if WhatsApp Business API is properly configured
-      if (!agent.whatsappAccessToken || !agent.whatsappPhoneNumberId) {
-        console.log(`WhatsApp webhook failed: Agent ${agentId} missing WhatsApp Business API credentials`);
-        return res.status(400).json({ 
-          error: "WhatsApp Business API not configured", 
-          details: "Missing access token or phone number ID" 
-        });
+  app.post("/api/agents/:id/whatsapp-templates/sync", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      const { templates, removed } = await whatsappTemplateService.sync(agent);
+      res.json({ synced: templates.length, removed, templates });
+    } catch (error: any) {
+      if (error instanceof WhatsAppTemplateError) {
+        return res.status(400).json({ error: error.message });
       }
+      console.error("Error syncing WhatsApp templates:", error);
+      res.status(502).json({ error: error.message || "Failed to sync templates" });
+    }
+  });
 
-      // Process each entry in the webhook payload
-      for (const entry of webhookData.entry) {
-        for (const change of entry.changes) {
-          if (change.field === 'messages') {
-            const { messages, contacts, statuses } = change.value;
-
-            // Handle incoming messages
-            if (messages) {
-              for (const message of messages) {
-                // Get sender contact info
-                const senderContact = contacts?.find(contact => contact.wa_id === message.from);
-                const senderName = senderContact?.profile?.name || 'Unknown';
-
-                // Get or create conversation for this phone number
-                let conversation = await storage.getConversationBySession(`whatsapp_${message.from}_${agent.id}`);
-                if (!conversation) {
-                  conversation = await storage.createConversation({
-                    agentId: agent.id,
-                    sessionId: `whatsapp_${message.from}_${agent.id}`,
-                    messages: [],
-                    leadData: {},
-                  });
-                }
+  app.post("/api/agents/:id/whatsapp-templates/send", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
 
-                // Store incoming message
-                const incomingMessage = await storage.createWhatsappMessage({
-                  agentId: agent.id,
-                  conversationId: conversation.id,
-                  whatsappMessageId: message.id,
-                  fromNumber: message.from,
-                  toPhoneNumber: change.value.metadata.phone_number_id,
-                  messageType: message.type,
-                  content: message.text?.body || `[${message.type} message]`,
-                  direction: 'inbound',
-                  webhookData: message
-                });
-
-                // Process message with AI agent
-                const { response, shouldSend } = await whatsappService.processIncomingMessage(
-                  agent,
-                  message,
-                  senderName
-                );
-
-                // Send AI response if needed
-                if (shouldSend && agent.whatsappAccessToken && agent.whatsappPhoneNumberId) {
-                  const sendResult = await whatsappService.sendMessage(
-                    agent.whatsappAccessToken,
-                    agent.whatsappPhoneNumberId,
-                    message.from,
-                    response
-                  );
-
-                  if (sendResult.success && sendResult.messageId) {
-                    // Store outgoing message
-                    await storage.createWhatsappMessage({
-                      agentId: agent.id,
-                      whatsappMessageId: sendResult.messageId,
-                      fromPhoneNumber: agent.whatsappNumber || change.value.metadata.display_phone_number,
-                      toPhoneNumber: message.from,
-                      messageType: 'text',
-                      content: response,
-                      direction: 'outbound',
-                      status: 'sent'
-                    });
-                  }
-                }
+      const { phoneNumber, name, language, parameters } = req.body;
+      if (!phoneNumber || !name) {
+        return res.status(400).json({ error: "Phone number and template name are required" });
+      }
+      if (parameters !== undefined && (typeof parameters !== 'object' || Array.isArray(parameters))) {
+        return res.status(400).json({ error: "parameters must be an object" });
+      }
 
-                // Mark original message as read
-                if (agent.whatsappAccessToken && agent.whatsappPhoneNumberId) {
-                  await whatsappService.markMessageAsRead(
-                    agent.whatsappAccessToken,
-                    agent.whatsappPhoneNumberId,
-                    message.id
-                  );
-                }
-              }
-            }
-
-            // Handle message status updates
-            if (statuses) {
-              for (const status of statuses) {
-                await storage.updateWhatsappMessageStatus(status.id, status.status);
-              }
-            }
-          }
-        }
-      }
-
-      res.status(200).json({ success: true });
+      const { messageId, template } = await whatsappTemplateService.send(agent, {
+        to: phoneNumber,
+        name,
+        language: typeof language === 'string' && language ? language : undefined,
+        parameters
+      });
+      res.json({ success: true, messageId, language: template.language });
     } catch (error) {
-      console.error('Error processing WhatsApp webhook:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      if (error instanceof WhatsAppTemplateError) {
+        return res.status(400).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error sending WhatsApp template:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // WhatsApp message history endpoint
-  app.get("/api/agents/:id/whatsapp-messages", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+  // Serves media downloaded from an inbound WhatsApp message
+  app.get("/api/agents/:id/whatsapp-media/:messageId", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const agentId = parseInt(req.params.id);
-      const agent = await storage.getAgent(agentId);
-      
+      const agent = await storage.getAgent(parseInt(req.params.id));
       if (!agent) {
         return res.status(404).json({ error: "Agent not found" });
       }
@@ -1629,10 +1842,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const messages = await storage.getWhatsappMessagesByAgent(agentId);
-      res.json(messages);
+      const message = await storage.getWhatsappMessageById(req.params.messageId);
+      const file = message && message.agentId === agent.id ? whatsappService.mediaFilePath(message) : undefined;
+      if (!file || !fs.existsSync(file)) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      res.type(message!.metadata?.media?.mimeType || 'application/octet-stream');
+      res.sendFile(file);
     } catch (error) {
-      console.error("Error fetching WhatsApp messages:", error);
+      console.error("Error serving WhatsApp media:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
@@ -1674,7 +1893,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       status.configured = status.issues.length === 0;
 
-      res.json(status);
+      // Customer service windows: which contacts can get free-form messages right now
+      const windowTemplate = agent.whatsappWindowTemplate;
+      const templateStatus = windowTemplate
+        ? (await storage.getWhatsappTemplatesByName(agent.id, windowTemplate.name)).map(template => ({ language: template.language, status: template.status }))
+        : [];
+      const contacts = await whatsappSessionWindow.getRecentWindows(agent.id, 20);
+      const sessionWindows = {
+        windowHours: SESSION_WINDOW_HOURS,
+        openContacts: contacts.filter(contact => contact.open).length,
+        contacts,
+        ...(typeof req.query.phoneNumber === 'string' ? { contact: await whatsappSessionWindow.getWindow(agent.id, req.query.phoneNumber) } : {}),
+        windowTemplate: windowTemplate
+          ? { name: windowTemplate.name, approved: templateStatus.some(template => template.status === 'APPROVED'), translations: templateStatus }
+          : null
+      };
+
+      res.json({ ...status, sessionWindows });
     } catch (error) {
       console.error("Error checking WhatsApp status:", error);
       res.status(500).json({ error: "Internal server error" });
@@ -1792,6 +2027,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Broadcast campaigns: a WhatsApp template or SMS text sent to a conversation or CSV audience
+  const loadCampaign = async (req: AuthenticatedRequest, res: Response) => {
+    const campaign = await storage.getCampaign(parseInt(req.params.id));
+    const agent = campaign && await storage.getAgent(campaign.agentId);
+    if (!campaign || !agent) {
+      res.status(404).json({ error: "Campaign not found" });
+      return undefined;
+    }
+
+    // Check if user owns this agent (unless admin)
+    if (req.user?.role !== 'admin' && agent.userId !== req.user?.id) {
+      res.status(403).json({ error: "Access denied" });
+      return undefined;
+    }
+    return campaign;
+  };
+
+  app.get("/api/agents/:id/campaigns", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      res.json(await storage.getCampaignsByAgent(agent.id));
+    } catch (error) {
+      console.error("Error fetching campaigns:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Creates a draft; the audience is resolved now, so later lead changes do not alter it
+  app.post("/api/agents/:id/campaigns", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      const { name, channel, templateName, templateLanguage, templateParameters, messageText, audience } = req.body;
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: "name is required" });
+      }
+      if (!audience || (audience.source === 'csv' ? typeof audience.csv !== 'string' : audience.source !== 'conversations')) {
+        return res.status(400).json({ error: "audience must be { source: 'conversations', filters } or { source: 'csv', csv }" });
+      }
+      if (audience.filters !== undefined && (typeof audience.filters !== 'object' || Array.isArray(audience.filters))) {
+        return res.status(400).json({ error: "audience.filters must be an object" });
+      }
+      if (templateParameters !== undefined && (typeof templateParameters !== 'object' || Array.isArray(templateParameters))) {
+        return res.status(400).json({ error: "templateParameters must be an object" });
+      }
+
+      const { campaign, added, errors } = await campaignService.createCampaign(agent, {
+        name: name.trim(),
+        channel,
+        templateName,
+        templateLanguage,
+        templateParameters,
+        messageText,
+        audience
+      }, req.user!.id);
+      res.status(201).json({ ...campaign, recipients: added, errors });
+    } catch (error) {
+      if (error instanceof CampaignError) {
+        return res.status(400).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error creating campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/campaigns/:id", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      res.json({ ...campaign, stats: await campaignService.getStats(campaign) });
+    } catch (error) {
+      console.error("Error fetching campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ?status=failed narrows the list; limit (max 500) and offset page through it
+  app.get("/api/campaigns/:id/recipients", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      res.json(await storage.getCampaignRecipients(campaign.id, { status, limit, offset }));
+    } catch (error) {
+      console.error("Error fetching campaign recipients:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Sends at scheduledFor, or right away without one
+  app.post("/api/campaigns/:id/schedule", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      const sendAt = req.body.scheduledFor ? new Date(req.body.scheduledFor) : undefined;
+      if (sendAt && isNaN(sendAt.getTime())) {
+        return res.status(400).json({ error: "scheduledFor must be an ISO date" });
+      }
+      res.json(await campaignService.schedule(campaign, sendAt));
+    } catch (error) {
+      if (error instanceof CampaignError) {
+        return res.status(409).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error scheduling campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Recipients already being messaged still receive it
+  app.post("/api/campaigns/:id/pause", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      res.json(await campaignService.pause(campaign));
+    } catch (error) {
+      if (error instanceof CampaignError) {
+        return res.status(409).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error pausing campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/resume", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      res.json(await campaignService.resume(campaign));
+    } catch (error) {
+      if (error instanceof CampaignError) {
+        return res.status(409).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error resuming campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Recipients not yet messaged are skipped
+  app.post("/api/campaigns/:id/cancel", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const campaign = await loadCampaign(req, res);
+      if (!campaign) return;
+
+      res.json(await campaignService.cancel(campaign));
+    } catch (error) {
+      if (error instanceof CampaignError) {
+        return res.status(409).json({ error: error.message, problems: error.problems });
+      }
+      console.error("Error cancelling campaign:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Contacts skipped by every campaign of the agent on that channel; STOP replies add them
+  app.get("/api/agents/:id/campaign-opt-outs", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      res.json(await storage.getCampaignOptOuts(agent.id));
+    } catch (error) {
+      console.error("Error fetching campaign opt-outs:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/agents/:id/campaign-opt-outs", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      const { channel, phoneNumber } = req.body;
+      const digits = typeof phoneNumber === 'string' ? phoneNumber.replace(/\D/g, '') : '';
+      if (!CAMPAIGN_CHANNELS.includes(channel) || !digits) {
+        return res.status(400).json({ error: `channel (${CAMPAIGN_CHANNELS.join(', ')}) and phoneNumber are required` });
+      }
+
+      res.status(201).json(await storage.addCampaignOptOut(agent.id, channel, digits, 'manual'));
+    } catch (error) {
+      console.error("Error adding campaign opt-out:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/agents/:id/campaign-opt-outs/:channel/:phoneNumber", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadWhatsappAgent(req, res);
+      if (!agent) return;
+
+      const removed = await storage.removeCampaignOptOut(agent.id, req.params.channel, req.params.phoneNumber.replace(/\D/g, ''));
+      if (!removed) {
+        return res.status(404).json({ error: "Opt-out not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing campaign opt-out:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Send WhatsApp message manually
   // System Admin Logging API Endpoints
   app.get("/api/admin/logs", authenticate, requireSystemAdmin, async (req: AuthenticatedRequest, res) => {
@@ -1873,10 +2318,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/agents/:id/send-whatsapp", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
       const agentId = parseInt(req.params.id);
-      const { phoneNumber, message } = req.body;
+      const { phoneNumber, message, buttons, media, location } = req.body;
 
-      if (!phoneNumber || !message) {
-        return res.status(400).json({ error: "Phone number and message are required" });
+      if (!phoneNumber || !(message || media || location)) {
+        return res.status(400).json({ error: "Phone number and a message, media or location are required" });
+      }
+      if (buttons !== undefined && (!Array.isArray(buttons) || !message || buttons.some((button: unknown) => typeof button !== 'string' || !button.trim()))) {
+        return res.status(400).json({ error: "buttons must be a list of button titles sent with a message" });
+      }
+      if (media && (!['image', 'document', 'audio', 'video'].includes(media.type) || !(media.link || media.id))) {
+        return res.status(400).json({ error: "media needs a type of image, document, audio or video and a link or id" });
+      }
+      if (location && (typeof location.latitude !== 'number' || typeof location.longitude !== 'number')) {
+        return res.status(400).json({ error: "location needs numeric latitude and longitude" });
+      }
+      if (req.body.template !== undefined && typeof req.body.template?.name !== 'string') {
+        return res.status(400).json({ error: "template needs a name" });
       }
 
       const agent = await storage.getAgent(agentId);
@@ -1893,24 +2350,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "WhatsApp Business API not configured for this agent" });
       }
 
-      const result = await whatsappService.sendMessage(
-        agent.whatsappAccessToken,
-        agent.whatsappPhoneNumberId,
-        phoneNumber,
-        message
-      );
+      // Past the 24-hour window WhatsApp only delivers templates
+      const window = await whatsappSessionWindow.getWindow(agent.id, phoneNumber);
+      if (!window.open) {
+        const { messageId, template } = await whatsappSessionWindow.sendTemplateInstead(agent, window, {
+          to: phoneNumber,
+          template: req.body.template
+        });
+        return res.json({ success: true, messageId, template: { name: template.name, language: template.language }, window });
+      }
+
+      const { whatsappAccessToken, whatsappPhoneNumberId } = agent;
+      const messageType = media ? media.type : location ? 'location' : buttons ? 'interactive' : 'text';
+      const result = media
+        ? await whatsappService.sendMedia(whatsappAccessToken, whatsappPhoneNumberId, phoneNumber, media.type, {
+            link: media.link,
+            id: media.id,
+            caption: media.caption ?? message,
+            filename: media.filename
+          })
+        : location
+          ? await whatsappService.sendLocation(whatsappAccessToken, whatsappPhoneNumberId, phoneNumber, location)
+          : buttons
+            ? await whatsappService.sendReplyButtons(whatsappAccessToken, whatsappPhoneNumberId, phoneNumber, message,
+                buttons.map((title: string, index: number) => ({ id: `button:${index + 1}`, title })))
+            : await whatsappService.sendMessage(whatsappAccessToken, whatsappPhoneNumberId, phoneNumber, message);
 
       if (result.success && result.messageId) {
         // Store outgoing message
         await storage.createWhatsappMessage({
+          id: nanoid(),
           agentId: agent.id,
           whatsappMessageId: result.messageId,
-          fromPhoneNumber: agent.whatsappNumber || (agent.whatsappPhoneNumberId || ""),
-          toPhoneNumber: phoneNumber,
-          messageType: 'text',
-          content: message,
           direction: 'outbound',
-          status: 'sent'
+          fromNumber: agent.whatsappNumber || whatsappPhoneNumberId,
+          toNumber: phoneNumber,
+          messageText: media ? media.caption ?? message ?? null : location ? location.name ?? null : message,
+          messageType,
+          status: 'sent',
+          metadata: { ...(media ? { media } : {}), ...(location ? { location } : {}), ...(buttons ? { choices: buttons } : {}) },
+          timestamp: new Date()
         });
 
         res.json({ success: true, messageId: result.messageId });
@@ -1918,6 +2397,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(400).json({ error: result.error || "Failed to send message" });
       }
     } catch (error) {
+      if (error instanceof WhatsAppWindowClosedError) {
+        return res.status(409).json({ error: error.message, window: error.window });
+      }
+      if (error instanceof WhatsAppTemplateError) {
+        return res.status(400).json({ error: error.message, problems: error.problems });
+      }
       console.error("Error sending WhatsApp message:", error);
       res.status(500).json({ error: "Internal server error" });
     }
@@ -1925,113 +2410,247 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
-  // Multi-platform webhook endpoints
-  app.post("/webhook/telegram/:agentId", async (req, res) => {
+  // Human handoff inbox: staff take over conversations and reply through the original channel
+  const loadStaffConversation = async (req: AuthenticatedRequest, res: Response) => {
+    const conversation = await storage.getConversation(parseInt(req.params.id));
+    const agent = conversation && await storage.getAgent(conversation.agentId);
+    if (!conversation || !agent) {
+      res.status(404).json({ message: "Conversation not found" });
+      return undefined;
+    }
+
+    if (!['system_admin', 'business_manager'].includes(req.user!.role) && agent.userId !== req.user!.id) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    return { conversation, agent };
+  };
+
+  app.get("/api/inbox", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
-      if (!agent) {
-        return res.status(404).json({ error: "Agent not found" });
-      }
+      const states = typeof req.query.state === 'string'
+        ? req.query.state.split(',').filter(state => HANDOFF_STATES.includes(state as HandoffState))
+        : ['pending_human', 'human'];
+      const agentId = req.query.agentId ? parseInt(req.query.agentId as string) : undefined;
+
+      const userAgents = (await storage.getUserAgents(req.user!.id))
+        .filter(agent => agentId === undefined || agent.id === agentId);
+      const agentNames = new Map(userAgents.map(agent => [agent.id, agent.name]));
+
+      const conversations = await storage.getConversationsByHandoffState(userAgents.map(agent => agent.id), states);
+      res.json(conversations.map(conversation => {
+        const messages = conversation.messages || [];
+        return {
+          id: conversation.id,
+          agentId: conversation.agentId,
+          agentName: agentNames.get(conversation.agentId),
+          platform: conversation.platform,
+          handoffState: conversation.handoffState,
+          handoffReason: conversation.handoffReason,
+          handoffRequestedAt: conversation.handoffRequestedAt,
+          assignedUserId: conversation.assignedUserId,
+          leadData: conversation.leadData,
+          lastMessage: messages[messages.length - 1] || null,
+          updatedAt: conversation.updatedAt,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching inbox:", error);
+      res.status(500).json({ message: "Failed to fetch inbox" });
+    }
+  });
 
-      await telegramService.processWebhookPayload(req.body, agent);
-      res.status(200).json({ status: "success" });
+  app.get("/api/conversations/:id", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+      res.json({
+        ...loaded.conversation,
+        flowPosition: conversationFlowService.getPosition(loaded.agent, loaded.conversation)
+      });
     } catch (error) {
-      console.error("Telegram webhook error:", error);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
     }
   });
 
-  app.post("/webhook/messenger/:agentId", async (req, res) => {
+  // Restart the agent's flow from its start node on the conversation's next message
+  app.post("/api/conversations/:id/flow/reset", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
-      if (!agent) {
-        return res.status(404).json({ error: "Agent not found" });
-      }
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+      const conversation = await storage.updateConversation(loaded.conversation.id, { flowState: null });
+      await logger.logAgent('conversation_flow_reset', req.user!.id, loaded.agent.id, true, {
+        conversationId: loaded.conversation.id,
+        fromNodeId: loaded.conversation.flowState?.currentNodeId
+      });
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error resetting conversation flow:", error);
+      res.status(500).json({ message: "Failed to reset conversation flow" });
+    }
+  });
 
-      await facebookMessengerService.processWebhookPayload(req.body, agent);
-      res.status(200).json({ status: "success" });
+  app.post("/api/conversations/:id/handoff", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+      const conversation = await handoffService.requestHandoff(loaded.conversation, req.body.reason || 'staff_request', req.user!.id);
+      res.json(conversation);
     } catch (error) {
-      console.error("Messenger webhook error:", error);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Error requesting handoff:", error);
+      res.status(500).json({ message: "Failed to request handoff" });
     }
   });
 
-  app.get("/webhook/messenger/:agentId", async (req, res) => {
-    const mode = req.query['hub.mode'];
-    const token = req.query['hub.verify_token'];
-    const challenge = req.query['hub.challenge'];
+  app.post("/api/conversations/:id/claim", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
 
-    if (mode === 'subscribe') {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
-      if (agent && agent.facebookAccessToken && token === `verify_${agentId}`) {
-        res.status(200).send(challenge);
-      } else {
-        res.status(403).send('Forbidden');
+      const { conversation } = loaded;
+      if (conversation.handoffState === 'human' && conversation.assignedUserId && conversation.assignedUserId !== req.user!.id) {
+        return res.status(409).json({ message: "Conversation is already assigned to another user" });
       }
-    } else {
-      res.status(400).send('Bad Request');
+
+      res.json(await handoffService.claim(conversation, req.user!.id));
+    } catch (error) {
+      console.error("Error claiming conversation:", error);
+      res.status(500).json({ message: "Failed to claim conversation" });
     }
   });
 
-  app.post("/webhook/instagram/:agentId", async (req, res) => {
+  app.post("/api/conversations/:id/reply", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
-      if (!agent) {
-        return res.status(404).json({ error: "Agent not found" });
+      const { message } = req.body;
+      if (!message || typeof message !== 'string') {
+        return res.status(400).json({ message: "Message is required" });
       }
 
-      await instagramService.processWebhookPayload(req.body, agent);
-      res.status(200).json({ status: "success" });
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+
+      const { conversation, agent } = loaded;
+      if (conversation.handoffState === 'human' && conversation.assignedUserId && conversation.assignedUserId !== req.user!.id) {
+        return res.status(409).json({ message: "Conversation is assigned to another user" });
+      }
+
+      const result = await handoffService.sendStaffReply(agent, conversation, req.user!.id, message);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof WhatsAppWindowClosedError) {
+        return res.status(409).json({ message: error.message, window: error.window });
+      }
+      console.error("Error sending staff reply:", error);
+      res.status(500).json({ message: error.message || "Failed to send reply" });
+    }
+  });
+
+  app.post("/api/conversations/:id/release", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+      res.json(await handoffService.release(loaded.conversation, req.user!.id));
     } catch (error) {
-      console.error("Instagram webhook error:", error);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Error releasing conversation:", error);
+      res.status(500).json({ message: "Failed to release conversation" });
     }
   });
 
-  app.get("/webhook/instagram/:agentId", async (req, res) => {
-    const mode = req.query['hub.mode'];
-    const token = req.query['hub.verify_token'];
-    const challenge = req.query['hub.challenge'];
+  app.post("/api/conversations/:id/close", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const loaded = await loadStaffConversation(req, res);
+      if (!loaded) return;
+      res.json(await handoffService.close(loaded.conversation, req.user!.id));
+    } catch (error) {
+      console.error("Error closing conversation:", error);
+      res.status(500).json({ message: "Failed to close conversation" });
+    }
+  });
 
-    if (mode === 'subscribe') {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
-      if (agent && agent.instagramAccessToken && token === `verify_${agentId}`) {
-        res.status(200).send(challenge);
+  // Multi-platform webhook endpoints
+  app.get("/webhook/:platform/:agentId", async (req, res) => {
+    try {
+      const { platform, agentId } = req.params;
+      const adapter = getChannelAdapter(platform);
+
+      if (!adapter) {
+        return res.status(404).send('Unsupported platform');
+      }
+
+      if (!adapter.verifyWebhook) {
+        return res.status(405).send('Webhook verification not supported for this platform');
+      }
+
+      const agent = await storage.getAgent(parseInt(agentId));
+      if (!agent) {
+        console.log(`${adapter.displayName} webhook verification failed: Agent ${agentId} not found`);
+        return res.status(404).send('Agent not found');
+      }
+
+      const verification = adapter.verifyWebhook(agent, req.query);
+      if (verification.verified) {
+        console.log(`${adapter.displayName} webhook verified for agent:`, agentId);
+        res.status(200).send(verification.challenge);
       } else {
-        res.status(403).send('Forbidden');
+        console.log(`${adapter.displayName} webhook verification failed for agent ${agentId}: ${verification.reason}`);
+        res.status(403).send(verification.reason || 'Forbidden');
       }
-    } else {
-      res.status(400).send('Bad Request');
+    } catch (error) {
+      console.error('Error verifying webhook:', error);
+      res.status(500).send('Internal server error');
     }
   });
 
-  app.post("/webhook/discord/:agentId", async (req, res) => {
+  app.post("/webhook/:platform/:agentId", async (req, res) => {
     try {
-      const agentId = parseInt(req.params.agentId);
-      const agent = await storage.getAgent(agentId);
-      
+      const { platform, agentId } = req.params;
+      const adapter = getChannelAdapter(platform);
+
+      if (!adapter) {
+        return res.status(404).json({ error: "Unsupported platform" });
+      }
+
+      const agent = await storage.getAgent(parseInt(agentId));
       if (!agent) {
+        console.log(`${adapter.displayName} webhook failed: Agent ${agentId} not found`);
         return res.status(404).json({ error: "Agent not found" });
       }
 
-      await discordService.processWebhookPayload(req.body, agent);
+      if (!adapter.isConfigured(agent)) {
+        console.log(`${adapter.displayName} webhook failed: Agent ${agentId} missing ${adapter.displayName} credentials`);
+        return res.status(400).json({ error: `${adapter.displayName} not configured for this agent` });
+      }
+
+      if (adapter.verifySignature && !adapter.verifySignature(agent, webhookRequest(req))) {
+        console.log(`${adapter.displayName} webhook rejected for agent ${agentId}: invalid signature`);
+        await logger.logWebhook(platform, 'invalid_signature', agent.id);
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+
+      await inboundPipeline.handleWebhook(adapter, agent, req.body);
+      await logger.logWebhook(platform, 'success', agent.id);
+      if (adapter.webhookAck) {
+        return res.status(200).type(adapter.webhookAck.contentType).send(adapter.webhookAck.body);
+      }
       res.status(200).json({ status: "success" });
     } catch (error) {
-      console.error("Discord webhook error:", error);
+      console.error(`${req.params.platform} webhook error:`, error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Tools agents can enable through `enabledTools`
+  app.get("/api/agent-tools", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      res.json(agentToolService.getAvailableTools());
+    } catch (error) {
+      console.error('Error getting agent tools:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Platform testing endpoint
   // Get conversation flow templates
   app.get("/api/conversation-flow-templates", async (req, res) => {
@@ -2282,6 +2901,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const loadOwnedAgent = async (req: AuthenticatedRequest, res: Response) => {
+    const agent = await storage.getAgent(parseInt(req.params.id));
+    if (!agent) {
+      res.status(404).json({ message: "Agent not found" });
+      return undefined;
+    }
+
+    if (!['system_admin', 'business_manager'].includes(req.user!.role) && agent.userId !== req.user!.id) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    return agent;
+  };
+
   // AI Training endpoints
   app.post("/api/agents/:id/knowledge", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
@@ -2289,7 +2923,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user!.id;
       const { title, content, category, tags, metadata } = req.body;
 
-      const knowledgeItem = await storage.addKnowledgeItem(agentId, userId, {
+      const { AITrainingService } = await import('./services/ai-training');
+      const knowledgeItem = await AITrainingService.addKnowledgeItem(agentId, userId, {
         title,
         content,
         category,
@@ -2315,6 +2950,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rebuild the vector index, e.g. for items added before chunked indexing
+  app.post("/api/agents/:id/knowledge/reindex", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const { AITrainingService } = await import('./services/ai-training');
+      const result = await AITrainingService.reindexKnowledgeBase(agent.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error reindexing knowledge base:", error);
+      res.status(500).json({ error: "Failed to reindex knowledge base" });
+    }
+  });
+
+  // Re-embed items not yet embedded by the agent's current embedding provider, in the background
+  app.post("/api/agents/:id/knowledge/reembed", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const { AITrainingService } = await import('./services/ai-training');
+      const started = AITrainingService.startReembedJob(agent.id);
+      res.status(202).json({ started, ...(await AITrainingService.getEmbeddingStatus(agent.id)) });
+    } catch (error) {
+      console.error("Error starting re-embed job:", error);
+      res.status(500).json({ error: "Failed to start re-embed job" });
+    }
+  });
+
+  app.get("/api/agents/:id/knowledge/embedding-status", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const { AITrainingService } = await import('./services/ai-training');
+      res.json(await AITrainingService.getEmbeddingStatus(agent.id));
+    } catch (error) {
+      console.error("Error getting embedding status:", error);
+      res.status(500).json({ error: "Failed to get embedding status" });
+    }
+  });
+
   app.post("/api/agents/:id/training", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
       const agentId = parseInt(req.params.id);
@@ -2758,7 +3436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { platform, apiKey } = req.params;
       
       // Validate platform
-      const validPlatforms = ['whatsapp', 'telegram', 'discord', 'facebook', 'instagram'];
+      const validPlatforms = ['whatsapp', 'telegram', 'discord', 'facebook', 'instagram', 'line', 'viber', 'wechat'];
       if (!validPlatforms.includes(platform)) {
         return res.status(400).json({ error: 'Invalid platform' });
       }
@@ -2823,6 +3501,343 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Save an agent's conversation flow as a draft; the graph and its conditions are checked before anything is stored
+  app.post("/api/agents/:id/conversation-flow", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const validation = conversationFlowService.validateFlow(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: validation.errors,
+          diagnostics: validation.diagnostics
+        });
+      }
+
+      // Keep only the flow fields, not the designer's rendering state
+      const conversationFlow = {
+        nodes: req.body.nodes.map((node: FlowNode) => ({
+          id: node.id,
+          type: node.type,
+          position: node.position,
+          data: node.data || {}
+        })),
+        edges: req.body.edges.map((edge: FlowEdge) => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          ...(edge.label ? { label: edge.label } : {}),
+          ...(edge.condition ? { condition: edge.condition } : {})
+        })),
+        ...(Array.isArray(req.body.variables) ? { variables: req.body.variables } : {}),
+        ...(typeof req.body.timeoutMinutes === 'number' ? { timeoutMinutes: req.body.timeoutMinutes } : {})
+      };
+
+      const note = typeof req.body.note === 'string' ? req.body.note : (typeof req.body.name === 'string' ? req.body.name : undefined);
+      let version = await flowVersionService.saveDraft(agent, conversationFlow, req.user!.id, note);
+      let liveAgent = agent;
+
+      if (typeof req.body.flowEnabled === 'boolean') {
+        liveAgent = (await storage.updateAgent(agent.id, { flowEnabled: req.body.flowEnabled })) || agent;
+      }
+
+      await logger.logAgent('conversation_flow_saved', req.user!.id, agent.id, true, {
+        versionId: version.id,
+        nodes: conversationFlow.nodes.length,
+        edges: conversationFlow.edges.length
+      });
+
+      // publish: true saves and publishes in one step
+      if (req.body.publish === true) {
+        const published = await flowVersionService.publishDraft(liveAgent, req.user!.id);
+        if (published) {
+          version = published.version;
+          liveAgent = published.agent;
+        }
+      }
+
+      res.json({
+        version,
+        agent: liveAgent,
+        ...(validation.warnings.length > 0 ? { flowWarnings: validation.diagnostics } : {})
+      });
+    } catch (error) {
+      console.error('Error saving conversation flow:', error);
+      res.status(500).json({ message: "Failed to save conversation flow" });
+    }
+  });
+
+  // Make the draft the flow that live conversations run
+  app.post("/api/agents/:id/conversation-flow/publish", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const draft = await storage.getDraftFlowVersion(agent.id);
+      if (!draft) {
+        return res.status(400).json({ message: "There is no draft to publish" });
+      }
+
+      // Re-checked in case the draft was saved before a validation rule was added
+      const validation = conversationFlowService.validateFlow(draft.flow);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: validation.errors,
+          diagnostics: validation.diagnostics
+        });
+      }
+
+      const result = await flowVersionService.publishDraft(agent, req.user!.id, typeof req.body?.note === 'string' ? req.body.note : undefined);
+      res.json(result);
+    } catch (error) {
+      console.error('Error publishing conversation flow:', error);
+      res.status(500).json({ message: "Failed to publish conversation flow" });
+    }
+  });
+
+  app.get("/api/agents/:id/flow-versions", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const [versions, counts] = await Promise.all([
+        storage.getFlowVersionsByAgent(agent.id),
+        storage.getConversationCountsByFlowVersion(agent.id)
+      ]);
+      res.json(versions.map(version => ({
+        ...version,
+        live: version.id === agent.publishedFlowVersionId,
+        conversationCount: counts[version.id] || 0
+      })));
+    } catch (error) {
+      console.error('Error fetching flow versions:', error);
+      res.status(500).json({ message: "Failed to fetch flow versions" });
+    }
+  });
+
+  // Compare two versions; from/to are version ids, "draft" or "published" (default: published to draft)
+  app.get("/api/agents/:id/flow-versions/diff", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const fromRef = typeof req.query.from === 'string' ? req.query.from : 'published';
+      const toRef = typeof req.query.to === 'string' ? req.query.to : 'draft';
+      const [from, to] = await Promise.all([
+        flowVersionService.resolve(agent, fromRef),
+        flowVersionService.resolve(agent, toRef)
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: `Flow version "${!from ? fromRef : toRef}" not found` });
+      }
+
+      res.json({ from: from.label, to: to.label, ...flowVersionService.diff(from.flow, to.flow) });
+    } catch (error) {
+      console.error('Error comparing flow versions:', error);
+      res.status(500).json({ message: "Failed to compare flow versions" });
+    }
+  });
+
+  app.get("/api/agents/:id/flow-versions/:versionId", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const version = await storage.getFlowVersion(parseInt(req.params.versionId));
+      if (!version || version.agentId !== agent.id) {
+        return res.status(404).json({ message: "Flow version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      console.error('Error fetching flow version:', error);
+      res.status(500).json({ message: "Failed to fetch flow version" });
+    }
+  });
+
+  // Republish an earlier version as a new version
+  app.post("/api/agents/:id/flow-versions/:versionId/rollback", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const target = await storage.getFlowVersion(parseInt(req.params.versionId));
+      if (!target || target.agentId !== agent.id) {
+        return res.status(404).json({ message: "Flow version not found" });
+      }
+      if (target.status === 'draft') {
+        return res.status(400).json({ message: "A draft cannot be rolled back to; publish it instead" });
+      }
+      if (target.id === agent.publishedFlowVersionId) {
+        return res.status(400).json({ message: "This version is already live" });
+      }
+
+      const validation = conversationFlowService.validateFlow(target.flow);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: validation.errors,
+          diagnostics: validation.diagnostics
+        });
+      }
+
+      res.json(await flowVersionService.rollback(agent, target, req.user!.id));
+    } catch (error) {
+      console.error('Error rolling back conversation flow:', error);
+      res.status(500).json({ message: "Failed to roll back conversation flow" });
+    }
+  });
+
+  // Run a flow against scripted inputs without side effects; an unsaved flow can be passed in the body
+  app.post("/api/agents/:id/conversation-flow/simulate", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const { inputs, userName, variables, leadData, useLlm, fallbackReply } = req.body;
+      if (!Array.isArray(inputs) || inputs.length === 0 || inputs.length > 100 || inputs.some((input: unknown) => typeof input !== 'string')) {
+        return res.status(400).json({ message: "inputs must be an array of 1 to 100 strings" });
+      }
+
+      const flow = req.body.flow || agent.conversationFlow;
+      if (!flow) {
+        return res.status(400).json({ message: "Agent has no conversation flow; pass one as flow" });
+      }
+
+      const validation = conversationFlowService.validateFlow(flow);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          message: "Invalid conversation flow",
+          errors: validation.errors,
+          diagnostics: validation.diagnostics
+        });
+      }
+
+      const steps = await flowSimulator.simulate(agent, flow, inputs, {
+        userName,
+        variables,
+        leadData,
+        useLlm: useLlm === true,
+        fallbackReply
+      });
+      res.json({ steps });
+    } catch (error) {
+      console.error('Error simulating conversation flow:', error);
+      res.status(500).json({ message: "Failed to simulate conversation flow" });
+    }
+  });
+
+  app.get("/api/agents/:id/flow-tests", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+      res.json(await storage.getFlowTestCasesByAgent(agent.id));
+    } catch (error) {
+      console.error('Error fetching flow tests:', error);
+      res.status(500).json({ message: "Failed to fetch flow tests" });
+    }
+  });
+
+  app.post("/api/agents/:id/flow-tests", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const validatedData = insertFlowTestCaseSchema.parse(req.body);
+      const testCase = await storage.createFlowTestCase({ ...validatedData, agentId: agent.id });
+      res.status(201).json(testCase);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid flow test", errors: error.errors });
+      }
+      console.error('Error creating flow test:', error);
+      res.status(500).json({ message: "Failed to create flow test" });
+    }
+  });
+
+  app.delete("/api/agents/:id/flow-tests/:testId", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      const testCase = await storage.getFlowTestCase(parseInt(req.params.testId));
+      if (!testCase || testCase.agentId !== agent.id) {
+        return res.status(404).json({ message: "Flow test not found" });
+      }
+
+      await storage.deleteFlowTestCase(testCase.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting flow test:', error);
+      res.status(500).json({ message: "Failed to delete flow test" });
+    }
+  });
+
+  // Re-run one saved test, or all of them with testId "all", against the published flow or body.version
+  app.post("/api/agents/:id/flow-tests/:testId/run", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agent = await loadOwnedAgent(req, res);
+      if (!agent) return;
+
+      // Without a version, or with "published", the tests run against the live flow and their results are stored
+      let flow: NonNullable<Agent['conversationFlow']> | undefined;
+      if (typeof req.body?.version === 'string' || typeof req.body?.version === 'number') {
+        const resolved = await flowVersionService.resolve(agent, String(req.body.version));
+        if (!resolved) {
+          return res.status(404).json({ message: "Flow version not found" });
+        }
+        if (resolved.label !== 'published') flow = resolved.flow;
+      }
+
+      let testCases;
+      if (req.params.testId === 'all') {
+        testCases = await storage.getFlowTestCasesByAgent(agent.id);
+      } else {
+        const testCase = await storage.getFlowTestCase(parseInt(req.params.testId));
+        if (!testCase || testCase.agentId !== agent.id) {
+          return res.status(404).json({ message: "Flow test not found" });
+        }
+        testCases = [testCase];
+      }
+
+      const results = [];
+      for (const testCase of testCases) {
+        results.push(await flowSimulator.runTestCase(agent, testCase, flow));
+      }
+
+      res.json({
+        passed: results.filter(result => result.passed).length,
+        failed: results.filter(result => !result.passed).length,
+        results
+      });
+    } catch (error) {
+      console.error('Error running flow tests:', error);
+      res.status(500).json({ message: "Failed to run flow tests" });
+    }
+  });
+
+  // Tickets opened by the agent's conversation flow
+  app.get("/api/agents/:id/tickets", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
+    try {
+      const agentId = parseInt(req.params.id);
+      const agent = await storage.getAgent(agentId);
+      if (!agent) {
+        return res.status(404).json({ message: "Agent not found" });
+      }
+
+      if (!['system_admin', 'business_manager'].includes(req.user!.role) && agent.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await storage.getSupportTicketsByAgent(agentId));
+    } catch (error) {
+      console.error('Error fetching support tickets:', error);
+      res.status(500).json({ message: "Failed to fetch support tickets" });
+    }
+  });
+
   app.post("/api/agents/:id/test-platform", authenticate, requireApproved, async (req: AuthenticatedRequest, res) => {
     try {
       const agentId = parseInt(req.params.id);
@@ -2970,6 +3985,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           break;
 
+        case 'line':
+          if (agent.lineChannelToken && agent.lineChannelSecret) {
+            try {
+              const botInfo = await lineService.getBotInfo(agent.lineChannelToken);
+              testResults.tests.push({
+                name: "Channel Access Token Validation",
+                passed: true,
+                details: `Bot: ${botInfo.displayName} (${botInfo.basicId})`
+              });
+              testResults.success = true;
+            } catch (error: any) {
+              testResults.tests.push({
+                name: "Channel Access Token Validation",
+                passed: false,
+                error: error.message
+              });
+            }
+          } else {
+            testResults.tests.push({
+              name: "Configuration Check",
+              passed: false,
+              error: "LINE channel access token or channel secret not configured"
+            });
+          }
+          break;
+
+        case 'viber':
+          if (agent.viberApiKey) {
+            try {
+              const accountInfo = await viberService.getAccountInfo(agent.viberApiKey);
+              if (accountInfo.status !== 0) {
+                throw new Error(accountInfo.status_message);
+              }
+              testResults.tests.push({
+                name: "Auth Token Validation",
+                passed: true,
+                details: `Account: ${accountInfo.name} (${accountInfo.uri})`
+              });
+              testResults.success = true;
+            } catch (error: any) {
+              testResults.tests.push({
+                name: "Auth Token Validation",
+                passed: false,
+                error: error.message
+              });
+            }
+          } else {
+            testResults.tests.push({
+              name: "Configuration Check",
+              passed: false,
+              error: "Viber auth token not configured"
+            });
+          }
+          break;
+
+        case 'wechat':
+          if (wechatWorkService.isConfigured(agent)) {
+            try {
+              await wechatWorkService.getAccessToken(agent.wechatCorpId!, agent.wechatSecret!);
+              testResults.tests.push({
+                name: "Corp Credentials Validation",
+                passed: true,
+                details: `Corp: ${agent.wechatCorpId} (App ${agent.wechatAgentId})`
+              });
+              testResults.success = true;
+            } catch (error: any) {
+              testResults.tests.push({
+                name: "Corp Credentials Validation",
+                passed: false,
+                error: error.message
+              });
+            }
+          } else {
+            testResults.tests.push({
+              name: "Configuration Check",
+              passed: false,
+              error: "WeChat Work corp ID, secret, app ID, callback token or EncodingAESKey not configured"
+            });
+          }
+          break;
+
+        case 'sms':
+          if (smsService.isConfigured(agent)) {
+            try {
+              const accountName = await smsService.getProvider(agent)!.verifyCredentials(agent);
+              testResults.tests.push({
+                name: "Provider Credentials Validation",
+                passed: true,
+                details: `Account: ${accountName} (${agent.smsProvider || 'twilio'}, ${agent.smsNumber})`
+              });
+              testResults.success = true;
+            } catch (error: any) {
+              testResults.tests.push({
+                name: "Provider Credentials Validation",
+                passed: false,
+                error: error.message
+              });
+            }
+          } else {
+            testResults.tests.push({
+              name: "Configuration Check",
+              passed: false,
+              error: "SMS number, provider account SID or auth token not configured"
+            });
+          }
+          break;
+
         default:
           return res.status(400).json({ error: "Unsupported platform" });
       }
@@ -2987,5 +4109,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  realtimeService.attach(httpServer);
+  callScheduler.start();
+  campaignService.start();
   return httpServer;
 }
@@ -0,0 +1,223 @@
+import { Agent } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { callScheduler, CallSchedulingError } from "./call-scheduler";
+import { CallBlockedError, callComplianceService } from "./call-compliance";
+import {
+  generateChatResponse,
+  generateChatResponseWithTools,
+  type ChatMessage,
+  type LLMResponse,
+  type ToolCall,
+  type ToolDefinition
+} from "./llm-providers";
+
+// What a tool knows about the conversation it was called from
+export interface ToolContext {
+  agent: Agent;
+  conversationId?: number;
+  contactPhone?: string;
+}
+
+export interface AgentTool extends ToolDefinition {
+  execute(args: Record<string, any>, context: ToolContext): Promise<unknown>;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const checkProductStock: AgentTool = {
+  name: 'check_product_stock',
+  description: 'Look up products in the business catalog by name and report price and stock availability.',
+  parameters: {
+    type: 'object',
+    properties: {
+      product: { type: 'string', description: 'Product name or part of it, as mentioned by the customer' }
+    },
+    required: ['product']
+  },
+  async execute(args, { agent }) {
+    const query = String(args.product || '').toLowerCase().trim();
+    const matches = (agent.productCatalog || []).filter(item =>
+      item.name.toLowerCase().includes(query) || (query && item.category?.toLowerCase() === query)
+    );
+
+    if (matches.length === 0) {
+      return { found: false, message: `No product matching "${args.product}" in the catalog` };
+    }
+
+    return {
+      found: true,
+      products: matches.slice(0, 5).map(item => ({
+        name: item.name,
+        description: item.description,
+        price: item.price,
+        currency: item.currency,
+        // Catalog entries without an explicit flag are treated as available
+        inStock: item.inStock !== false
+      }))
+    };
+  }
+};
+
+const getBusinessHours: AgentTool = {
+  name: 'get_business_hours',
+  description: 'Get the business opening hours, optionally for a specific weekday, and whether it is open right now.',
+  parameters: {
+    type: 'object',
+    properties: {
+      day: { type: 'string', description: 'Weekday name such as "monday"; omit for the whole week' }
+    }
+  },
+  async execute(args, { agent }) {
+    const hours = agent.businessHours;
+    if (!hours) {
+      return { hours: agent.operatingHours || '24/7' };
+    }
+
+    const timezone = hours.timezone || 'UTC';
+    const now = new Date();
+    const today = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: timezone }).format(now).toLowerCase();
+    const currentTime = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone: timezone }).format(now);
+
+    const todayHours = hours[today as typeof WEEKDAYS[number]];
+    const openNow = !!todayHours && !todayHours.closed && currentTime >= todayHours.open && currentTime < todayHours.close;
+
+    const requestedDay = typeof args.day === 'string' ? args.day.toLowerCase() : undefined;
+    if (requestedDay && WEEKDAYS.includes(requestedDay as typeof WEEKDAYS[number])) {
+      return { timezone, today, openNow, [requestedDay]: hours[requestedDay as typeof WEEKDAYS[number]] || { closed: true } };
+    }
+
+    const week = Object.fromEntries(WEEKDAYS.map(day => [day, hours[day] || { closed: true }]));
+    return { timezone, today, openNow, hours: week };
+  }
+};
+
+const bookCallback: AgentTool = {
+  name: 'book_callback',
+  description: 'Schedule a phone call back to the customer from the sales team. Only use after the customer agrees to a call.',
+  parameters: {
+    type: 'object',
+    properties: {
+      phoneNumber: { type: 'string', description: 'Phone number in international format; omit to use the number the customer is messaging from' },
+      reason: { type: 'string', description: 'Short summary of what the customer wants to discuss' },
+      consentText: { type: 'string', description: 'Your question asking to call the customer and their reply agreeing to it, quoted' }
+    },
+    required: ['reason', 'consentText']
+  },
+  async execute(args, { agent, conversationId, contactPhone }) {
+    const phoneNumber = args.phoneNumber || contactPhone;
+    if (!phoneNumber) {
+      return { booked: false, message: 'No phone number available; ask the customer for one' };
+    }
+    if (!String(args.consentText || '').trim()) {
+      return { booked: false, message: 'Ask the customer whether they agree to be called first' };
+    }
+
+    try {
+      await callComplianceService.recordConsent({
+        agent,
+        phoneNumber,
+        source: 'ai_tool',
+        consentText: String(args.consentText),
+        conversationId
+      });
+
+      const call = await callScheduler.scheduleCall({
+        agentId: agent.id,
+        conversationId,
+        phoneNumber,
+        triggerReason: String(args.reason || 'Customer requested a callback'),
+        triggeredBy: 'ai_tool'
+      });
+      return { booked: true, callId: call.id, scheduledFor: call.scheduledFor.toISOString() };
+    } catch (error) {
+      if (error instanceof CallSchedulingError || error instanceof CallBlockedError) {
+        return { booked: false, message: error.message };
+      }
+      throw error;
+    }
+  }
+};
+
+const captureLead: AgentTool = {
+  name: 'capture_lead',
+  description: 'Save contact details and qualification notes the customer has shared in the conversation.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      email: { type: 'string' },
+      phone: { type: 'string' },
+      company: { type: 'string' },
+      notes: { type: 'string', description: 'Needs, budget, timeline or other qualification details' }
+    }
+  },
+  async execute(args, { conversationId }) {
+    if (!conversationId) {
+      return { saved: false, message: 'No conversation to attach the lead to' };
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      return { saved: false, message: 'Conversation not found' };
+    }
+
+    const fields = Object.fromEntries(
+      ['name', 'email', 'phone', 'company', 'notes']
+        .filter(key => typeof args[key] === 'string' && args[key].trim())
+        .map(key => [key, args[key].trim()])
+    );
+    await storage.updateConversation(conversationId, {
+      leadData: { ...conversation.leadData, ...fields }
+    });
+    return { saved: true, fields: Object.keys(fields) };
+  }
+};
+
+export class AgentToolService {
+  private readonly tools: Record<string, AgentTool> = {
+    [checkProductStock.name]: checkProductStock,
+    [getBusinessHours.name]: getBusinessHours,
+    [bookCallback.name]: bookCallback,
+    [captureLead.name]: captureLead,
+  };
+
+  getAvailableTools(): ToolDefinition[] {
+    return Object.values(this.tools).map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  getAgentTools(agent: Agent): AgentTool[] {
+    return (agent.enabledTools || [])
+      .map(name => this.tools[name])
+      .filter((tool): tool is AgentTool => !!tool);
+  }
+
+  async executeTool(call: ToolCall, context: ToolContext): Promise<unknown> {
+    const tool = this.tools[call.name];
+    if (!tool || !(context.agent.enabledTools || []).includes(call.name)) {
+      return { error: `Unknown tool: ${call.name}` };
+    }
+
+    const result = await tool.execute(call.arguments, context);
+    await logger.logAgent(`tool_${call.name}`, undefined, context.agent.id, true, {
+      conversationId: context.conversationId,
+      arguments: call.arguments
+    });
+    return result;
+  }
+
+  // Generate an agent reply, running the tool-call loop when the agent has tools enabled
+  async generateResponse(agent: Agent, messages: ChatMessage[], context: Omit<ToolContext, 'agent'>): Promise<LLMResponse> {
+    const tools = this.getAgentTools(agent);
+    if (tools.length === 0) {
+      return await generateChatResponse(messages, agent.llmProvider);
+    }
+
+    const definitions = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+    return await generateChatResponseWithTools(messages, agent.llmProvider, definitions, call =>
+      this.executeTool(call, { agent, ...context })
+    );
+  }
+}
+
+export const agentToolService = new AgentToolService();
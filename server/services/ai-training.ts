@@ -1,26 +1,39 @@
 import OpenAI from 'openai';
 import { db } from '../db';
-import { agents, trainingSessions, trainingExamples, knowledgeItems } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { agents, trainingSessions, trainingExamples, knowledgeItems, KnowledgeItem } from '@shared/schema';
+import { eq, and, inArray, or, ne, isNull, count } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { chunkText, vectorStore } from './knowledge-index';
+import { EmbeddingProviderFactory, type EmbeddingProvider } from './embedding-providers';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Created on first use so the module loads without an OpenAI key, e.g. with local embeddings
+let openai: OpenAI | undefined;
+function getOpenAI(): OpenAI {
+  return openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+}
 
 export class AITrainingService {
-  
+  // Agents with a re-embed job in progress
+  private static reembedJobs = new Set<number>();
+
+  /**
+   * Resolve the embedding provider configured for an agent
+   */
+  static async getEmbeddingProvider(agentId: number): Promise<EmbeddingProvider> {
+    const [agent] = await db
+      .select({ embeddingProvider: agents.embeddingProvider })
+      .from(agents)
+      .where(eq(agents.id, agentId));
+
+    return EmbeddingProviderFactory.createProvider(agent?.embeddingProvider || 'openai');
+  }
+
   /**
    * Generate embeddings for knowledge base content
    */
-  static async generateEmbeddings(text: string): Promise<number[]> {
+  static async generateEmbeddings(texts: string[], provider: EmbeddingProvider): Promise<number[][]> {
     try {
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text,
-      });
-      
-      return response.data[0].embedding;
+      return await provider.embed(texts);
     } catch (error) {
       console.error('Error generating embeddings:', error);
       throw new Error('Failed to generate embeddings');
@@ -38,9 +51,6 @@ export class AITrainingService {
     metadata?: Record<string, any>;
   }) {
     try {
-      // Generate embeddings for the content
-      const embedding = await this.generateEmbeddings(`${data.title}\n${data.content}`);
-      
       const [knowledgeItem] = await db
         .insert(knowledgeItems)
         .values({
@@ -50,12 +60,19 @@ export class AITrainingService {
           content: data.content,
           category: data.category,
           tags: data.tags,
-          embedding,
           metadata: data.metadata || {},
         })
         .returning();
 
-      return knowledgeItem;
+      try {
+        const embeddingModel = await this.indexKnowledgeItem(knowledgeItem);
+        return { ...knowledgeItem, embeddingModel };
+      } catch (error) {
+        // An item without embeddings is never retrieved, so it is removed rather than kept half-added
+        await vectorStore.deleteItemChunks(knowledgeItem.id);
+        await db.delete(knowledgeItems).where(eq(knowledgeItems.id, knowledgeItem.id));
+        throw error;
+      }
     } catch (error) {
       console.error('Error adding knowledge item:', error);
       throw new Error('Failed to add knowledge item');
@@ -63,32 +80,142 @@ export class AITrainingService {
   }
 
   /**
-   * Search knowledge base using semantic similarity
+   * Split a knowledge item into passages and store their embeddings in the vector index.
+   * Returns the embedding model used, which is also recorded on the item.
    */
-  static async searchKnowledgeBase(agentId: number, query: string, limit: number = 5) {
+  static async indexKnowledgeItem(item: KnowledgeItem, provider?: EmbeddingProvider): Promise<string> {
+    const embedder = provider || await this.getEmbeddingProvider(item.agentId);
+    const passages = chunkText(item.content);
+
+    // The title gives short passages the context of the document they came from
+    const embeddings = passages.length > 0
+      ? await this.generateEmbeddings(passages.map(content => `${item.title}\n${content}`), embedder)
+      : [];
+    const chunks = passages.map((content, chunkIndex) => ({
+      chunkIndex,
+      content,
+      embedding: embeddings[chunkIndex],
+      embeddingModel: embedder.model
+    }));
+
+    await vectorStore.replaceItemChunks(item.agentId, item.id, chunks);
+    await db
+      .update(knowledgeItems)
+      .set({ embeddingModel: embedder.model, updatedAt: new Date() })
+      .where(eq(knowledgeItems.id, item.id));
+
+    return embedder.model;
+  }
+
+  /**
+   * Rebuild the vector index for an agent's active knowledge items; with `staleOnly`,
+   * only items not yet embedded by the agent's current embedding model
+   */
+  static async reindexKnowledgeBase(agentId: number, staleOnly: boolean = false) {
     try {
-      // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbeddings(query);
-      
-      // Get all knowledge items for the agent
+      const provider = await this.getEmbeddingProvider(agentId);
       const items = await db
         .select()
         .from(knowledgeItems)
         .where(and(
           eq(knowledgeItems.agentId, agentId),
+          eq(knowledgeItems.isActive, true),
+          staleOnly
+            ? or(isNull(knowledgeItems.embeddingModel), ne(knowledgeItems.embeddingModel, provider.model))
+            : undefined
+        ));
+
+      for (const item of items) {
+        await this.indexKnowledgeItem(item, provider);
+      }
+
+      return { items: items.length, embeddingModel: provider.model };
+    } catch (error) {
+      console.error('Error reindexing knowledge base:', error);
+      throw new Error('Failed to reindex knowledge base');
+    }
+  }
+
+  /**
+   * Re-embed stale knowledge items in the background, e.g. after the agent switches
+   * embedding provider. Returns false if a job for the agent is already running.
+   */
+  static startReembedJob(agentId: number): boolean {
+    if (this.reembedJobs.has(agentId)) {
+      return false;
+    }
+
+    this.reembedJobs.add(agentId);
+    this.reindexKnowledgeBase(agentId, true)
+      .catch(error => console.error(`Re-embed job failed for agent ${agentId}:`, error))
+      .finally(() => this.reembedJobs.delete(agentId));
+    return true;
+  }
+
+  /**
+   * How much of an agent's knowledge base is embedded by its current model
+   */
+  static async getEmbeddingStatus(agentId: number) {
+    const provider = await this.getEmbeddingProvider(agentId);
+    const rows = await db
+      .select({ embeddingModel: knowledgeItems.embeddingModel, items: count() })
+      .from(knowledgeItems)
+      .where(and(
+        eq(knowledgeItems.agentId, agentId),
+        eq(knowledgeItems.isActive, true)
+      ))
+      .groupBy(knowledgeItems.embeddingModel);
+
+    const totalItems = rows.reduce((sum, row) => sum + row.items, 0);
+    const currentItems = rows.find(row => row.embeddingModel === provider.model)?.items || 0;
+
+    return {
+      embeddingModel: provider.model,
+      totalItems,
+      staleItems: totalItems - currentItems,
+      jobRunning: this.reembedJobs.has(agentId)
+    };
+  }
+
+  /**
+   * Search knowledge base using semantic similarity over indexed passages
+   */
+  static async searchKnowledgeBase(agentId: number, query: string, limit: number = 5, minSimilarity: number = 0) {
+    try {
+      const provider = await this.getEmbeddingProvider(agentId);
+
+      // Skip the embedding call for agents without a knowledge base
+      if (!(await vectorStore.hasChunks(agentId, provider.model))) {
+        return [];
+      }
+
+      const [queryEmbedding] = await this.generateEmbeddings([query], provider);
+
+      // Fetch extra passages so several hits on one item still leave `limit` distinct items
+      const hits = await vectorStore.search(agentId, provider.model, queryEmbedding, limit * 4, minSimilarity);
+      // Hits are ordered best first, so the first passage seen per item is its best match
+      const bestPassages = new Map<number, { passage: string; similarity: number }>();
+      for (const hit of hits) {
+        if (!bestPassages.has(hit.knowledgeItemId)) {
+          bestPassages.set(hit.knowledgeItemId, { passage: hit.content, similarity: hit.similarity });
+        }
+      }
+      if (bestPassages.size === 0) {
+        return [];
+      }
+
+      const items = await db
+        .select()
+        .from(knowledgeItems)
+        .where(and(
+          inArray(knowledgeItems.id, Array.from(bestPassages.keys())),
           eq(knowledgeItems.isActive, true)
         ));
 
-      // Calculate cosine similarity and rank results
-      const results = items
-        .map(item => ({
-          ...item,
-          similarity: this.cosineSimilarity(queryEmbedding, item.embedding || [])
-        }))
+      return items
+        .map(item => ({ ...item, ...bestPassages.get(item.id)! }))
         .sort((a, b) => b.similarity - a.similarity)
         .slice(0, limit);
-
-      return results;
     } catch (error) {
       console.error('Error searching knowledge base:', error);
       throw new Error('Failed to search knowledge base');
@@ -270,7 +397,7 @@ export class AITrainingService {
       const systemPrompt = this.buildEnhancedSystemPrompt(agent, knowledgeContext);
       
       // Get LLM response with enhanced context
-      const response = await openai.chat.completions.create({
+      const response = await getOpenAI().chat.completions.create({
         model: agent.model,
         messages: [
           { role: 'system', content: systemPrompt },
@@ -341,21 +468,6 @@ export class AITrainingService {
     return prompt;
   }
 
-  /**
-   * Calculate cosine similarity between two vectors
-   */
-  private static cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length || a.length === 0) return 0;
-    
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    
-    if (magnitudeA === 0 || magnitudeB === 0) return 0;
-    
-    return dotProduct / (magnitudeA * magnitudeB);
-  }
-
   /**
    * Get training session status
    */
@@ -20,7 +20,7 @@ export class AuditService {
       const auditLog: InsertAuditLog = {
         userId: event.userId || null,
         action: event.action,
-        resource: event.resource,
+        resourceType: event.resource,
         resourceId: event.resourceId || null,
         details: event.details || {},
         ipAddress: event.ipAddress || null,
@@ -90,6 +90,17 @@ export class AuditService {
       { phoneNumber: phoneNumber.slice(-4) }, 'medium'); // Only log last 4 digits for privacy
   }
 
+  // Outbound call stopped by the do-not-call list, consent or quiet hours
+  static async logCallBlocked(ownerId: number | null, details: Record<string, any>): Promise<void> {
+    await this.log({
+      action: 'CALL_BLOCKED',
+      resource: 'voice_call',
+      details,
+      severity: 'high',
+      userId: ownerId ?? undefined,
+    });
+  }
+
   static async logSecurityEvent(req: Request, event: string, details: Record<string, any>): Promise<void> {
     await this.log({
       action: event,
@@ -0,0 +1,190 @@
+import { Agent, InsertVoiceCallAnalytics, VoiceCall } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { generateChatResponse } from "./llm-providers";
+
+export const CALL_OUTCOMES = ['converted', 'interested', 'callback_requested', 'not_interested', 'wrong_number', 'voicemail', 'no_decision'] as const;
+export type CallOutcome = typeof CALL_OUTCOMES[number];
+
+export const FOLLOW_UP_ACTIONS = ['call_back', 'send_information', 'book_meeting', 'hand_to_sales', 'none'];
+
+export interface CallAnalysisResult {
+  summary: string;
+  outcome: CallOutcome;
+  leadScore: number; // 0-100
+  leadData: Record<string, string | number | boolean>;
+  objections: string[];
+  followUp: { action: string; when?: string; note?: string };
+}
+
+// Daily analytics counters fed by an outcome; other outcomes only count towards avgLeadScore
+const OUTCOME_COUNTERS: Partial<Record<CallOutcome, 'conversions' | 'callbacksScheduled' | 'notInterested'>> = {
+  converted: 'conversions',
+  callback_requested: 'callbacksScheduled',
+  not_interested: 'notInterested'
+};
+
+// Keeps the prompt within every provider's context window
+const MAX_TRANSCRIPT_CHARS = 15000;
+
+const ANALYSIS_FORMAT = `Respond with only a JSON object:
+{
+  "summary": "two or three sentences on what was discussed and agreed",
+  "outcome": ${CALL_OUTCOMES.map(outcome => `"${outcome}"`).join(' | ')},
+  "leadScore": number from 0 (no prospect) to 100 (ready to buy),
+  "leadData": { "name", "email", "company", "budget", "timeline" or any other detail the customer gave; omit what was not said },
+  "objections": ["each concern or objection the customer raised"],
+  "followUp": { "action": ${FOLLOW_UP_ACTIONS.map(action => `"${action}"`).join(' | ')}, "when": "ISO 8601 date if a time was agreed, else null", "note": "what to do" }
+}`;
+
+/**
+ * Turns an LLM reply into a CallAnalysisResult, dropping or defaulting anything malformed.
+ * Throws only when the reply holds no JSON object at all.
+ */
+export function parseCallAnalysis(reply: string): CallAnalysisResult {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Call analysis reply contained no JSON object');
+  }
+  const raw = JSON.parse(reply.slice(start, end + 1));
+
+  const leadData: CallAnalysisResult['leadData'] = {};
+  if (raw.leadData && typeof raw.leadData === 'object') {
+    Object.entries(raw.leadData).forEach(([key, value]) => {
+      if (typeof value === 'string' && value.trim()) leadData[key] = value.trim();
+      else if (typeof value === 'number' || typeof value === 'boolean') leadData[key] = value;
+    });
+  }
+
+  const followUp = raw.followUp && typeof raw.followUp === 'object' ? raw.followUp : {};
+  const when = typeof followUp.when === 'string' ? new Date(followUp.when) : undefined;
+  const score = Number(raw.leadScore);
+
+  return {
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    outcome: CALL_OUTCOMES.includes(raw.outcome) ? raw.outcome : 'no_decision',
+    leadScore: isNaN(score) ? 0 : Math.round(Math.max(0, Math.min(100, score))),
+    leadData,
+    objections: Array.isArray(raw.objections)
+      ? raw.objections.filter((item: unknown) => typeof item === 'string' && item.trim()).map((item: string) => item.trim()).slice(0, 10)
+      : [],
+    followUp: {
+      action: FOLLOW_UP_ACTIONS.includes(followUp.action) ? followUp.action : 'none',
+      ...(when && !isNaN(when.getTime()) ? { when: when.toISOString() } : {}),
+      ...(typeof followUp.note === 'string' && followUp.note.trim() ? { note: followUp.note.trim() } : {})
+    }
+  };
+}
+
+/**
+ * Reads an answered call's transcript with the agent's LLM: summary, outcome, lead score,
+ * lead details, objections and a follow-up recommendation. Results are stored on the call,
+ * merged into the conversation's lead data and rolled into the daily voice call analytics.
+ */
+export class CallAnalysisService {
+  private readonly inProgress = new Set<number>();
+
+  // Returns the updated call, or undefined when there is nothing to analyse yet
+  async analyzeCall(voiceCall: VoiceCall, options: { force?: boolean } = {}): Promise<VoiceCall | undefined> {
+    if (voiceCall.status !== 'completed' || !voiceCall.transcription) return undefined;
+    if (voiceCall.analysis && !options.force) return voiceCall;
+    // Status and transcription callbacks can both arrive while the first analysis is running
+    if (this.inProgress.has(voiceCall.id)) return undefined;
+
+    this.inProgress.add(voiceCall.id);
+    try {
+      const agent = await storage.getAgent(voiceCall.agentId);
+      if (!agent) throw new Error('Agent not found');
+
+      const result = await this.runAnalysis(agent, voiceCall);
+      const updated = await storage.updateVoiceCall(voiceCall.id, {
+        outcome: result.outcome,
+        leadScore: result.leadScore,
+        analysis: {
+          summary: result.summary,
+          objections: result.objections,
+          leadData: result.leadData,
+          followUp: result.followUp,
+          analyzedAt: new Date().toISOString()
+        }
+      });
+
+      await this.mergeLeadData(voiceCall, result.leadData);
+      await this.rollUpAnalytics(voiceCall, result);
+      await logger.logAgent('voice_call_analyzed', undefined, agent.id, true, {
+        voiceCallId: voiceCall.id,
+        outcome: result.outcome,
+        leadScore: result.leadScore
+      });
+
+      return updated;
+    } finally {
+      this.inProgress.delete(voiceCall.id);
+    }
+  }
+
+  private async runAnalysis(agent: Agent, voiceCall: VoiceCall): Promise<CallAnalysisResult> {
+    const conversation = voiceCall.conversationId ? await storage.getConversation(voiceCall.conversationId) : undefined;
+    const transcript = voiceCall.transcription!.slice(0, MAX_TRANSCRIPT_CHARS);
+
+    const prompt = [
+      `Business: ${agent.name}${agent.businessType ? ` (${agent.businessType})` : ''}`,
+      `Reason for the call: ${voiceCall.callData?.triggerReason || 'Outbound follow-up'}`,
+      `Lead details already known: ${JSON.stringify(conversation?.leadData || {})}`,
+      '',
+      'Call transcript:',
+      transcript,
+      '',
+      ANALYSIS_FORMAT
+    ].join('\n');
+
+    const response = await generateChatResponse([
+      { role: 'system', content: 'You review phone calls made by a business to its leads and report what happened as structured data. Base every field on the transcript only.' },
+      { role: 'user', content: prompt }
+    ], agent.llmProvider);
+
+    return parseCallAnalysis(response.content);
+  }
+
+  // Details typed in chat are more reliable than ones heard over the phone, so the call only fills gaps
+  private async mergeLeadData(voiceCall: VoiceCall, heard: CallAnalysisResult['leadData']): Promise<void> {
+    if (!voiceCall.conversationId || Object.keys(heard).length === 0) return;
+
+    const conversation = await storage.getConversation(voiceCall.conversationId);
+    if (!conversation) return;
+
+    const known = Object.fromEntries(
+      Object.entries(conversation.leadData || {}).filter(([, value]) => value !== null && value !== undefined && value !== '')
+    );
+    await storage.updateConversation(conversation.id, { leadData: { ...heard, ...known } });
+  }
+
+  // Re-analysing a call replaces its earlier contribution instead of counting it twice
+  private async rollUpAnalytics(voiceCall: VoiceCall, result: CallAnalysisResult): Promise<void> {
+    const date = (voiceCall.completedAt || new Date()).toISOString().split('T')[0];
+    const analytics = await storage.getVoiceCallAnalytics(voiceCall.agentId, date)
+      || await storage.createVoiceCallAnalytics({ agentId: voiceCall.agentId, date });
+
+    const updates: Partial<InsertVoiceCallAnalytics> = {};
+    let analyzed = analytics.analyzedCalls ?? 0;
+    let scoreTotal = (analytics.avgLeadScore ?? 0) * analyzed;
+
+    if (voiceCall.analysis && analyzed > 0) {
+      analyzed -= 1;
+      scoreTotal -= voiceCall.leadScore ?? 0;
+      const previousCounter = OUTCOME_COUNTERS[voiceCall.outcome as CallOutcome];
+      if (previousCounter) updates[previousCounter] = Math.max(0, (analytics[previousCounter] ?? 0) - 1);
+    }
+
+    analyzed += 1;
+    updates.analyzedCalls = analyzed;
+    updates.avgLeadScore = Math.round(Math.max(0, scoreTotal + result.leadScore) / analyzed);
+    const counter = OUTCOME_COUNTERS[result.outcome];
+    if (counter) updates[counter] = (updates[counter] ?? analytics[counter] ?? 0) + 1;
+
+    await storage.updateVoiceCallAnalytics(analytics.id, updates);
+  }
+}
+
+export const callAnalysisService = new CallAnalysisService();
@@ -0,0 +1,229 @@
+import { Agent, CallConsent, DoNotCallNumber, VoiceCallTrigger } from "@shared/schema";
+import { storage } from "../storage";
+import { AuditService } from "./audit";
+import { isValidTimeZone, toMinutes, zonedParts, zonedTime } from "../utils/time-zones";
+
+export type CallBlockReason = 'do_not_call' | 'no_consent' | 'quiet_hours';
+
+// Thrown when a call would break the do-not-call list, consent or quiet hours rules
+export class CallBlockedError extends Error {
+  constructor(message: string, readonly reason: CallBlockReason, readonly allowedAt?: Date) {
+    super(message);
+  }
+}
+
+export type ComplianceCheck =
+  | { allowed: true; consent?: CallConsent }
+  | { allowed: false; reason: CallBlockReason; message: string; allowedAt?: Date };
+
+// Where a call came from, recorded with blocked calls
+export interface CallContext {
+  triggeredBy: string;
+  conversationId?: number;
+  scheduledCallId?: number;
+}
+
+export interface RecordConsentParams {
+  agent: Agent;
+  phoneNumber: string;
+  source: string;
+  // The wording the customer was shown and agreed to
+  consentText: string;
+  conversationId?: number;
+  timezone?: string;
+  grantedAt?: Date;
+  recordedBy?: number;
+}
+
+export const DEFAULT_QUIET_HOURS = { start: '21:00', end: '08:00' };
+
+// "+1 (555) 123-4567" and "+15551234567" are the same number
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.trim().replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+}
+
+/**
+ * When the quiet hours covering `at` end, or undefined if `at` is outside them. start and end
+ * are local "HH:MM" times; a start later than the end spans midnight.
+ */
+export function quietHoursEnd(start: string, end: string, timeZone: string, at: Date): Date | undefined {
+  const from = toMinutes(start);
+  const until = toMinutes(end);
+  if (from === until) return undefined;
+
+  const local = zonedParts(at, timeZone);
+  const overnight = from > until;
+  const quiet = overnight
+    ? local.minutes >= from || local.minutes < until
+    : local.minutes >= from && local.minutes < until;
+  if (!quiet) return undefined;
+
+  const endDay = overnight && local.minutes >= from ? zonedParts(new Date(at.getTime() + 86400000), timeZone) : local;
+  return zonedTime(endDay.year, endDay.month, endDay.day, until, timeZone);
+}
+
+/**
+ * Outbound call rules every dial has to pass: the owner's do-not-call list, recorded consent
+ * (unless the agent's trigger turns it off) and quiet hours in the recipient's time zone.
+ */
+export class CallComplianceService {
+  async check(agent: Agent, phoneNumber: string, options: { at?: Date; ignoreQuietHours?: boolean } = {}): Promise<ComplianceCheck> {
+    const number = normalizePhoneNumber(phoneNumber);
+    const trigger = await storage.getVoiceCallTrigger(agent.id);
+
+    if (agent.userId && await storage.getDoNotCallNumber(agent.userId, number)) {
+      return { allowed: false, reason: 'do_not_call', message: `${number} is on the do-not-call list` };
+    }
+
+    const consent = agent.userId ? await storage.getActiveCallConsent(agent.userId, number) : undefined;
+    if ((trigger?.requireConsent ?? true) && !consent) {
+      return { allowed: false, reason: 'no_consent', message: `No recorded consent to call ${number}` };
+    }
+
+    const allowedAt = options.ignoreQuietHours ? undefined : this.quietHoursEndFor(agent, trigger, consent, options.at || new Date());
+    if (allowedAt) {
+      return {
+        allowed: false,
+        reason: 'quiet_hours',
+        message: `Quiet hours for ${number} last until ${allowedAt.toISOString()}`,
+        allowedAt
+      };
+    }
+
+    return { allowed: true, consent };
+  }
+
+  // Like check, but a blocked call is written to the audit log and thrown as CallBlockedError
+  async enforce(agent: Agent, phoneNumber: string, context: CallContext, options: { at?: Date; ignoreQuietHours?: boolean } = {}): Promise<CallConsent | undefined> {
+    const result = await this.check(agent, phoneNumber, options);
+    if (result.allowed) return result.consent;
+
+    await AuditService.logCallBlocked(agent.userId, {
+      agentId: agent.id,
+      reason: result.reason,
+      phoneNumber: phoneNumber.slice(-4), // Only log last 4 digits for privacy
+      ...context,
+      ...(result.allowedAt ? { allowedAt: result.allowedAt.toISOString() } : {})
+    });
+    throw new CallBlockedError(result.message, result.reason, result.allowedAt);
+  }
+
+  // Earliest time at or after `from` outside the recipient's quiet hours
+  async nextAllowedTime(agent: Agent, phoneNumber: string, from: Date): Promise<Date> {
+    const trigger = await storage.getVoiceCallTrigger(agent.id);
+    const consent = agent.userId ? await storage.getActiveCallConsent(agent.userId, normalizePhoneNumber(phoneNumber)) : undefined;
+    return this.quietHoursEndFor(agent, trigger, consent, from) || from;
+  }
+
+  // The recipient's zone from their consent record, else the agent's business hours zone
+  recipientTimeZone(agent: Agent, consent?: CallConsent): string {
+    return consent?.timezone || agent.businessHours?.timezone || 'UTC';
+  }
+
+  async addToDoNotCall(ownerId: number, phoneNumber: string, options: { reason?: string; source?: string; addedBy?: number } = {}): Promise<DoNotCallNumber> {
+    const number = normalizePhoneNumber(phoneNumber);
+    const entry = await storage.addDoNotCallNumber({
+      userId: ownerId,
+      phoneNumber: number,
+      reason: options.reason ?? null,
+      source: options.source || 'manual',
+      addedBy: options.addedBy ?? null
+    });
+
+    const cancelled = await this.cancelQueuedCalls(ownerId, number, 'Number added to the do-not-call list', options.addedBy);
+    await AuditService.log({
+      action: 'DNC_ADDED',
+      resource: 'do_not_call',
+      resourceId: entry.id.toString(),
+      userId: options.addedBy,
+      details: { ownerId, phoneNumber: number.slice(-4), source: entry.source, cancelledCalls: cancelled },
+      severity: 'medium'
+    });
+    return entry;
+  }
+
+  async removeFromDoNotCall(ownerId: number, phoneNumber: string, removedBy?: number): Promise<boolean> {
+    const number = normalizePhoneNumber(phoneNumber);
+    const removed = await storage.removeDoNotCallNumber(ownerId, number);
+    if (removed) {
+      await AuditService.log({
+        action: 'DNC_REMOVED',
+        resource: 'do_not_call',
+        userId: removedBy,
+        details: { ownerId, phoneNumber: number.slice(-4) },
+        severity: 'high'
+      });
+    }
+    return removed;
+  }
+
+  async recordConsent(params: RecordConsentParams): Promise<CallConsent> {
+    if (!params.agent.userId) {
+      throw new Error('Consent can only be recorded for agents that belong to a business');
+    }
+    if (!params.consentText.trim()) {
+      throw new Error('Consent text is required');
+    }
+
+    const consent = await storage.createCallConsent({
+      userId: params.agent.userId,
+      agentId: params.agent.id,
+      conversationId: params.conversationId ?? null,
+      phoneNumber: normalizePhoneNumber(params.phoneNumber),
+      source: params.source,
+      consentText: params.consentText.trim(),
+      timezone: params.timezone && isValidTimeZone(params.timezone) ? params.timezone : null,
+      grantedAt: params.grantedAt || new Date(),
+      recordedBy: params.recordedBy ?? null
+    });
+
+    await AuditService.log({
+      action: 'CALL_CONSENT_RECORDED',
+      resource: 'call_consent',
+      resourceId: consent.id.toString(),
+      userId: params.recordedBy,
+      details: { agentId: params.agent.id, source: consent.source, conversationId: consent.conversationId },
+      severity: 'low'
+    });
+    return consent;
+  }
+
+  // Revoking consent also cancels calls already queued to the number
+  async revokeConsent(ownerId: number, phoneNumber: string, revokedBy?: number): Promise<number> {
+    const number = normalizePhoneNumber(phoneNumber);
+    const revoked = await storage.revokeCallConsents(ownerId, number);
+    if (revoked > 0) {
+      const cancelled = await this.cancelQueuedCalls(ownerId, number, 'Call consent revoked', revokedBy);
+      await AuditService.log({
+        action: 'CALL_CONSENT_REVOKED',
+        resource: 'call_consent',
+        userId: revokedBy,
+        details: { ownerId, phoneNumber: number.slice(-4), revoked, cancelledCalls: cancelled },
+        severity: 'medium'
+      });
+    }
+    return revoked;
+  }
+
+  private quietHoursEndFor(agent: Agent, trigger: VoiceCallTrigger | undefined, consent: CallConsent | undefined, at: Date): Date | undefined {
+    const start = trigger ? trigger.quietHoursStart : DEFAULT_QUIET_HOURS.start;
+    const end = trigger ? trigger.quietHoursEnd : DEFAULT_QUIET_HOURS.end;
+    if (!start || !end) return undefined;
+    return quietHoursEnd(start, end, this.recipientTimeZone(agent, consent), at);
+  }
+
+  private async cancelQueuedCalls(ownerId: number, number: string, reason: string, userId?: number): Promise<number> {
+    let cancelled = 0;
+    const agents = await storage.getUserAgents(ownerId);
+    for (const agent of agents) {
+      const queued = await storage.getScheduledCallsByAgent(agent.id, ['scheduled']);
+      for (const call of queued.filter(call => normalizePhoneNumber(call.phoneNumber) === number)) {
+        await storage.updateScheduledCall(call.id, { status: 'cancelled', lastError: reason, cancelledBy: userId ?? null });
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+}
+
+export const callComplianceService = new CallComplianceService();
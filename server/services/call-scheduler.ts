@@ -0,0 +1,301 @@
+import { Agent, ScheduledCall, VoiceCall } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { voiceCallingService } from "./voice-calling";
+import type { CallStatus } from "./telephony";
+import { CallBlockedError, callComplianceService, normalizePhoneNumber } from "./call-compliance";
+import { toMinutes, zonedParts, zonedTime } from "../utils/time-zones";
+
+type BusinessHours = NonNullable<Agent['businessHours']>;
+type Weekday = Exclude<keyof BusinessHours, 'timezone'>;
+
+export interface ScheduleCallParams {
+  agentId: number;
+  conversationId?: number;
+  phoneNumber: string;
+  triggerReason: string;
+  triggeredBy: string;
+  // Earliest time to dial; defaults to now plus the trigger's delayMinutes
+  notBefore?: Date;
+}
+
+// Thrown when trigger rules rule out a call, e.g. the lead's attempts are used up
+export class CallSchedulingError extends Error {}
+
+// Applied when an agent has no saved trigger settings; the trigger endpoint reports the same values
+export const DEFAULT_TRIGGER_SETTINGS = {
+  delayMinutes: 5,
+  maxAttemptsPerLead: 3,
+  retryDelayMinutes: 60,
+  businessHoursOnly: true
+};
+const POLL_INTERVAL_MS = parseInt(process.env.CALL_SCHEDULER_INTERVAL_MS || '30000');
+const CALLS_PER_POLL = 10;
+
+// Outcomes worth another try; a failed call usually means a bad number or provider error
+const RETRYABLE_STATUSES: CallStatus[] = ['no_answer', 'busy'];
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Earliest instant at or after `from` when the business is open, or null when no day of the
+ * week has opening hours. Agents without business hours are treated as always open.
+ */
+export function nextBusinessHoursSlot(hours: Agent['businessHours'], from: Date): Date | null {
+  if (!hours || !WEEKDAYS.some(day => hours[day])) return from;
+  const timeZone = hours.timezone || 'UTC';
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const local = zonedParts(new Date(from.getTime() + offset * 86400000), timeZone);
+    const day = hours[local.weekday as Weekday];
+    if (!day || day.closed) continue;
+
+    const open = toMinutes(day.open);
+    const close = toMinutes(day.close);
+    if (offset === 0) {
+      if (local.minutes < open) return zonedTime(local.year, local.month, local.day, open, timeZone);
+      if (local.minutes < close) return from;
+      continue;
+    }
+    return zonedTime(local.year, local.month, local.day, open, timeZone);
+  }
+
+  return null;
+}
+
+/**
+ * Queues outbound calls in the scheduled_calls table and dials them once due, applying the
+ * agent's voice call trigger: delay, business hours, attempt limit and retry delay.
+ */
+export class CallScheduler {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor() {
+    voiceCallingService.onCallFinished((voiceCall, status) => this.handleCallFinished(voiceCall, status));
+  }
+
+  async scheduleCall(params: ScheduleCallParams): Promise<ScheduledCall> {
+    const agent = await storage.getAgent(params.agentId);
+    if (!agent) {
+      throw new CallSchedulingError("Agent not found");
+    }
+
+    const trigger = await storage.getVoiceCallTrigger(agent.id);
+    // Stored and compared in one spelling, so "+1 (555) 010-0199" is the same lead as "+15550100199"
+    const phoneNumber = normalizePhoneNumber(params.phoneNumber);
+
+    // The do-not-call list and missing consent refuse the call now; quiet hours only move it
+    await callComplianceService.enforce(agent, phoneNumber, {
+      triggeredBy: params.triggeredBy,
+      conversationId: params.conversationId
+    }, { ignoreQuietHours: true });
+
+    // One queued call per lead; asking again returns the call already waiting
+    const active = await storage.getActiveScheduledCall(agent.id, phoneNumber);
+    if (active) return active;
+
+    const maxAttempts = trigger?.maxAttemptsPerLead ?? DEFAULT_TRIGGER_SETTINGS.maxAttemptsPerLead;
+    const previousCalls = await storage.countVoiceCallsToNumber(agent.id, phoneNumber);
+    if (previousCalls >= maxAttempts) {
+      throw new CallSchedulingError(`${phoneNumber} has already been called ${previousCalls} times (limit ${maxAttempts})`);
+    }
+
+    const delayMinutes = trigger?.delayMinutes ?? DEFAULT_TRIGGER_SETTINGS.delayMinutes;
+    const earliest = params.notBefore || new Date(Date.now() + delayMinutes * 60000);
+    const scheduledFor = await this.nextDialTime(agent, trigger?.businessHoursOnly ?? DEFAULT_TRIGGER_SETTINGS.businessHoursOnly, phoneNumber, earliest);
+
+    const call = await storage.createScheduledCall({
+      agentId: agent.id,
+      conversationId: params.conversationId,
+      phoneNumber,
+      triggerReason: params.triggerReason,
+      triggeredBy: params.triggeredBy,
+      scheduledFor,
+      maxAttempts: maxAttempts - previousCalls
+    });
+
+    await logger.logAgent('voice_call_scheduled', undefined, agent.id, true, {
+      scheduledCallId: call.id,
+      triggeredBy: params.triggeredBy,
+      scheduledFor: scheduledFor.toISOString()
+    });
+    this.schedulePoll(scheduledFor);
+    return call;
+  }
+
+  // Automatic calls for leads the qualification step recommends calling, if the trigger allows it
+  async considerConversation(conversationId: number): Promise<ScheduledCall | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    const phoneNumber = conversation?.leadData?.phone;
+    if (!conversation || !phoneNumber) return undefined;
+
+    if (!(await voiceCallingService.analyzeConversationForTrigger(conversationId))) return undefined;
+
+    try {
+      return await this.scheduleCall({
+        agentId: conversation.agentId,
+        conversationId,
+        phoneNumber: String(phoneNumber),
+        triggerReason: 'Qualified lead from chat',
+        triggeredBy: 'auto_trigger'
+      });
+    } catch (error) {
+      if (error instanceof CallSchedulingError || error instanceof CallBlockedError) return undefined;
+      throw error;
+    }
+  }
+
+  async cancel(call: ScheduledCall, userId?: number): Promise<ScheduledCall> {
+    if (call.status !== 'scheduled') {
+      throw new CallSchedulingError(`Only scheduled calls can be cancelled; this call is ${call.status}`);
+    }
+
+    const cancelled = await storage.updateScheduledCall(call.id, { status: 'cancelled', cancelledBy: userId ?? null });
+    if (!cancelled) throw new Error('Failed to cancel scheduled call');
+    return cancelled;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    void storage.failInterruptedScheduledCalls().then(failed => {
+      if (failed > 0) console.log(`Call scheduler marked ${failed} interrupted calls as failed`);
+    });
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Dial every call whose time has come
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await storage.claimDueScheduledCalls(new Date(), CALLS_PER_POLL);
+      for (const call of due) {
+        await this.dial(call);
+      }
+    } catch (error) {
+      await logger.logError(error as Error, 'call_scheduler_poll');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async dial(call: ScheduledCall): Promise<void> {
+    const agent = await storage.getAgent(call.agentId);
+    if (!agent) {
+      await storage.updateScheduledCall(call.id, { status: 'failed', lastError: 'Agent not found' });
+      return;
+    }
+
+    try {
+      // Hours may have changed since the call was queued
+      const trigger = await storage.getVoiceCallTrigger(agent.id);
+      const now = new Date();
+      const slot = await this.nextDialTime(agent, trigger?.businessHoursOnly ?? DEFAULT_TRIGGER_SETTINGS.businessHoursOnly, call.phoneNumber, now);
+      if (slot.getTime() > now.getTime()) {
+        await storage.updateScheduledCall(call.id, { status: 'scheduled', scheduledFor: slot });
+        return;
+      }
+
+      const voiceCall = await voiceCallingService.triggerVoiceCall({
+        agentId: call.agentId,
+        conversationId: call.conversationId ?? undefined,
+        phoneNumber: call.phoneNumber,
+        triggerReason: call.triggerReason || 'Scheduled call',
+        triggeredBy: call.triggeredBy
+      });
+
+      // A call that failed to start has already been reported through onCallFinished
+      if (voiceCall.status !== 'failed') {
+        await storage.updateScheduledCall(call.id, { status: 'in_call', attempts: call.attempts + 1, lastVoiceCallId: voiceCall.id });
+      }
+    } catch (error: any) {
+      // Blocked calls were never placed, so they do not count as attempts
+      if (error instanceof CallBlockedError) {
+        await storage.updateScheduledCall(call.id, error.allowedAt
+          ? { status: 'scheduled', scheduledFor: error.allowedAt }
+          : { status: 'failed', lastError: error.message });
+        return;
+      }
+      await storage.updateScheduledCall(call.id, { status: 'failed', attempts: call.attempts + 1, lastError: error.message });
+      await logger.logError(error, 'call_scheduler_dial', undefined, call.agentId, { scheduledCallId: call.id });
+    }
+  }
+
+  private async handleCallFinished(voiceCall: VoiceCall, status: CallStatus): Promise<void> {
+    const call = await storage.getScheduledCallByVoiceCall(voiceCall.id)
+      || await this.findDialingCall(voiceCall);
+    if (!call) return;
+
+    const attempts = call.lastVoiceCallId === voiceCall.id ? call.attempts : call.attempts + 1;
+    if (status === 'completed') {
+      await storage.updateScheduledCall(call.id, { status: 'completed', attempts, lastVoiceCallId: voiceCall.id });
+      return;
+    }
+
+    const agent = await storage.getAgent(call.agentId);
+    if (agent && RETRYABLE_STATUSES.includes(status) && attempts < call.maxAttempts) {
+      const trigger = await storage.getVoiceCallTrigger(call.agentId);
+      const retryAt = new Date(Date.now() + (trigger?.retryDelayMinutes ?? DEFAULT_TRIGGER_SETTINGS.retryDelayMinutes) * 60000);
+      const scheduledFor = await this.nextDialTime(agent, trigger?.businessHoursOnly ?? DEFAULT_TRIGGER_SETTINGS.businessHoursOnly, call.phoneNumber, retryAt)
+        .catch(() => undefined);
+      if (scheduledFor) {
+        await storage.updateScheduledCall(call.id, {
+          status: 'scheduled',
+          attempts,
+          lastVoiceCallId: voiceCall.id,
+          scheduledFor,
+          lastError: status
+        });
+        this.schedulePoll(scheduledFor);
+        return;
+      }
+    }
+
+    await storage.updateScheduledCall(call.id, { status: 'failed', attempts, lastVoiceCallId: voiceCall.id, lastError: status });
+  }
+
+  // A call can fail before dial() has linked it to its voice call
+  private async findDialingCall(voiceCall: VoiceCall): Promise<ScheduledCall | undefined> {
+    const dialing = await storage.getScheduledCallsByAgent(voiceCall.agentId, ['dialing']);
+    return dialing.find(call => call.phoneNumber === voiceCall.phoneNumber);
+  }
+
+  // Business hours and the recipient's quiet hours can push each other later, so repeat until both agree
+  private async nextDialTime(agent: Agent, businessHoursOnly: boolean, phoneNumber: string, from: Date): Promise<Date> {
+    let slot = from;
+    for (let round = 0; round < 8; round++) {
+      const open = this.applyBusinessHours(agent, businessHoursOnly, slot);
+      slot = await callComplianceService.nextAllowedTime(agent, phoneNumber, open);
+      if (slot.getTime() === open.getTime()) return slot;
+    }
+    throw new CallSchedulingError("Business hours fall entirely within the recipient's quiet hours");
+  }
+
+  private applyBusinessHours(agent: Agent, businessHoursOnly: boolean, from: Date): Date {
+    if (!businessHoursOnly) return from;
+
+    const slot = nextBusinessHoursSlot(agent.businessHours, from);
+    if (!slot) {
+      throw new CallSchedulingError('Business hours have no open days; turn off businessHoursOnly or set opening hours');
+    }
+    return slot;
+  }
+
+  // Calls due before the next regular poll are picked up on time
+  private schedulePoll(at: Date): void {
+    const wait = at.getTime() - Date.now();
+    if (!this.timer || wait >= POLL_INTERVAL_MS) return;
+    setTimeout(() => void this.poll(), Math.max(wait, 0)).unref();
+  }
+}
+
+export const callScheduler = new CallScheduler();
@@ -0,0 +1,528 @@
+import { Agent, Campaign, CampaignRecipient, Conversation, InsertCampaignRecipient } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { whatsappTemplateService, buildTemplateComponents, type TemplateParameters } from "./whatsapp-templates";
+import { smsService, OPT_IN_KEYWORDS, OPT_OUT_KEYWORDS } from "./sms";
+import { normalizePhoneNumber } from "./call-compliance";
+
+export const CAMPAIGN_CHANNELS = ['whatsapp', 'sms'] as const;
+export type CampaignChannel = typeof CAMPAIGN_CHANNELS[number];
+
+// Messages per minute per agent and channel, shared by all of the agent's campaigns on it
+const RATE_LIMITS: Record<CampaignChannel, number> = {
+  whatsapp: parseInt(process.env.CAMPAIGN_WHATSAPP_RATE_PER_MINUTE || '60'),
+  sms: parseInt(process.env.CAMPAIGN_SMS_RATE_PER_MINUTE || '30')
+};
+const POLL_INTERVAL_MS = parseInt(process.env.CAMPAIGN_RUNNER_INTERVAL_MS || '10000');
+
+// Replies within this long of a campaign message count towards its reply rate
+const REPLY_ATTRIBUTION_MS = 7 * 86400000;
+
+const PHONE_COLUMNS = ['phone', 'phone_number', 'phonenumber', 'mobile', 'number', 'to'];
+
+export interface AudienceFilters {
+  platform?: string;
+  status?: string;
+  minScore?: number;
+  // Conversations whose lead data has each of these values (compared as text, ignoring case)
+  leadData?: Record<string, string>;
+  activeSince?: string;
+}
+
+export type AudienceInput =
+  | { source: 'conversations'; filters?: AudienceFilters }
+  | { source: 'csv'; csv: string };
+
+export interface CreateCampaignInput {
+  name: string;
+  channel: CampaignChannel;
+  templateName?: string;
+  templateLanguage?: string;
+  templateParameters?: TemplateParameters;
+  messageText?: string;
+  audience: AudienceInput;
+}
+
+export interface AudienceRecipient {
+  phoneNumber: string;
+  variables: Record<string, string>;
+  conversationId?: number;
+}
+
+export type KeywordAction = 'opted_out' | 'opted_in';
+
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  // Accepted by the platform; delivered and read messages are included
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  skipped: number;
+}
+
+// Thrown for requests the campaign cannot take in its current state, or invalid campaign content
+export class CampaignError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+  }
+}
+
+// Splits CSV text into rows of fields; quoted fields may contain commas, quotes ("") and newlines
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(value => value)) rows.push(row);
+  return rows;
+}
+
+/**
+ * Reads recipients from CSV with a header row. One column holds the phone number ("phone",
+ * "phone_number", "mobile", ...); every other column becomes a variable named after its header.
+ */
+export function parseRecipientsCsv(csv: string): { recipients: AudienceRecipient[]; errors: string[] } {
+  const [header, ...rows] = parseCsvRows(csv.replace(/^﻿/, ''));
+  if (!header) {
+    throw new CampaignError('The CSV is empty');
+  }
+
+  const names = header.map(name => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''));
+  const phoneIndex = names.findIndex(name => PHONE_COLUMNS.includes(name));
+  if (phoneIndex === -1) {
+    throw new CampaignError(`The CSV needs a phone number column (${PHONE_COLUMNS.join(', ')})`);
+  }
+
+  const recipients: AudienceRecipient[] = [];
+  const errors: string[] = [];
+  rows.forEach((values, index) => {
+    const phoneNumber = normalizePhoneNumber(values[phoneIndex] || '');
+    if (phoneNumber.replace(/\D/g, '').length < 7) {
+      errors.push(`Row ${index + 2}: "${values[phoneIndex] || ''}" is not a phone number`);
+      return;
+    }
+
+    const variables: Record<string, string> = {};
+    names.forEach((name, column) => {
+      if (column !== phoneIndex && name && values[column]) variables[name] = values[column];
+    });
+    recipients.push({ phoneNumber, variables });
+  });
+
+  return { recipients, errors };
+}
+
+// Replaces "{variable}" in every string of `value`; names no recipient variable fills are collected in `missing`
+function fillVariables<T>(value: T, variables: Record<string, string>, missing: Set<string>): T {
+  if (typeof value === 'string') {
+    return value.replace(/\{(\w+)\}/g, (match, name: string) => {
+      if (variables[name] !== undefined) return variables[name];
+      missing.add(name);
+      return match;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillVariables(item, variables, missing)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillVariables(item, variables, missing)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Broadcast campaigns: a WhatsApp template or SMS text sent to an audience taken from the
+ * agent's conversations or a CSV. A runner sends scheduled campaigns within each channel's
+ * rate limit, skips contacts who opted out, and keeps delivery, read and reply stats from
+ * the channel's status updates and inbound messages.
+ */
+export class CampaignService {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  // Recent send times per agent and channel, for the rate limit
+  private readonly recentSends = new Map<string, number[]>();
+
+  async createCampaign(agent: Agent, input: CreateCampaignInput, userId?: number): Promise<{ campaign: Campaign; added: number; errors: string[] }> {
+    if (!CAMPAIGN_CHANNELS.includes(input.channel)) {
+      throw new CampaignError(`channel must be one of: ${CAMPAIGN_CHANNELS.join(', ')}`);
+    }
+    if (input.channel === 'whatsapp' && !input.templateName) {
+      throw new CampaignError('WhatsApp campaigns need a templateName; only templates can start a conversation');
+    }
+    if (input.channel === 'sms' && !input.messageText?.trim()) {
+      throw new CampaignError('SMS campaigns need messageText');
+    }
+
+    const { recipients, errors } = input.audience.source === 'csv'
+      ? parseRecipientsCsv(input.audience.csv)
+      : { recipients: await this.audienceFromConversations(agent, input.audience.filters || {}), errors: [] };
+    if (recipients.length === 0) {
+      throw new CampaignError('The audience has no recipients with a phone number', errors);
+    }
+
+    const campaign = await storage.createCampaign({
+      agentId: agent.id,
+      name: input.name,
+      channel: input.channel,
+      templateName: input.channel === 'whatsapp' ? input.templateName : null,
+      templateLanguage: input.channel === 'whatsapp' ? input.templateLanguage || null : null,
+      templateParameters: input.channel === 'whatsapp' ? input.templateParameters || {} : {},
+      messageText: input.channel === 'sms' ? input.messageText : null,
+      audience: input.audience.source === 'csv'
+        ? { source: 'csv', rows: recipients.length + errors.length }
+        : { source: 'conversations', filters: input.audience.filters || {} },
+      createdBy: userId ?? null
+    });
+
+    // The same number twice in one audience is messaged once
+    const seen = new Set<string>();
+    const unique = recipients.filter(recipient => {
+      const digits = recipient.phoneNumber.replace(/\D/g, '');
+      if (seen.has(digits)) return false;
+      seen.add(digits);
+      return true;
+    });
+    const added = await storage.addCampaignRecipients(unique.map((recipient): InsertCampaignRecipient => ({
+      campaignId: campaign.id,
+      phoneNumber: recipient.phoneNumber,
+      conversationId: recipient.conversationId ?? null,
+      variables: recipient.variables
+    })));
+
+    await logger.logAgent('campaign_created', userId, agent.id, true, { campaignId: campaign.id, channel: campaign.channel, recipients: added });
+    return { campaign, added, errors };
+  }
+
+  // Conversations matching the filters that have a phone number; lead data becomes the variables
+  async audienceFromConversations(agent: Agent, filters: AudienceFilters): Promise<AudienceRecipient[]> {
+    const conversations = await storage.getConversationsByAgent(agent.id);
+    const activeSince = filters.activeSince ? new Date(filters.activeSince) : undefined;
+    if (activeSince && isNaN(activeSince.getTime())) {
+      throw new CampaignError('filters.activeSince must be a date');
+    }
+
+    return conversations
+      .filter(conversation => this.matchesFilters(conversation, filters, activeSince))
+      .map(conversation => {
+        const leadData = conversation.leadData || {};
+        const phone = leadData.phone || (['whatsapp', 'sms'].includes(conversation.platform || '') ? conversation.channelAddress : undefined);
+        const variables: Record<string, string> = {};
+        Object.entries(leadData).forEach(([key, value]) => {
+          if (['string', 'number', 'boolean'].includes(typeof value) && String(value).trim()) variables[key] = String(value).trim();
+        });
+        return { phoneNumber: normalizePhoneNumber(String(phone || '')), variables, conversationId: conversation.id };
+      })
+      .filter(recipient => recipient.phoneNumber.replace(/\D/g, '').length >= 7);
+  }
+
+  // Content is checked against the template now rather than failing every recipient later
+  async schedule(campaign: Campaign, sendAt?: Date): Promise<Campaign> {
+    if (!['draft', 'paused'].includes(campaign.status)) {
+      throw new CampaignError(`Only draft or paused campaigns can be scheduled; this campaign is ${campaign.status}`);
+    }
+
+    const agent = await storage.getAgent(campaign.agentId);
+    if (!agent) throw new CampaignError('Agent not found');
+    await this.validateContent(agent, campaign);
+
+    const scheduledFor = sendAt || new Date();
+    const updated = await storage.updateCampaign(campaign.id, { status: 'scheduled', scheduledFor });
+    if (!updated) throw new Error('Failed to schedule campaign');
+
+    this.schedulePoll(scheduledFor);
+    return updated;
+  }
+
+  // Recipients being messaged right now still receive it; the rest wait for resume
+  async pause(campaign: Campaign): Promise<Campaign> {
+    if (!['scheduled', 'sending'].includes(campaign.status)) {
+      throw new CampaignError(`Only scheduled or sending campaigns can be paused; this campaign is ${campaign.status}`);
+    }
+    const updated = await storage.updateCampaign(campaign.id, { status: 'paused' });
+    if (!updated) throw new Error('Failed to pause campaign');
+    return updated;
+  }
+
+  // Content is checked again, in case the template changed while the campaign was paused
+  async resume(campaign: Campaign): Promise<Campaign> {
+    if (campaign.status !== 'paused') {
+      throw new CampaignError(`Only paused campaigns can be resumed; this campaign is ${campaign.status}`);
+    }
+    return await this.schedule(campaign);
+  }
+
+  async cancel(campaign: Campaign): Promise<Campaign> {
+    if (['completed', 'cancelled'].includes(campaign.status)) {
+      throw new CampaignError(`This campaign is already ${campaign.status}`);
+    }
+    const updated = await storage.updateCampaign(campaign.id, { status: 'cancelled', completedAt: new Date() });
+    if (!updated) throw new Error('Failed to cancel campaign');
+    await storage.skipPendingCampaignRecipients(campaign.id, 'cancelled');
+    return updated;
+  }
+
+  async getStats(campaign: Campaign): Promise<CampaignStats> {
+    const { byStatus, replied } = await storage.getCampaignRecipientStats(campaign.id);
+    const countOf = (...statuses: string[]) => statuses.reduce((total, status) => total + (byStatus[status] || 0), 0);
+    return {
+      total: Object.values(byStatus).reduce((total, value) => total + value, 0),
+      pending: countOf('pending', 'sending'),
+      sent: countOf('sent', 'delivered', 'read'),
+      delivered: countOf('delivered', 'read'),
+      read: countOf('read'),
+      replied,
+      failed: countOf('failed'),
+      skipped: countOf('skipped')
+    };
+  }
+
+  /**
+   * The carrier STOP/START keywords manage campaign opt-outs on both channels; START and YES
+   * only count from contacts who opted out. Returns what the keyword did so the channel can
+   * confirm it instead of letting the bot answer.
+   */
+  async recordInbound(agent: Agent, channel: CampaignChannel, phoneNumber: string, text: string, at: Date): Promise<KeywordAction | undefined> {
+    const digits = phoneNumber.replace(/\D/g, '');
+    const keyword = text.trim().toUpperCase();
+    let action: KeywordAction | undefined;
+    if (OPT_OUT_KEYWORDS.includes(keyword)) {
+      await storage.addCampaignOptOut(agent.id, channel, digits, 'keyword');
+      await logger.logAgent('campaign_opt_out', undefined, agent.id, true, { channel, keyword });
+      action = 'opted_out';
+    } else if (OPT_IN_KEYWORDS.includes(keyword) && await storage.removeCampaignOptOut(agent.id, channel, digits)) {
+      await logger.logAgent('campaign_opt_in', undefined, agent.id, true, { channel, keyword });
+      action = 'opted_in';
+    }
+
+    const recipient = await storage.getLatestCampaignRecipient(agent.id, channel, [digits, `+${digits}`], new Date(at.getTime() - REPLY_ATTRIBUTION_MS));
+    if (recipient && !recipient.repliedAt) {
+      await storage.updateCampaignRecipient(recipient.id, { repliedAt: at });
+    }
+    return action;
+  }
+
+  // Status updates can arrive out of order, so a recipient only ever moves forward
+  async recordDeliveryStatus(messageId: string, status: string, at: Date): Promise<void> {
+    const recipient = await storage.getCampaignRecipientByMessageId(messageId);
+    if (!recipient) return;
+
+    const progress = ['sent', 'delivered', 'read'];
+    if (status === 'failed') {
+      if (recipient.status === 'sent') await storage.updateCampaignRecipient(recipient.id, { status: 'failed', error: 'Delivery failed' });
+      return;
+    }
+    if (progress.indexOf(status) <= progress.indexOf(recipient.status)) return;
+
+    await storage.updateCampaignRecipient(recipient.id, {
+      status,
+      deliveredAt: recipient.deliveredAt || at,
+      ...(status === 'read' ? { readAt: at } : {})
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    void storage.failInterruptedCampaignRecipients().then(failed => {
+      if (failed > 0) console.log(`Campaign runner marked ${failed} interrupted messages as failed`);
+    });
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await storage.getDueCampaigns(new Date());
+      for (const campaign of due) {
+        await this.sendBatch(campaign);
+      }
+    } catch (error) {
+      await logger.logError(error as Error, 'campaign_runner_poll');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async sendBatch(campaign: Campaign): Promise<void> {
+    const agent = await storage.getAgent(campaign.agentId);
+    const channel = campaign.channel as CampaignChannel;
+    if (!agent) {
+      await storage.updateCampaign(campaign.id, { status: 'cancelled', completedAt: new Date() });
+      return;
+    }
+
+    if (campaign.status === 'scheduled') {
+      await storage.updateCampaign(campaign.id, { status: 'sending', startedAt: campaign.startedAt || new Date() });
+      await logger.logAgent('campaign_started', undefined, agent.id, true, { campaignId: campaign.id });
+    }
+
+    const budget = this.remainingBudget(agent.id, channel);
+    const recipients = budget > 0 ? await storage.claimCampaignRecipients(campaign.id, budget) : [];
+    for (const recipient of recipients) {
+      // A pause or cancel takes effect between messages
+      const current = await storage.getCampaign(campaign.id);
+      if (current?.status !== 'sending') {
+        await storage.updateCampaignRecipient(recipient.id, current?.status === 'cancelled'
+          ? { status: 'skipped', error: 'cancelled' }
+          : { status: 'pending' });
+        continue;
+      }
+      await this.sendToRecipient(agent, campaign, recipient);
+    }
+
+    if (budget > 0 && recipients.length < budget) {
+      const stats = await this.getStats(campaign);
+      const current = await storage.getCampaign(campaign.id);
+      if (stats.pending === 0 && current?.status === 'sending') {
+        await storage.updateCampaign(campaign.id, { status: 'completed', completedAt: new Date() });
+        await logger.logAgent('campaign_completed', undefined, agent.id, true, { campaignId: campaign.id, ...stats });
+      }
+    }
+  }
+
+  private async sendToRecipient(agent: Agent, campaign: Campaign, recipient: CampaignRecipient): Promise<void> {
+    const channel = campaign.channel as CampaignChannel;
+    try {
+      if (await storage.getCampaignOptOut(agent.id, channel, recipient.phoneNumber.replace(/\D/g, ''))) {
+        await storage.updateCampaignRecipient(recipient.id, { status: 'skipped', error: 'opted_out' });
+        return;
+      }
+
+      const missing = new Set<string>();
+      const variables = { ...recipient.variables, phone: recipient.phoneNumber };
+      const parameters = fillVariables(campaign.templateParameters || {}, variables, missing) as TemplateParameters;
+      const text = fillVariables(campaign.messageText || '', variables, missing);
+      if (missing.size > 0) {
+        await storage.updateCampaignRecipient(recipient.id, { status: 'failed', error: `Missing variables: ${Array.from(missing).join(', ')}` });
+        return;
+      }
+
+      this.recordSend(agent.id, channel);
+      let messageId: string | undefined;
+      if (channel === 'whatsapp') {
+        ({ messageId } = await whatsappTemplateService.send(agent, {
+          to: recipient.phoneNumber,
+          name: campaign.templateName!,
+          language: campaign.templateLanguage || undefined,
+          parameters,
+          conversationId: recipient.conversationId ?? undefined
+        }));
+      } else {
+        const result = await smsService.sendReply(agent, { to: recipient.phoneNumber, text, conversationId: recipient.conversationId ?? undefined });
+        // The SMS channel keeps its own STOP list
+        if (result.suppressed) {
+          await storage.updateCampaignRecipient(recipient.id, { status: 'skipped', error: 'opted_out' });
+          return;
+        }
+        messageId = result.messageId;
+      }
+
+      await storage.updateCampaignRecipient(recipient.id, { status: 'sent', messageId: messageId ?? null, sentAt: new Date(), error: null });
+    } catch (error: any) {
+      await storage.updateCampaignRecipient(recipient.id, { status: 'failed', error: error.message || 'Send failed' });
+    }
+  }
+
+  private async validateContent(agent: Agent, campaign: Campaign): Promise<void> {
+    if (campaign.channel === 'sms') {
+      if (!smsService.isConfigured(agent)) throw new CampaignError('SMS is not configured for this agent');
+      return;
+    }
+
+    if (!agent.whatsappAccessToken || !agent.whatsappPhoneNumberId) {
+      throw new CampaignError('WhatsApp Business API not configured for this agent');
+    }
+    const approved = (await storage.getWhatsappTemplatesByName(agent.id, campaign.templateName || ''))
+      .filter(template => template.status === 'APPROVED')
+      .filter(template => !campaign.templateLanguage || template.language === campaign.templateLanguage);
+    if (approved.length === 0) {
+      throw new CampaignError(`Template "${campaign.templateName}" has no approved translation${campaign.templateLanguage ? ` in ${campaign.templateLanguage}` : ''}; sync templates or pick another`);
+    }
+
+    // Placeholder values stand in for recipient variables; only the shape is checked here
+    const sample = fillVariables(campaign.templateParameters || {}, new Proxy({}, { get: () => 'x' }), new Set()) as TemplateParameters;
+    const problems: string[] = [];
+    approved.forEach(template => {
+      try {
+        buildTemplateComponents(template, sample);
+      } catch (error: any) {
+        problems.push(...(error.problems || [error.message]).map((problem: string) => `${template.language}: ${problem}`));
+      }
+    });
+    if (problems.length > 0) {
+      throw new CampaignError(`templateParameters do not match template "${campaign.templateName}"`, problems);
+    }
+  }
+
+  private matchesFilters(conversation: Conversation, filters: AudienceFilters, activeSince?: Date): boolean {
+    if (filters.platform && conversation.platform !== filters.platform) return false;
+    if (filters.status && conversation.status !== filters.status) return false;
+    if (filters.minScore !== undefined && (conversation.conversionScore ?? 0) < filters.minScore) return false;
+    if (activeSince && conversation.updatedAt < activeSince) return false;
+
+    const leadData = conversation.leadData || {};
+    return Object.entries(filters.leadData || {}).every(([key, value]) =>
+      leadData[key] !== undefined && leadData[key] !== null && String(leadData[key]).toLowerCase() === String(value).toLowerCase());
+  }
+
+  private remainingBudget(agentId: number, channel: CampaignChannel): number {
+    const since = Date.now() - 60000;
+    const key = `${agentId}:${channel}`;
+    const recent = (this.recentSends.get(key) || []).filter(time => time > since);
+    this.recentSends.set(key, recent);
+    return Math.max(0, RATE_LIMITS[channel] - recent.length);
+  }
+
+  private recordSend(agentId: number, channel: CampaignChannel): void {
+    const key = `${agentId}:${channel}`;
+    this.recentSends.set(key, [...(this.recentSends.get(key) || []), Date.now()]);
+  }
+
+  // Campaigns starting before the next regular poll are picked up on time
+  private schedulePoll(at: Date): void {
+    const wait = at.getTime() - Date.now();
+    if (!this.timer || wait >= POLL_INTERVAL_MS) return;
+    setTimeout(() => void this.poll(), Math.max(wait, 0)).unref();
+  }
+}
+
+export const campaignService = new CampaignService();
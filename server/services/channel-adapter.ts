@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { Agent, Conversation } from "@shared/schema";
+
+// A single inbound message normalized from any messaging platform payload
+export interface InboundMessage {
+  messageId: string;
+  senderId: string;
+  // Address replies are delivered to (chat ID, channel ID, PSID, phone number)
+  threadId: string;
+  // Stable key used to build the conversation session ID; defaults to senderId
+  sessionKey?: string;
+  senderName?: string;
+  text: string;
+  timestamp: string;
+  leadData?: Record<string, any>;
+  raw?: unknown;
+}
+
+export interface OutboundMessage {
+  to: string;
+  text: string;
+  // Suggested replies; adapters without buttons can ignore them or list them in the text
+  choices?: string[];
+  conversationId?: number;
+}
+
+export interface SendResult {
+  messageId?: string;
+  // Set when the adapter deliberately did not send, e.g. the recipient opted out
+  suppressed?: boolean;
+  // Name of the template sent instead of the text, e.g. outside WhatsApp's 24-hour window
+  template?: string;
+}
+
+// Confirmation an adapter sent in place of the bot's reply, e.g. for an opt-out keyword
+export interface KeywordReply {
+  text: string;
+  delivered: boolean;
+}
+
+export interface WebhookVerification {
+  verified: boolean;
+  challenge?: string;
+  reason?: string;
+}
+
+export interface WebhookRequest {
+  // Public URL the platform posted to, including the query string
+  url: string;
+  rawBody: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+}
+
+export interface WebhookAck {
+  contentType: string;
+  body: string;
+}
+
+export interface ContactProfile {
+  name?: string;
+  leadData?: Record<string, any>;
+}
+
+export interface ChannelAdapter<TPayload = any> {
+  readonly platform: string;
+  readonly displayName: string;
+
+  // Body returned to the platform once a delivery is accepted; defaults to a JSON status
+  readonly webhookAck?: WebhookAck;
+
+  // Whether the agent has the credentials needed to reply on this channel
+  isConfigured(agent: Agent): boolean;
+
+  // Turn a raw webhook payload into zero or more normalized messages
+  parseInbound(payload: TPayload, agent: Agent): InboundMessage[];
+
+  // Deliver a reply through the platform API; throws when delivery fails
+  sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult>;
+
+  // Answer the platform's subscription handshake (GET webhook), if it has one
+  verifyWebhook?(agent: Agent, query: Record<string, any>): WebhookVerification;
+
+  // Authenticate a webhook delivery against the agent's channel secret
+  verifySignature?(agent: Agent, request: WebhookRequest): boolean;
+
+  // Enrich a new conversation with platform profile data
+  lookupProfile?(agent: Agent, message: InboundMessage): Promise<ContactProfile>;
+
+  // Hook for platform bookkeeping once the conversation is known (receipts, message logs)
+  onInbound?(agent: Agent, message: InboundMessage, conversation: Conversation): Promise<void>;
+
+  // Answer compliance keywords (STOP/START) before routing; the bot does not see a message answered here
+  answerKeyword?(agent: Agent, message: InboundMessage, conversation: Conversation): Promise<KeywordReply | undefined>;
+
+  // Handle non-message events in the payload (delivery statuses, reads)
+  processEvents?(payload: TPayload, agent: Agent): Promise<void>;
+}
+
+// Meta platforms (WhatsApp, Messenger, Instagram) sign the raw body with the app secret
+// (hex HMAC-SHA256 in X-Hub-Signature-256, prefixed with "sha256=")
+export function verifyHubSignature(appSecret: string | null | undefined, request: WebhookRequest): boolean {
+  const signature = request.headers['x-hub-signature-256'];
+  if (!appSecret || typeof signature !== 'string') return false;
+
+  const expected = 'sha256=' + crypto
+    .createHmac('sha256', appSecret)
+    .update(request.rawBody)
+    .digest('hex');
+  const left = Buffer.from(signature);
+  const right = Buffer.from(expected);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
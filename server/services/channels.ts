@@ -0,0 +1,31 @@
+import type { ChannelAdapter } from "./channel-adapter";
+import { whatsappService } from "./whatsapp-business";
+import { telegramService } from "./telegram";
+import { facebookMessengerService } from "./facebook-messenger";
+import { instagramService } from "./instagram";
+import { discordService } from "./discord";
+import { lineService } from "./line";
+import { viberService } from "./viber";
+import { wechatWorkService } from "./wechat-work";
+import { smsService } from "./sms";
+
+// Registry of messaging platforms served by /webhook/:platform/:agentId
+const channelAdapters: Record<string, ChannelAdapter> = {
+  [whatsappService.platform]: whatsappService,
+  [telegramService.platform]: telegramService,
+  [facebookMessengerService.platform]: facebookMessengerService,
+  [instagramService.platform]: instagramService,
+  [discordService.platform]: discordService,
+  [lineService.platform]: lineService,
+  [viberService.platform]: viberService,
+  [wechatWorkService.platform]: wechatWorkService,
+  [smsService.platform]: smsService,
+};
+
+export function getChannelAdapter(platform: string): ChannelAdapter | undefined {
+  return channelAdapters[platform];
+}
+
+export function getChannelPlatforms(): string[] {
+  return Object.keys(channelAdapters);
+}
@@ -1,29 +1,58 @@
-import { Agent } from "@shared/schema";
+import { Agent, Conversation } from "@shared/schema";
 import { generateChatResponse } from "./llm-providers";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { callScheduler } from "./call-scheduler";
+import { callComplianceService } from "./call-compliance";
+import { handoffService } from "./handoff";
+import { mailService } from "./mail";
+import { evaluateExpression, upgradeLegacyCondition, validateExpression } from "@shared/flow-expressions";
 
 export interface FlowNode {
   id: string;
-  type: 'start' | 'message' | 'condition' | 'action' | 'end';
+  type: 'start' | 'message' | 'question' | 'condition' | 'action' | 'end';
   position: { x: number; y: number };
   data: {
     label?: string;
     message?: string;
+    // Question nodes store the validated answer in this flow variable
+    variable?: string;
+    validation?: QuestionValidation;
+    options?: string[];
     condition?: string;
     action?: string;
+    actionConfig?: {
+      to?: string;
+      subject?: string;
+      body?: string;
+      priority?: string;
+      fields?: string[];
+    };
     responses?: Array<{ text: string; nextNodeId: string }>;
     fallbackMessage?: string;
   };
 }
 
+export interface QuestionValidation {
+  type: 'text' | 'email' | 'phone' | 'number' | 'choice';
+  // Bounds for number answers
+  min?: number;
+  max?: number;
+}
+
 export interface FlowEdge {
   id: string;
   source: string;
   target: string;
   label?: string;
+  // Expression that must hold for the edge to be followed
+  condition?: string;
 }
 
 export interface ConversationContext {
   userId: string;
+  // Set when the flow runs for a stored conversation; actions that persist data need it
+  conversationId?: number;
   userName?: string;
   userInput: string;
   conversationCount: number;
@@ -31,78 +60,284 @@ export interface ConversationContext {
   leadData?: Record<string, any>;
 }
 
+// A validation problem tied to the node or edge the designer should highlight; warnings do not block saving
+export interface FlowDiagnostic {
+  severity: 'error' | 'warning';
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+export interface FlowValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  diagnostics: FlowDiagnostic[];
+}
+
+export const FLOW_NODE_TYPES: FlowNode['type'][] = ['start', 'message', 'question', 'condition', 'action', 'end'];
+
+export const FLOW_ACTIONS = ['save_lead_info', 'update_user_profile', 'send_email', 'create_ticket', 'record_call_consent', 'schedule_callback', 'transfer_to_human'];
+
+// Nodes that wait for the customer (or finish the flow), so cycles through them are fine
+const PAUSING_NODE_TYPES: FlowNode['type'][] = ['message', 'question', 'end'];
+
+export type FlowState = NonNullable<Conversation['flowState']>;
+
+export interface FlowRunOptions {
+  // Record action nodes without running them, for the simulator
+  dryRun?: boolean;
+  // Reply used instead of calling the LLM when the flow falls back to AI
+  stubFallbackReply?: string;
+}
+
+// What the flow did while handling one message
+export interface FlowTrace {
+  // Nodes executed, in order
+  path: string[];
+  actions: Array<{ nodeId: string; action: string; dryRun: boolean }>;
+  usedFallback: boolean;
+}
+
+export interface FlowResult {
+  message: string;
+  // Replies offered with the message; channels that support it show them as buttons
+  choices?: string[];
+  nextNodeId?: string;
+  shouldEndFlow?: boolean;
+  // Position to resume from on the conversation's next message
+  state: FlowState;
+  trace: FlowTrace;
+}
+
+interface FlowRun extends FlowTrace {
+  options: FlowRunOptions;
+}
+
+// Where a conversation currently sits in its agent's flow, for debugging
+export interface FlowPosition {
+  currentNodeId: string | null;
+  nodeType?: FlowNode['type'];
+  nodeLabel?: string;
+  variables: Record<string, any>;
+  ended: boolean;
+  startedAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+const DEFAULT_FLOW_TIMEOUT_MINUTES = 30;
+
+// Guards against condition and action nodes that loop back on each other
+const MAX_NODES_PER_MESSAGE = 50;
+
+// Action names used by earlier versions of the flow designer
+const ACTION_ALIASES: Record<string, string> = {
+  save_lead: 'save_lead_info',
+  schedule_call: 'schedule_callback',
+  transfer_human: 'transfer_to_human'
+};
+
+const TICKET_PRIORITIES = ['low', 'normal', 'high', 'urgent'];
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+// Edge labels that pick the branch of a condition node
+const TRUE_BRANCH_LABELS = ['true', 'yes'];
+const FALSE_BRANCH_LABELS = ['false', 'no'];
+
+// Lower-cased words of a label or message, ignoring punctuation
+function labelWords(text: string): string[] {
+  return text.toLowerCase().split(/[\s.,!?;:"()\[\]{}¡¿…-]+/).filter(Boolean);
+}
+
 export class ConversationFlowService {
   
   async executeFlow(
     agent: Agent, 
-    context: ConversationContext
-  ): Promise<{ message: string; nextNodeId?: string; shouldEndFlow?: boolean }> {
+    context: ConversationContext,
+    previousState?: FlowState | null,
+    options: FlowRunOptions = {}
+  ): Promise<FlowResult> {
+    const now = new Date().toISOString();
+    const run: FlowRun = { options, path: [], actions: [], usedFallback: false };
+    const trace = (): FlowTrace => ({ path: run.path, actions: run.actions, usedFallback: run.usedFallback });
     
     if (!agent.flowEnabled || !agent.conversationFlow) {
       // Fall back to traditional AI response
-      return await this.fallbackToAI(agent, context);
+      const result = await this.fallbackToAI(agent, context, run);
+      return { ...result, state: { currentNodeId: null, variables: context.variables, startedAt: now, updatedAt: now }, trace: trace() };
     }
 
     const flow = agent.conversationFlow;
     const startNode = flow.nodes.find(node => node.type === 'start');
     
     if (!startNode) {
-      return await this.fallbackToAI(agent, context);
+      const result = await this.fallbackToAI(agent, context, run);
+      return { ...result, state: { currentNodeId: null, variables: context.variables, startedAt: now, updatedAt: now }, trace: trace() };
     }
 
-    // Find the next node to execute
-    let currentNode = this.findNextNode(flow, startNode.id, context);
-    
-    return await this.executeNode(currentNode, flow, context, agent);
+    const resumable = previousState && !this.isExpired(previousState, flow) ? previousState : null;
+    const resumeNodeId = resumable?.currentNodeId && flow.nodes.some(node => node.id === resumable.currentNodeId)
+      ? resumable.currentNodeId
+      : null;
+
+    // Variables carry over while the flow is live; declared defaults fill the gaps
+    const defaults: Record<string, any> = {};
+    for (const variable of flow.variables || []) {
+      if (variable.defaultValue !== undefined) defaults[variable.name] = variable.defaultValue;
+    }
+    context.variables = { ...defaults, ...(resumable?.variables || {}), ...context.variables };
+
+    const startedAt = resumable?.startedAt || now;
+
+    // A finished flow hands over to the AI until the timeout restarts it
+    if (resumable?.ended) {
+      const result = await this.fallbackToAI(agent, context, run);
+      return { ...result, state: { ...resumable, variables: context.variables, updatedAt: now }, trace: trace() };
+    }
+
+    // A paused question only moves on once the answer passes validation
+    const questionNode = flow.nodes.find(node => node.id === resumeNodeId && node.type === 'question') as FlowNode | undefined;
+    let result: { message: string; choices?: string[]; nextNodeId?: string; shouldEndFlow?: boolean };
+    const answer = questionNode ? this.captureAnswer(questionNode, context.userInput) : undefined;
+    if (questionNode && answer && !answer.valid) {
+      result = {
+        message: this.interpolateMessage(questionNode.data.fallbackMessage || this.defaultRetryMessage(questionNode), context),
+        choices: this.choicesFor(questionNode),
+        nextNodeId: questionNode.id
+      };
+    } else {
+      if (questionNode && answer && questionNode.data.variable) {
+        context.variables[questionNode.data.variable] = answer.value;
+      }
+
+      // A reply picked from a message node's responses goes straight to that response's node
+      const messageNode = flow.nodes.find(node => node.id === resumeNodeId && node.type === 'message') as FlowNode | undefined;
+      const picked = messageNode ? this.matchResponse(messageNode, context.userInput) : undefined;
+
+      // Find the next node to execute
+      const currentNode = picked
+        ? (flow.nodes.find(node => node.id === picked.nextNodeId) as FlowNode | undefined) || null
+        : this.findNextNode(flow, resumeNodeId || startNode.id, context);
+      result = await this.executeNode(currentNode, flow, context, agent, run);
+    }
+
+    return {
+      ...result,
+      state: {
+        // A finished flow keeps pointing at its end node so the position stays explainable
+        currentNodeId: result.nextNodeId || (result.shouldEndFlow ? run.path[run.path.length - 1] : null) || null,
+        variables: context.variables,
+        startedAt,
+        updatedAt: now,
+        // Pausing on a node without outgoing edges also finishes the flow
+        ended: !!result.shouldEndFlow || !result.nextNodeId
+      },
+      trace: trace()
+    };
   }
 
-  private findNextNode(flow: any, currentNodeId: string, context: ConversationContext): FlowNode | null {
+  // Run the flow from where this conversation left off and store the new position
+  async executeForConversation(agent: Agent, conversation: Conversation, context: ConversationContext): Promise<FlowResult> {
+    context.conversationId = conversation.id;
+    const result = await this.executeFlow(agent, context, conversation.flowState);
+    await storage.updateConversation(conversation.id, {
+      flowState: result.state,
+      // Lets regressions be traced back to the flow edit that was live at the time
+      ...(agent.flowEnabled && agent.publishedFlowVersionId ? { flowVersionId: agent.publishedFlowVersionId } : {})
+    });
+    return result;
+  }
+
+  getPosition(agent: Agent, conversation: Conversation): FlowPosition | null {
+    const state = conversation.flowState;
+    if (!state) return null;
+
+    const node = agent.conversationFlow?.nodes.find(n => n.id === state.currentNodeId);
+    const timeoutMs = this.getTimeoutMinutes(agent.conversationFlow) * 60000;
+    return {
+      currentNodeId: state.currentNodeId,
+      nodeType: node?.type,
+      nodeLabel: node?.data.label || node?.data.message,
+      variables: state.variables,
+      ended: !!state.ended,
+      startedAt: state.startedAt,
+      updatedAt: state.updatedAt,
+      expiresAt: new Date(new Date(state.updatedAt).getTime() + timeoutMs).toISOString()
+    };
+  }
+
+  private getTimeoutMinutes(flow: Agent['conversationFlow']): number {
+    return flow?.timeoutMinutes && flow.timeoutMinutes > 0 ? flow.timeoutMinutes : DEFAULT_FLOW_TIMEOUT_MINUTES;
+  }
+
+  private isExpired(state: FlowState, flow: Agent['conversationFlow']): boolean {
+    return Date.now() - new Date(state.updatedAt).getTime() > this.getTimeoutMinutes(flow) * 60000;
+  }
+
+  // conditionResult is set when leaving a condition node and selects its true/false branch
+  private findNextNode(flow: any, currentNodeId: string, context: ConversationContext, conditionResult?: boolean): FlowNode | null {
     // Get all edges from current node
-    const outgoingEdges = flow.edges.filter((edge: FlowEdge) => edge.source === currentNodeId);
-    
+    const outgoingEdges: FlowEdge[] = flow.edges.filter((edge: FlowEdge) => edge.source === currentNodeId);
+    const nodeFor = (edge: FlowEdge): FlowNode | null =>
+      flow.nodes.find((node: FlowNode) => node.id === edge.target) || null;
+
     if (outgoingEdges.length === 0) {
       return null;
     }
 
-    // If only one edge, follow it
-    if (outgoingEdges.length === 1) {
-      return flow.nodes.find((node: FlowNode) => node.id === outgoingEdges[0].target);
+    if (conditionResult !== undefined) {
+      const branchLabels = conditionResult ? TRUE_BRANCH_LABELS : FALSE_BRANCH_LABELS;
+      const branch = outgoingEdges.find(edge => !edge.condition && branchLabels.includes((edge.label || '').trim().toLowerCase()));
+      if (branch) return nodeFor(branch);
     }
 
-    // Multiple edges - need to evaluate conditions
+    // Edges with expressions are tried in order
     for (const edge of outgoingEdges) {
-      if (this.evaluateEdgeCondition(edge, context)) {
-        return flow.nodes.find((node: FlowNode) => node.id === edge.target);
+      if (edge.condition && this.evaluateCondition(edge.condition, context)) {
+        return nodeFor(edge);
       }
     }
 
-    // No conditions matched, take first edge as fallback
-    return flow.nodes.find((node: FlowNode) => node.id === outgoingEdges[0].target);
-  }
-
-  private evaluateEdgeCondition(edge: FlowEdge, context: ConversationContext): boolean {
-    if (!edge.label) return true;
-
-    const condition = edge.label.toLowerCase();
-    const userInput = context.userInput.toLowerCase();
-
-    // Simple condition evaluation
-    if (condition.includes('yes') && (userInput.includes('yes') || userInput.includes('yeah') || userInput.includes('sure'))) {
-      return true;
+    // The other branch of a condition node is never a fallback
+    const otherBranchLabels = conditionResult === undefined ? [] : conditionResult ? FALSE_BRANCH_LABELS : TRUE_BRANCH_LABELS;
+    const unconditional = outgoingEdges.filter(edge => !edge.condition && !otherBranchLabels.includes((edge.label || '').trim().toLowerCase()));
+    if (unconditional.length === 0) {
+      return null;
     }
-    
-    if (condition.includes('no') && (userInput.includes('no') || userInput.includes('nope') || userInput.includes('not'))) {
-      return true;
+
+    // If only one edge, follow it
+    if (unconditional.length === 1) {
+      return nodeFor(unconditional[0]);
     }
 
-    if (condition.includes('help') && userInput.includes('help')) {
-      return true;
+    // Several edges without expressions: labels written as the older conditions are evaluated,
+    // other labels must appear as whole words in the customer's message
+    const labelled = unconditional.filter(edge => edge.label?.trim());
+    for (const edge of labelled) {
+      if (this.matchesLabel(edge.label!, context)) {
+        return nodeFor(edge);
+      }
     }
 
-    if (condition.includes('buy') && (userInput.includes('buy') || userInput.includes('purchase') || userInput.includes('order'))) {
-      return true;
+    // Nothing matched: an unlabelled edge is the default, else the first edge
+    return nodeFor(unconditional.find(edge => !edge.label?.trim()) || unconditional[0]);
+  }
+
+  private matchesLabel(label: string, context: ConversationContext): boolean {
+    const upgraded = upgradeLegacyCondition(label);
+    if (upgraded !== label) {
+      return this.evaluateCondition(upgraded, context);
     }
 
+    const needle = labelWords(label);
+    const words = labelWords(context.userInput);
+    if (needle.length === 0) return false;
+    for (let start = 0; start + needle.length <= words.length; start++) {
+      if (needle.every((word, offset) => words[start + offset] === word)) return true;
+    }
     return false;
   }
 
@@ -110,26 +345,41 @@ export class ConversationFlowService {
     node: FlowNode | null, 
     flow: any, 
     context: ConversationContext, 
-    agent: Agent
-  ): Promise<{ message: string; nextNodeId?: string; shouldEndFlow?: boolean }> {
+    agent: Agent,
+    run: FlowRun
+  ): Promise<{ message: string; choices?: string[]; nextNodeId?: string; shouldEndFlow?: boolean }> {
     
     if (!node) {
-      return await this.fallbackToAI(agent, context);
+      return await this.fallbackToAI(agent, context, run);
+    }
+
+    if (run.path.length >= MAX_NODES_PER_MESSAGE) {
+      console.error(`Conversation flow for agent ${agent.id} did not reach a message after ${run.path.length} nodes`);
+      return await this.fallbackToAI(agent, context, run);
     }
+    run.path.push(node.id);
 
     switch (node.type) {
       case 'message':
         return {
           message: this.interpolateMessage(node.data.message || 'Hello!', context),
+          choices: this.choicesFor(node),
+          nextNodeId: node.id
+        };
+
+      case 'question':
+        return {
+          message: this.interpolateMessage(node.data.message || `What is your ${(node.data.variable || 'answer').replace(/_/g, ' ')}?`, context),
+          choices: this.choicesFor(node),
           nextNodeId: node.id
         };
 
       case 'condition':
         const conditionResult = this.evaluateCondition(node.data.condition || '', context);
-        const nextNode = this.findNextNode(flow, node.id, context);
+        const nextNode = this.findNextNode(flow, node.id, context, conditionResult);
         
         if (nextNode) {
-          return await this.executeNode(nextNode, flow, context, agent);
+          return await this.executeNode(nextNode, flow, context, agent, run);
         }
         
         return {
@@ -138,11 +388,11 @@ export class ConversationFlowService {
         };
 
       case 'action':
-        await this.executeAction(node.data.action || '', context, agent);
+        await this.executeAction(node, context, agent, run);
         const nextAfterAction = this.findNextNode(flow, node.id, context);
         
         if (nextAfterAction) {
-          return await this.executeNode(nextAfterAction, flow, context, agent);
+          return await this.executeNode(nextAfterAction, flow, context, agent, run);
         }
         
         return {
@@ -152,107 +402,303 @@ export class ConversationFlowService {
 
       case 'end':
         return {
-          message: node.data.message || 'Thank you for the conversation!',
+          message: this.interpolateMessage(node.data.message || 'Thank you for the conversation!', context),
           shouldEndFlow: true
         };
 
       default:
-        return await this.fallbackToAI(agent, context);
+        return await this.fallbackToAI(agent, context, run);
     }
   }
 
+  // Flow variables fill {var_name}; unknown placeholders are left as written
   private interpolateMessage(message: string, context: ConversationContext): string {
     return message
       .replace(/\{user_name\}/g, context.userName || 'there')
       .replace(/\{user_input\}/g, context.userInput)
-      .replace(/\{conversation_count\}/g, context.conversationCount.toString());
+      .replace(/\{conversation_count\}/g, context.conversationCount.toString())
+      .replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (placeholder, name) => {
+        const value = Object.prototype.hasOwnProperty.call(context.variables, name) ? context.variables[name] : undefined;
+        return value === undefined || value === null ? placeholder : String(value);
+      });
   }
 
-  private evaluateCondition(condition: string, context: ConversationContext): boolean {
-    try {
-      const userInput = context.userInput.toLowerCase();
-      
-      // Simple condition parser
-      if (condition.includes('contains')) {
-        const match = condition.match(/contains\s+["']([^"']+)["']/);
-        if (match) {
-          return userInput.includes(match[1].toLowerCase());
-        }
+  // A message node's responses or a choice question's options; undefined when the node offers none
+  private choicesFor(node: FlowNode): string[] | undefined {
+    const choices = node.type === 'message'
+      ? (node.data.responses || []).map(response => response.text)
+      : node.data.validation?.type === 'choice' ? node.data.options || [] : [];
+    const offered = choices.map(choice => choice.trim()).filter(Boolean);
+    return offered.length > 0 ? offered : undefined;
+  }
+
+  // Matches the reply text, or its position in the list ("2"), to one of the node's responses
+  private matchResponse(node: FlowNode, input: string): { text: string; nextNodeId: string } | undefined {
+    const responses = (node.data.responses || []).filter(response => response.text.trim() && response.nextNodeId);
+    const answer = input.trim().toLowerCase();
+    const position = /^\d+$/.test(answer) ? parseInt(answer, 10) : 0;
+    return responses[position - 1] || responses.find(response => response.text.trim().toLowerCase() === answer);
+  }
+
+  // Checks a reply to a question node and normalises it, e.g. "+1 (555) 010-9999" -> "+15550109999"
+  private captureAnswer(node: FlowNode, input: string): { valid: boolean; value?: string | number } {
+    const answer = input.trim();
+    if (!answer) return { valid: false };
+
+    const validation = node.data.validation || { type: 'text' };
+    switch (validation.type) {
+      case 'email':
+        return EMAIL_PATTERN.test(answer) ? { valid: true, value: answer.toLowerCase() } : { valid: false };
+
+      case 'phone': {
+        const phone = answer.replace(/[\s().-]/g, '');
+        return /^\+?\d{7,15}$/.test(phone) ? { valid: true, value: phone } : { valid: false };
       }
 
-      if (condition.includes('equals')) {
-        const match = condition.match(/equals\s+["']([^"']+)["']/);
-        if (match) {
-          return userInput.trim() === match[1].toLowerCase();
-        }
+      case 'number': {
+        const match = answer.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+        const value = match ? parseFloat(match[0]) : NaN;
+        if (isNaN(value)) return { valid: false };
+        if (validation.min !== undefined && value < validation.min) return { valid: false };
+        if (validation.max !== undefined && value > validation.max) return { valid: false };
+        return { valid: true, value };
       }
 
-      if (condition.includes('length >')) {
-        const match = condition.match(/length\s*>\s*(\d+)/);
-        if (match) {
-          return userInput.length > parseInt(match[1]);
-        }
+      case 'choice': {
+        const options = node.data.options || [];
+        // Accept the option text or its 1-based position in the list
+        const position = /^\d+$/.test(answer) ? parseInt(answer) : NaN;
+        const option = options[position - 1] || options.find(o => o.trim().toLowerCase() === answer.toLowerCase());
+        return option ? { valid: true, value: option } : { valid: false };
       }
 
-      return false;
+      default:
+        return { valid: true, value: answer };
+    }
+  }
+
+  private defaultRetryMessage(node: FlowNode): string {
+    const validation = node.data.validation || { type: 'text' };
+    switch (validation.type) {
+      case 'email':
+        return 'That doesn\'t look like an email address. Could you check it and send it again?';
+      case 'phone':
+        return 'Please send a phone number with country code, for example +14155550123.';
+      case 'number':
+        if (validation.min !== undefined && validation.max !== undefined) {
+          return `Please reply with a number between ${validation.min} and ${validation.max}.`;
+        }
+        return 'Please reply with a number.';
+      case 'choice':
+        return `Please choose one of: ${(node.data.options || []).join(', ')}.`;
+      default:
+        return 'Sorry, I didn\'t catch that. Could you answer again?';
+    }
+  }
+
+  private evaluateCondition(condition: string, context: ConversationContext): boolean {
+    if (!condition.trim()) return false;
+
+    try {
+      return evaluateExpression(condition, {
+        userInput: context.userInput,
+        userName: context.userName,
+        conversationCount: context.conversationCount,
+        variables: context.variables,
+        leadData: context.leadData
+      });
     } catch (error) {
       console.error('Error evaluating condition:', error);
       return false;
     }
   }
 
-  private async executeAction(action: string, context: ConversationContext, agent: Agent): Promise<void> {
-    switch (action) {
-      case 'save_lead_info':
-        // Save lead information
-        console.log('Saving lead info for user:', context.userId);
-        break;
-
-      case 'send_email':
-        // Send email notification
-        console.log('Sending email for user:', context.userId);
-        break;
-
-      case 'create_ticket':
-        // Create support ticket
-        console.log('Creating support ticket for user:', context.userId);
-        break;
-
-      case 'schedule_callback':
-        // Schedule callback
-        console.log('Scheduling callback for user:', context.userId);
-        break;
-
-      case 'transfer_to_human':
-        // Transfer to human agent
-        console.log('Transferring to human for user:', context.userId);
-        break;
-
-      case 'update_user_profile':
-        // Update user profile
-        console.log('Updating user profile for user:', context.userId);
-        break;
+  // Failed actions are logged and the flow carries on, so a customer is never left without a reply
+  private async executeAction(node: FlowNode, context: ConversationContext, agent: Agent, run: FlowRun): Promise<void> {
+    const action = ACTION_ALIASES[node.data.action || ''] || node.data.action || '';
+    const config = node.data.actionConfig || {};
 
-      default:
-        console.log('Unknown action:', action);
+    run.actions.push({ nodeId: node.id, action, dryRun: !!run.options.dryRun });
+    if (run.options.dryRun) return;
+
+    try {
+      let details: Record<string, any>;
+      switch (action) {
+        case 'save_lead_info':
+          details = await this.saveLeadData(context, config.fields);
+          break;
+
+        case 'update_user_profile':
+          details = await this.saveLeadData(context, config.fields, context.userName ? { name: context.userName } : {});
+          break;
+
+        case 'send_email':
+          details = await this.sendEmail(agent, context, config);
+          break;
+
+        case 'create_ticket':
+          details = await this.createTicket(agent, context, config);
+          break;
+
+        case 'record_call_consent':
+          details = await this.recordCallConsent(agent, context, config);
+          break;
+
+        case 'schedule_callback':
+          details = await this.scheduleCallback(agent, context, config);
+          break;
+
+        case 'transfer_to_human':
+          details = await this.transferToHuman(context);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${action || '(none)'}`);
+      }
+
+      await logger.logAgent(`flow_action_${action}`, undefined, agent.id, true, {
+        nodeId: node.id,
+        conversationId: context.conversationId,
+        ...details
+      });
+    } catch (error) {
+      await logger.logError(error as Error, `flow_action_${action || 'unknown'}`, undefined, agent.id, {
+        nodeId: node.id,
+        conversationId: context.conversationId
+      });
     }
   }
 
-  private async fallbackToAI(agent: Agent, context: ConversationContext): Promise<{ message: string; nextNodeId?: string; shouldEndFlow?: boolean }> {
-    try {
-      const messages = [
-        { role: 'user', content: context.userInput, timestamp: new Date().toISOString() }
-      ];
+  private async requireConversation(context: ConversationContext) {
+    const conversation = context.conversationId ? await storage.getConversation(context.conversationId) : undefined;
+    if (!conversation) {
+      throw new Error('This action needs a stored conversation');
+    }
+    return conversation;
+  }
+
+  // Copy flow variables (all, or only the listed ones) into the conversation's lead data
+  private async saveLeadData(context: ConversationContext, fields?: string[], extra: Record<string, any> = {}): Promise<Record<string, any>> {
+    const conversation = await this.requireConversation(context);
+
+    const values: Record<string, any> = { ...extra };
+    for (const [key, value] of Object.entries(context.variables)) {
+      if ((!fields || fields.length === 0 || fields.includes(key)) && value !== undefined && value !== '') {
+        values[key] = value;
+      }
+    }
 
-      const aiResponse = await generateChatResponse(
-        agent.llmProvider,
-        agent.model || 'gpt-4o',
-        agent.systemPrompt,
-        messages
-      );
+    const leadData = { ...conversation.leadData, ...values };
+    await storage.updateConversation(conversation.id, { leadData });
+    context.leadData = leadData;
+    return { fields: Object.keys(values) };
+  }
+
+  private async sendEmail(agent: Agent, context: ConversationContext, config: NonNullable<FlowNode['data']['actionConfig']>): Promise<Record<string, any>> {
+    let to = config.to ? this.interpolateMessage(config.to, context).trim() : agent.contactInfo?.email;
+    if (!to && agent.userId) {
+      to = (await storage.getUserById(agent.userId))?.email;
+    }
+    if (!to) {
+      throw new Error('No email recipient; set one on the action or in the agent contact info');
+    }
+
+    const leadData = context.leadData || {};
+    const defaultBody = [
+      `Conversation flow "${agent.name}" sent this notification.`,
+      '',
+      `Customer: ${context.userName || leadData.name || 'Unknown'}`,
+      `Last message: ${context.userInput}`,
+      ...Object.entries({ ...leadData, ...context.variables })
+        .filter(([, value]) => value !== null && value !== undefined && value !== '')
+        .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+    ].join('\n');
+
+    const messageId = mailService.enqueue({
+      to,
+      subject: this.interpolateMessage(config.subject || `New lead from ${agent.name}: {user_name}`, context),
+      text: config.body ? this.interpolateMessage(config.body, context) : defaultBody,
+      replyTo: typeof leadData.email === 'string' && leadData.email ? leadData.email : undefined,
+      agentId: agent.id
+    });
+    return { messageId, to };
+  }
+
+  private async createTicket(agent: Agent, context: ConversationContext, config: NonNullable<FlowNode['data']['actionConfig']>): Promise<Record<string, any>> {
+    const priority = TICKET_PRIORITIES.includes(config.priority || '') ? config.priority! : 'normal';
+    const ticket = await storage.createSupportTicket({
+      agentId: agent.id,
+      conversationId: context.conversationId,
+      subject: this.interpolateMessage(config.subject || 'Support request from {user_name}', context),
+      description: this.interpolateMessage(config.body || '{user_input}', context),
+      priority,
+      contact: context.leadData || {}
+    });
+
+    // Lets later nodes refer to the ticket, e.g. in a confirmation message
+    context.variables.ticket_id = ticket.id;
+    return { ticketId: ticket.id, priority };
+  }
+
+  // Place after the customer has said yes; body is the wording they agreed to
+  private async recordCallConsent(agent: Agent, context: ConversationContext, config: NonNullable<FlowNode['data']['actionConfig']>): Promise<Record<string, any>> {
+    const phoneNumber = context.variables.phone || context.leadData?.phone;
+    if (!phoneNumber) {
+      throw new Error('No phone number in the flow variables or lead data');
+    }
+    if (!config.body) {
+      throw new Error('record_call_consent needs the consent wording in body');
+    }
+
+    const consent = await callComplianceService.recordConsent({
+      agent,
+      phoneNumber: String(phoneNumber),
+      source: 'conversation_flow',
+      consentText: this.interpolateMessage(config.body, context),
+      conversationId: context.conversationId,
+      timezone: typeof context.variables.timezone === 'string' ? context.variables.timezone : undefined
+    });
+    context.variables.call_consent_id = consent.id;
+    return { consentId: consent.id };
+  }
+
+  private async scheduleCallback(agent: Agent, context: ConversationContext, config: NonNullable<FlowNode['data']['actionConfig']>): Promise<Record<string, any>> {
+    const phoneNumber = context.variables.phone || context.leadData?.phone;
+    if (!phoneNumber) {
+      throw new Error('No phone number in the flow variables or lead data');
+    }
+
+    const call = await callScheduler.scheduleCall({
+      agentId: agent.id,
+      conversationId: context.conversationId,
+      phoneNumber: String(phoneNumber),
+      triggerReason: config.body ? this.interpolateMessage(config.body, context) : 'Callback requested in conversation flow',
+      triggeredBy: 'conversation_flow'
+    });
+    context.variables.callback_call_id = call.id;
+    return { scheduledCallId: call.id, scheduledFor: call.scheduledFor.toISOString() };
+  }
+
+  private async transferToHuman(context: ConversationContext): Promise<Record<string, any>> {
+    const conversation = await this.requireConversation(context);
+    await handoffService.requestHandoff(conversation, 'flow_action');
+    return {};
+  }
+
+  private async fallbackToAI(agent: Agent, context: ConversationContext, run: FlowRun): Promise<{ message: string; nextNodeId?: string; shouldEndFlow?: boolean }> {
+    run.usedFallback = true;
+    if (run.options.stubFallbackReply !== undefined) {
+      return { message: run.options.stubFallbackReply, shouldEndFlow: false };
+    }
+
+    try {
+      const aiResponse = await generateChatResponse([
+        { role: 'system', content: agent.systemPrompt },
+        { role: 'user', content: context.userInput }
+      ], agent.llmProvider);
 
       return {
-        message: aiResponse,
+        message: aiResponse.content,
         shouldEndFlow: false
       };
     } catch (error) {
@@ -264,53 +710,237 @@ export class ConversationFlowService {
     }
   }
 
-  validateFlow(flow: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    if (!flow.nodes || !Array.isArray(flow.nodes)) {
-      errors.push('Flow must have a nodes array');
-      return { isValid: false, errors };
+  validateFlow(flow: any): FlowValidationResult {
+    const diagnostics: FlowDiagnostic[] = [];
+    const error = (message: string, target: { nodeId?: string; edgeId?: string } = {}) =>
+      diagnostics.push({ severity: 'error', ...target, message });
+    const warning = (message: string, target: { nodeId?: string; edgeId?: string } = {}) =>
+      diagnostics.push({ severity: 'warning', ...target, message });
+
+    if (!flow || !Array.isArray(flow.nodes)) {
+      error('Flow must have a nodes array');
+    } else if (!Array.isArray(flow.edges)) {
+      error('Flow must have an edges array');
+    } else {
+      this.checkNodes(flow.nodes, error);
+      this.checkGraph(flow.nodes, flow.edges, error, warning);
+      this.checkExpressions(flow.nodes, flow.edges, error);
     }
 
-    if (!flow.edges || !Array.isArray(flow.edges)) {
-      errors.push('Flow must have an edges array');
-      return { isValid: false, errors };
+    const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: diagnostics.filter(d => d.severity === 'warning').map(d => d.message),
+      diagnostics
+    };
+  }
+
+  private describeNode(node: FlowNode): string {
+    return `${node.type || 'node'} "${node.data?.label || node.id}"`;
+  }
+
+  private checkNodes(nodes: FlowNode[], error: (message: string, target?: { nodeId?: string }) => void): void {
+    const seen = new Set<string>();
+    for (const node of nodes) {
+      if (!node || typeof node.id !== 'string' || !node.id) {
+        error('Every node needs a string id');
+        continue;
+      }
+      if (seen.has(node.id)) {
+        error(`Node id "${node.id}" is used more than once`, { nodeId: node.id });
+      }
+      seen.add(node.id);
+
+      if (!FLOW_NODE_TYPES.includes(node.type)) {
+        error(`Node "${node.id}" has unknown type "${node.type}"`, { nodeId: node.id });
+        continue;
+      }
+
+      if (node.type === 'action') {
+        const action = ACTION_ALIASES[node.data?.action || ''] || node.data?.action;
+        if (!action) {
+          error(`${this.describeNode(node)} has no action selected`, { nodeId: node.id });
+        } else if (!FLOW_ACTIONS.includes(action)) {
+          error(`${this.describeNode(node)} uses unknown action "${action}"`, { nodeId: node.id });
+        } else if (action === 'record_call_consent' && !node.data.actionConfig?.body?.trim()) {
+          error(`${this.describeNode(node)} needs the consent wording the customer agrees to`, { nodeId: node.id });
+        }
+      }
+
+      if (node.type === 'question') {
+        const name = node.data?.label || node.id;
+        if (!node.data?.variable || !VARIABLE_NAME_PATTERN.test(node.data.variable)) {
+          error(`Question "${name}": variable name must be letters, digits and underscores`, { nodeId: node.id });
+        }
+        const validation = node.data?.validation;
+        if (validation?.type === 'choice' && !(node.data.options || []).some(option => option.trim())) {
+          error(`Question "${name}": choice questions need at least one option`, { nodeId: node.id });
+        }
+        if (validation?.type === 'number' && validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+          error(`Question "${name}": minimum is greater than maximum`, { nodeId: node.id });
+        }
+      }
     }
 
-    // Check for start node
-    const startNodes = flow.nodes.filter((node: FlowNode) => node.type === 'start');
+    const startNodes = nodes.filter(node => node?.type === 'start');
     if (startNodes.length === 0) {
-      errors.push('Flow must have at least one start node');
+      error('Flow must have a start node');
     } else if (startNodes.length > 1) {
-      errors.push('Flow can only have one start node');
+      startNodes.forEach(node => error('Flow can only have one start node', { nodeId: node.id }));
     }
+  }
 
-    // Check for orphaned nodes
-    const nodeIds = flow.nodes.map((node: FlowNode) => node.id);
-    const connectedNodes = new Set([
-      ...flow.edges.map((edge: FlowEdge) => edge.source),
-      ...flow.edges.map((edge: FlowEdge) => edge.target)
-    ]);
+  private checkGraph(
+    nodes: FlowNode[],
+    edges: FlowEdge[],
+    error: (message: string, target?: { nodeId?: string; edgeId?: string }) => void,
+    warning: (message: string, target?: { nodeId?: string; edgeId?: string }) => void
+  ): void {
+    const nodesById = new Map<string, FlowNode>();
+    nodes.forEach(node => { if (node?.id) nodesById.set(node.id, node); });
+
+    const outgoing = new Map<string, FlowEdge[]>();
+    for (const edge of edges) {
+      const missing = [edge.source, edge.target].filter(id => !nodesById.has(id));
+      if (missing.length > 0) {
+        error(`Edge "${edge.id}" points to missing node ${missing.map(id => `"${id}"`).join(' and ')}`, { edgeId: edge.id });
+        continue;
+      }
+      if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+      outgoing.get(edge.source)!.push(edge);
+    }
 
-    const orphanedNodes = nodeIds.filter(id => !connectedNodes.has(id) && flow.nodes.find((n: FlowNode) => n.id === id)?.type !== 'start');
-    if (orphanedNodes.length > 0) {
-      errors.push(`Orphaned nodes found: ${orphanedNodes.join(', ')}`);
+    // Message node responses jump straight to their node, like an edge
+    const responseTargets = new Map<string, string[]>();
+    for (const node of nodes) {
+      if (node?.type !== 'message') continue;
+      (node.data?.responses || []).forEach(response => {
+        if (!nodesById.has(response.nextNodeId)) {
+          error(`${this.describeNode(node)}: response "${response.text}" points to missing node "${response.nextNodeId}"`, { nodeId: node.id });
+          return;
+        }
+        if (!responseTargets.has(node.id)) responseTargets.set(node.id, []);
+        responseTargets.get(node.id)!.push(response.nextNodeId);
+      });
     }
 
-    // Check for invalid edge references
-    for (const edge of flow.edges) {
-      if (!nodeIds.includes(edge.source)) {
-        errors.push(`Edge references non-existent source node: ${edge.source}`);
+    // Reachability from the start node
+    const start = nodes.find(node => node?.type === 'start');
+    if (start) {
+      const reached = new Set<string>([start.id]);
+      const queue = [start.id];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        const targets = (outgoing.get(current) || []).map(edge => edge.target).concat(responseTargets.get(current) || []);
+        for (const target of targets) {
+          if (!reached.has(target)) {
+            reached.add(target);
+            queue.push(target);
+          }
+        }
       }
-      if (!nodeIds.includes(edge.target)) {
-        errors.push(`Edge references non-existent target node: ${edge.target}`);
+      nodes
+        .filter(node => node?.id && !reached.has(node.id))
+        .forEach(node => warning(`${this.describeNode(node)} can never be reached from the start node`, { nodeId: node.id }));
+    }
+
+    // Condition nodes need somewhere to go when the condition is false
+    for (const node of nodes) {
+      if (node?.type !== 'condition') continue;
+      const hasDefault = (outgoing.get(node.id) || [])
+        .some(edge => !edge.condition && !TRUE_BRANCH_LABELS.includes((edge.label || '').trim().toLowerCase()));
+      if (!hasDefault) {
+        warning(`${this.describeNode(node)} has no "No" or unlabelled edge; the AI answers when it is false`, { nodeId: node.id });
       }
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors
+    // Where a label picks between edges it is only matched word for word, so "Yes" misses "sure"
+    outgoing.forEach((sourceEdges, source) => {
+      const branchLabels = nodesById.get(source)?.type === 'condition' ? TRUE_BRANCH_LABELS.concat(FALSE_BRANCH_LABELS) : [];
+      const unconditional = sourceEdges.filter(edge => !edge.condition && !branchLabels.includes((edge.label || '').trim().toLowerCase()));
+      if (unconditional.length < 2) return;
+      unconditional
+        .filter(edge => edge.label?.trim() && upgradeLegacyCondition(edge.label) === edge.label)
+        .forEach(edge => warning(
+          `Edge ${edge.source} -> ${edge.target}: label "${edge.label}" only matches messages containing those words; give the edge a condition expression`,
+          { edgeId: edge.id }
+        ));
+    });
+
+    // Cycles made only of nodes that never wait for the customer would loop forever on one message
+    const automatic = nodes.filter(node => node?.id && !PAUSING_NODE_TYPES.includes(node.type)).map(node => node.id);
+    for (const cycle of this.findCycles(automatic, id => (outgoing.get(id) || []).map(edge => edge.target))) {
+      cycle.forEach(id => error(
+        `${this.describeNode(nodesById.get(id)!)} is in a loop (${cycle.join(' -> ')}) with no message or question to wait for input`,
+        { nodeId: id }
+      ));
+    }
+  }
+
+  // Strongly connected components (Tarjan) of the given nodes that contain a cycle
+  private findCycles(nodeIds: string[], successors: (id: string) => string[]): string[][] {
+    const members = new Set(nodeIds);
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+
+      for (const next of successors(id)) {
+        if (!members.has(next)) continue;
+        if (!index.has(next)) {
+          visit(next);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+
+        if (component.length > 1 || successors(id).includes(id)) {
+          cycles.push(component.reverse());
+        }
+      }
     };
+
+    nodeIds.forEach(id => { if (!index.has(id)) visit(id); });
+    return cycles;
+  }
+
+  private checkExpressions(nodes: FlowNode[], edges: FlowEdge[], error: (message: string, target?: { nodeId?: string; edgeId?: string }) => void): void {
+    for (const node of nodes) {
+      if (node?.type !== 'condition') continue;
+      const condition = node.data?.condition || '';
+      const problem = condition.trim() ? validateExpression(condition) : 'Condition is empty';
+      if (problem) {
+        error(`Condition "${node.data?.label || node.id}": ${problem}`, { nodeId: node.id });
+      }
+    }
+
+    for (const edge of edges) {
+      if (!edge.condition) continue;
+      const problem = validateExpression(edge.condition);
+      if (problem) {
+        error(`Edge ${edge.source} -> ${edge.target}: ${problem}`, { edgeId: edge.id });
+      }
+    }
   }
 }
 
@@ -1,9 +1,7 @@
 import axios from 'axios';
 import { Agent } from "@shared/schema";
-import { generateChatResponse } from "./llm-providers";
-import { storage } from "../storage";
 import { logger } from "./logging";
-import { conversationFlowService } from "./conversation-flow";
+import type { ChannelAdapter, InboundMessage, OutboundMessage, SendResult } from "./channel-adapter";
 
 export interface DiscordMessage {
   id: string;
@@ -34,7 +32,9 @@ export interface DiscordWebhookPayload {
   d?: any; // Event data
 }
 
-export class DiscordService {
+export class DiscordService implements ChannelAdapter<DiscordWebhookPayload> {
+  readonly platform = 'discord';
+  readonly displayName = 'Discord';
   private readonly baseUrl = 'https://discord.com/api/v10';
 
   async sendMessage(botToken: string, channelId: string, content: string): Promise<any> {
@@ -99,101 +99,41 @@ export class DiscordService {
     }
   }
 
-  async processMessage(message: DiscordMessage, agent: Agent): Promise<void> {
-    try {
-      // Ignore bot messages
-      if (message.author.bot) return;
-
-      // Ignore empty messages
-      if (!message.content.trim()) return;
-
-      await logger.logAgent('discord_message_received', undefined, agent.id, true, {
-        channelId: message.channel_id,
-        messageId: message.id,
-        author: message.author.username,
-        contentLength: message.content.length
-      });
-
-      // Find or create conversation
-      const sessionId = `discord_${message.author.id}_${message.channel_id}_${agent.id}`;
-      let conversation = await storage.getConversationBySession(sessionId);
-      
-      if (!conversation) {
-        conversation = await storage.createConversation({
-          agentId: agent.id,
-          sessionId,
-          messages: [],
-          leadData: {
-            name: `${message.author.username}#${message.author.discriminator}`,
-            phone: null,
-            email: null,
-            source: 'discord',
-            userId: message.author.id,
-            channelId: message.channel_id,
-            avatar: message.author.avatar
-          },
-          status: "active",
-          platform: "discord"
-        });
-      }
-
-      // Add user message to conversation
-      const userMessage = {
-        role: 'user',
-        content: message.content,
-        timestamp: message.timestamp
-      };
-
-      const updatedMessages = [...(conversation.messages || []), userMessage];
-
-      // Generate AI response
-      const aiResponse = await generateChatResponse(
-        agent.llmProvider,
-        agent.model || 'gpt-4o',
-        agent.systemPrompt,
-        updatedMessages
-      );
-
-      // Add AI response to conversation
-      const assistantMessage = {
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date().toISOString()
-      };
-
-      await storage.updateConversation(conversation.id, {
-        messages: [...updatedMessages, assistantMessage]
-      });
-
-      // Send response via Discord
-      if (agent.discordBotToken) {
-        await this.sendMessage(agent.discordBotToken, message.channel_id, aiResponse);
-        
-        await logger.logAgent('discord_response_sent', undefined, agent.id, true, {
-          channelId: message.channel_id,
-          responseLength: aiResponse.length
-        });
-      }
-
-    } catch (error) {
-      await logger.logError(error as Error, 'discord_message_processing', undefined, agent.id, {
-        messageId: message.id,
-        channelId: message.channel_id
-      });
-    }
+  isConfigured(agent: Agent): boolean {
+    return !!agent.discordBotToken;
   }
 
   // Discord doesn't use traditional webhooks for message events
   // This would typically be used with Discord Gateway WebSocket connection
-  // For this implementation, we'll provide a REST endpoint for manual testing
-  async processWebhookPayload(payload: any, agent: Agent): Promise<void> {
-    try {
-      if (payload.t === 'MESSAGE_CREATE' && payload.d) {
-        await this.processMessage(payload.d, agent);
-      }
-    } catch (error) {
-      await logger.logError(error as Error, 'discord_webhook_processing', undefined, agent.id, {});
-    }
+  // For this implementation, we accept forwarded MESSAGE_CREATE dispatches
+  parseInbound(payload: DiscordWebhookPayload, agent: Agent): InboundMessage[] {
+    if (payload.t !== 'MESSAGE_CREATE' || !payload.d) return [];
+
+    const message: DiscordMessage = payload.d;
+
+    // Ignore bot messages and empty messages
+    if (message.author.bot || !message.content?.trim()) return [];
+
+    return [{
+      messageId: message.id,
+      senderId: message.author.id,
+      threadId: message.channel_id,
+      sessionKey: `${message.author.id}_${message.channel_id}`,
+      senderName: `${message.author.username}#${message.author.discriminator}`,
+      text: message.content,
+      timestamp: message.timestamp,
+      leadData: {
+        userId: message.author.id,
+        channelId: message.channel_id,
+        avatar: message.author.avatar
+      },
+      raw: message
+    }];
+  }
+
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.discordBotToken!, message.to, message.text);
+    return { messageId: result.id };
   }
 }
 
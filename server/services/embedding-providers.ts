@@ -0,0 +1,131 @@
+import OpenAI from "openai";
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// Width of the knowledge_chunks.embedding column; shorter embeddings are zero-padded,
+// which leaves cosine similarity between them unchanged
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  // Stored with every chunk so vectors from different models are never compared
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function padEmbedding(embedding: number[]): number[] {
+  if (embedding.length > EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding has ${embedding.length} dimensions; at most ${EMBEDDING_DIMENSIONS} are supported`);
+  }
+  return embedding.length === EMBEDDING_DIMENSIONS
+    ? embedding
+    : embedding.concat(new Array(EMBEDDING_DIMENSIONS - embedding.length).fill(0));
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'openai:text-embedding-3-small';
+  private client: OpenAI;
+
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is required');
+    }
+    this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: 'text-embedding-3-small',
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export class GoogleEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'google:text-embedding-004';
+  private client: GoogleGenerativeAI;
+
+  constructor() {
+    if (!process.env.GOOGLE_API_KEY) {
+      throw new Error('GOOGLE_API_KEY is required');
+    }
+    this.client = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = this.client.getGenerativeModel({ model: 'text-embedding-004' });
+    const response = await model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+    });
+
+    // text-embedding-004 returns 768 dimensions
+    return response.embeddings.map(embedding => padEmbedding(embedding.values));
+  }
+}
+
+/**
+ * Deterministic offline embedder: hashes words and word pairs into a fixed number of
+ * buckets with sublinear term-frequency weights. No network access or API key needed,
+ * so it suits tests and air-gapped installs, at the cost of purely lexical matching.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'local:hashing-v1';
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const words = text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\uffff]+/)
+      .filter(word => word.length > 1);
+    const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+
+    const counts = new Map<string, number>();
+    for (const feature of features) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+    }
+
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      // A hash-derived sign keeps colliding features from only ever adding up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+  }
+}
+
+// 32-bit FNV-1a, returned as an unsigned integer
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class EmbeddingProviderFactory {
+  static createProvider(provider: string): EmbeddingProvider {
+    switch (provider.toLowerCase()) {
+      case 'openai':
+        return new OpenAIEmbeddingProvider();
+
+      case 'google':
+        return new GoogleEmbeddingProvider();
+
+      case 'local':
+        return new LocalHashingEmbeddingProvider();
+
+      default:
+        throw new Error(`Unsupported embedding provider: ${provider}`);
+    }
+  }
+}
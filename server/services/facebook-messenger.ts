@@ -1,9 +1,16 @@
 import axios from 'axios';
 import { Agent } from "@shared/schema";
-import { generateChatResponse } from "./llm-providers";
-import { storage } from "../storage";
 import { logger } from "./logging";
-import { conversationFlowService } from "./conversation-flow";
+import {
+  verifyHubSignature,
+  type ChannelAdapter,
+  type ContactProfile,
+  type InboundMessage,
+  type OutboundMessage,
+  type SendResult,
+  type WebhookVerification,
+  type WebhookRequest
+} from "./channel-adapter";
 
 export interface MessengerMessage {
   mid: string;
@@ -46,7 +53,9 @@ export interface MessengerWebhookPayload {
   }>;
 }
 
-export class FacebookMessengerService {
+export class FacebookMessengerService implements ChannelAdapter<MessengerWebhookPayload> {
+  readonly platform = 'messenger';
+  readonly displayName = 'Facebook Messenger';
   private readonly baseUrl = 'https://graph.facebook.com/v18.0';
 
   async sendMessage(pageAccessToken: string, recipientId: string, text: string): Promise<any> {
@@ -104,123 +113,61 @@ export class FacebookMessengerService {
     }
   }
 
-  async processWebhookPayload(payload: MessengerWebhookPayload, agent: Agent): Promise<void> {
-    try {
-      for (const entry of payload.entry) {
-        for (const messaging of entry.messaging) {
-          if (messaging.message && messaging.message.text) {
-            await this.handleMessage(messaging, agent);
-          }
-        }
-      }
-    } catch (error) {
-      await logger.logError(error as Error, 'messenger_webhook_processing', undefined, agent.id, {});
-    }
+  isConfigured(agent: Agent): boolean {
+    return !!agent.facebookAccessToken;
   }
 
-  private async handleMessage(messaging: any, agent: Agent): Promise<void> {
-    try {
-      const senderId = messaging.sender.id;
-      const messageText = messaging.message.text;
-
-      await logger.logAgent('messenger_message_received', undefined, agent.id, true, {
-        senderId,
-        messageId: messaging.message.mid,
-        textLength: messageText.length
-      });
-
-      // Find or create conversation
-      const sessionId = `messenger_${senderId}_${agent.id}`;
-      let conversation = await storage.getConversationBySession(sessionId);
-      
-      if (!conversation) {
-        // Get user profile for lead data
-        let userProfile = null;
-        if (agent.facebookAccessToken) {
-          try {
-            userProfile = await this.getUserProfile(agent.facebookAccessToken, senderId);
-          } catch (error) {
-            // Continue without profile data if it fails
-          }
-        }
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    return verifyHubSignature(agent.facebookAppSecret, request);
+  }
 
-        conversation = await storage.createConversation({
-          agentId: agent.id,
-          sessionId,
-          messages: [],
-          leadData: {
-            name: userProfile ? `${userProfile.first_name} ${userProfile.last_name}` : 'Facebook User',
-            phone: null,
-            email: null,
-            source: 'messenger',
-            senderId: senderId,
-            profilePic: userProfile?.profile_pic
-          },
-          status: "active",
-          platform: "messenger"
+  parseInbound(payload: MessengerWebhookPayload, agent: Agent): InboundMessage[] {
+    const messages: InboundMessage[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const messaging of entry.messaging || []) {
+        if (!messaging.message?.text) continue;
+
+        messages.push({
+          messageId: messaging.message.mid,
+          senderId: messaging.sender.id,
+          threadId: messaging.sender.id,
+          text: messaging.message.text,
+          timestamp: new Date(messaging.timestamp).toISOString(),
+          leadData: { senderId: messaging.sender.id },
+          raw: messaging
         });
       }
+    }
 
-      // Add user message to conversation
-      const userMessage = {
-        role: 'user',
-        content: messageText,
-        timestamp: new Date(messaging.timestamp).toISOString()
-      };
-
-      const updatedMessages = [...(conversation.messages || []), userMessage];
-
-      // Check if flow is enabled and process accordingly
-      let aiResponse: string;
-      
-      if (agent.flowEnabled && agent.conversationFlow) {
-        const flowContext = {
-          userId: senderId,
-          userName: userProfile ? `${userProfile.first_name} ${userProfile.last_name}` : 'Facebook User',
-          userInput: messageText,
-          conversationCount: updatedMessages.filter(m => m.role === 'user').length,
-          variables: {},
-          leadData: conversation.leadData
-        };
-
-        const flowResult = await conversationFlowService.executeFlow(agent, flowContext);
-        aiResponse = flowResult.message;
-      } else {
-        // Generate AI response using traditional method
-        aiResponse = await generateChatResponse(
-          agent.llmProvider,
-          agent.model || 'gpt-4o',
-          agent.systemPrompt,
-          updatedMessages
-        );
-      }
-
-      // Add AI response to conversation
-      const assistantMessage = {
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date().toISOString()
-      };
+    return messages;
+  }
 
-      await storage.updateConversation(conversation.id, {
-        messages: [...updatedMessages, assistantMessage]
-      });
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.facebookAccessToken!, message.to, message.text);
+    return { messageId: result.message_id };
+  }
 
-      // Send response via Messenger
-      if (agent.facebookAccessToken) {
-        await this.sendMessage(agent.facebookAccessToken, senderId, aiResponse);
-        
-        await logger.logAgent('messenger_response_sent', undefined, agent.id, true, {
-          senderId,
-          responseLength: aiResponse.length
-        });
-      }
+  verifyWebhook(agent: Agent, query: Record<string, any>): WebhookVerification {
+    if (query['hub.mode'] !== 'subscribe') {
+      return { verified: false, reason: 'Unsupported hub.mode' };
+    }
+    if (agent.facebookAccessToken && query['hub.verify_token'] === `verify_${agent.id}`) {
+      return { verified: true, challenge: query['hub.challenge'] };
+    }
+    return { verified: false, reason: 'Verify token mismatch' };
+  }
 
-    } catch (error) {
-      await logger.logError(error as Error, 'messenger_message_handling', undefined, agent.id, {
-        senderId: messaging.sender.id
-      });
+  async lookupProfile(agent: Agent, message: InboundMessage): Promise<ContactProfile> {
+    if (!agent.facebookAccessToken) {
+      return { name: 'Facebook User' };
     }
+
+    const userProfile = await this.getUserProfile(agent.facebookAccessToken, message.senderId);
+    return {
+      name: `${userProfile.first_name} ${userProfile.last_name}`,
+      leadData: { profilePic: userProfile.profile_pic }
+    };
   }
 }
 
@@ -0,0 +1,118 @@
+import { Agent, FlowTestCase } from "@shared/schema";
+import { storage } from "../storage";
+import { conversationFlowService, type FlowState, type FlowTrace } from "./conversation-flow";
+
+const DEFAULT_STUB_REPLY = '[AI fallback reply]';
+
+export interface SimulationOptions {
+  userName?: string;
+  variables?: Record<string, any>;
+  leadData?: Record<string, any>;
+  // Call the agent's LLM when the flow falls back to AI instead of returning a placeholder
+  useLlm?: boolean;
+  fallbackReply?: string;
+}
+
+export interface SimulationStep extends FlowTrace {
+  input: string;
+  message: string;
+  currentNodeId: string | null;
+  ended: boolean;
+  variables: Record<string, any>;
+}
+
+export interface TestCaseResult {
+  testCaseId: number;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  steps: SimulationStep[];
+}
+
+/**
+ * Runs a conversation flow against scripted user inputs without touching conversations:
+ * action nodes are recorded instead of executed and the AI fallback is stubbed by default.
+ */
+export class FlowSimulator {
+  async simulate(
+    agent: Agent,
+    flow: NonNullable<Agent['conversationFlow']>,
+    inputs: string[],
+    options: SimulationOptions = {}
+  ): Promise<SimulationStep[]> {
+    const simulatedAgent: Agent = { ...agent, flowEnabled: true, conversationFlow: flow };
+    const leadData = { ...(options.leadData || {}) };
+    const steps: SimulationStep[] = [];
+    let state: FlowState | null = null;
+
+    for (let i = 0; i < inputs.length; i++) {
+      const result = await conversationFlowService.executeFlow(simulatedAgent, {
+        userId: 'simulator',
+        userName: options.userName,
+        userInput: inputs[i],
+        conversationCount: i + 1,
+        // Initial variables seed the first message; afterwards they come from the saved state
+        variables: i === 0 ? { ...(options.variables || {}) } : {},
+        leadData
+      }, state, {
+        dryRun: true,
+        stubFallbackReply: options.useLlm ? undefined : (options.fallbackReply ?? DEFAULT_STUB_REPLY)
+      });
+
+      state = result.state;
+      steps.push({
+        input: inputs[i],
+        message: result.message,
+        currentNodeId: result.state.currentNodeId,
+        ended: !!result.state.ended,
+        // Snapshot, since later steps keep mutating the same variables
+        variables: { ...result.state.variables },
+        ...result.trace
+      });
+    }
+
+    return steps;
+  }
+
+  // Runs a saved test case against the published flow, or a draft or older version passed as `flow`.
+  // Only runs against the published flow are recorded on the test case.
+  async runTestCase(agent: Agent, testCase: FlowTestCase, flow?: NonNullable<Agent['conversationFlow']>): Promise<TestCaseResult> {
+    const failures: string[] = [];
+    let steps: SimulationStep[] = [];
+    const tested = flow || agent.conversationFlow;
+
+    if (!tested) {
+      failures.push('Agent has no conversation flow');
+    } else {
+      steps = await this.simulate(agent, tested, testCase.steps.map(step => step.input), {
+        ...(testCase.context || {})
+      });
+
+      testCase.steps.forEach((expected, index) => {
+        const actual = steps[index];
+        if (expected.expectNodeId && actual.currentNodeId !== expected.expectNodeId) {
+          failures.push(`Step ${index + 1}: expected to stop at node "${expected.expectNodeId}" but stopped at "${actual.currentNodeId ?? 'none'}"`);
+        }
+        if (expected.expectMessageContains && !actual.message.toLowerCase().includes(expected.expectMessageContains.toLowerCase())) {
+          failures.push(`Step ${index + 1}: expected reply to contain "${expected.expectMessageContains}" but got "${actual.message}"`);
+        }
+      });
+
+      const finalVariables = steps.length > 0 ? steps[steps.length - 1].variables : {};
+      for (const [name, value] of Object.entries(testCase.expectVariables || {})) {
+        if (String(finalVariables[name]) !== String(value)) {
+          failures.push(`Variable "${name}": expected ${JSON.stringify(value)} but got ${JSON.stringify(finalVariables[name])}`);
+        }
+      }
+    }
+
+    const passed = failures.length === 0;
+    if (!flow) {
+      await storage.updateFlowTestCase(testCase.id, { lastRunAt: new Date(), lastPassed: passed });
+    }
+
+    return { testCaseId: testCase.id, name: testCase.name, passed, failures, steps };
+  }
+}
+
+export const flowSimulator = new FlowSimulator();
@@ -0,0 +1,150 @@
+import { Agent, FlowVersion } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+
+type ConversationFlow = NonNullable<Agent['conversationFlow']>;
+
+interface FieldChange {
+  id: string;
+  fields: string[];
+}
+
+export interface FlowDiff {
+  nodes: { added: string[]; removed: string[]; changed: FieldChange[] };
+  edges: { added: string[]; removed: string[]; changed: FieldChange[] };
+  // Flow-level settings such as variables and timeoutMinutes
+  settings: string[];
+  identical: boolean;
+}
+
+// JSON with sorted object keys, so key order in stored jsonb does not show up as a change
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function changedFields(before: Record<string, any>, after: Record<string, any>, keys: string[]): string[] {
+  return keys.filter(key => stableStringify(before[key]) !== stableStringify(after[key]));
+}
+
+function diffById<T extends { id: string }>(before: T[], after: T[], fieldsOf: (a: T, b: T) => string[]) {
+  const beforeById = new Map(before.map(item => [item.id, item] as [string, T]));
+  const afterIds = new Set(after.map(item => item.id));
+
+  const changed: FieldChange[] = [];
+  after.forEach(item => {
+    const previous = beforeById.get(item.id);
+    if (!previous) return;
+    const fields = fieldsOf(previous, item);
+    if (fields.length > 0) changed.push({ id: item.id, fields });
+  });
+
+  return {
+    added: after.filter(item => !beforeById.has(item.id)).map(item => item.id),
+    removed: before.filter(item => !afterIds.has(item.id)).map(item => item.id),
+    changed
+  };
+}
+
+/**
+ * Draft/publish history for conversation flows. Edits land in a draft and only reach live
+ * conversations once published; every publish (including rollbacks) is a new numbered version.
+ * Numbers are assigned at publish time, so the draft has none.
+ */
+export class FlowVersionService {
+  // Create or overwrite the agent's single draft
+  async saveDraft(agent: Agent, flow: ConversationFlow, userId?: number, note?: string): Promise<FlowVersion> {
+    const draft = await storage.getDraftFlowVersion(agent.id);
+    if (draft) {
+      const updated = await storage.updateFlowVersion(draft.id, {
+        flow,
+        ...(note !== undefined ? { note } : {}),
+        createdBy: userId ?? draft.createdBy
+      });
+      if (!updated) throw new Error('Failed to update flow draft');
+      return updated;
+    }
+
+    return storage.createFlowVersion({
+      agentId: agent.id,
+      status: 'draft',
+      flow,
+      note: note ?? null,
+      createdBy: userId ?? null
+    });
+  }
+
+  // Promote the draft to the live flow; returns undefined when there is no draft
+  async publishDraft(agent: Agent, userId?: number, note?: string): Promise<{ version: FlowVersion; agent: Agent } | undefined> {
+    const draft = await storage.getDraftFlowVersion(agent.id);
+    if (!draft) return undefined;
+
+    const published = await storage.publishFlowVersion(agent.id, draft.id, note !== undefined ? { note } : {});
+    await this.logPublished(agent, published.version, userId);
+    return published;
+  }
+
+  // Record a flow that goes live straight away, e.g. one saved with the agent itself
+  async publish(agent: Agent, flow: ConversationFlow, userId?: number, note?: string): Promise<{ version: FlowVersion; agent: Agent }> {
+    const published = await storage.publishFlowVersion(agent.id, null, {
+      flow,
+      note: note ?? null,
+      createdBy: userId ?? null
+    });
+    await this.logPublished(agent, published.version, userId);
+    return published;
+  }
+
+  // Rolling back republishes an old snapshot as a new version, so history is never rewritten
+  async rollback(agent: Agent, target: FlowVersion, userId?: number): Promise<{ version: FlowVersion; agent: Agent }> {
+    return this.publish(agent, target.flow, userId, `Rollback to version ${target.version}`);
+  }
+
+  /**
+   * Resolve "draft", "published"/"live" or a version id to a flow. The live flow is used for
+   * "published" so agents that predate versioning can still be compared.
+   */
+  async resolve(agent: Agent, ref: string): Promise<{ label: string; flow: ConversationFlow } | undefined> {
+    if (ref === 'draft') {
+      const draft = await storage.getDraftFlowVersion(agent.id);
+      return draft ? { label: 'draft', flow: draft.flow } : undefined;
+    }
+
+    if (ref === 'published' || ref === 'live') {
+      return agent.conversationFlow ? { label: 'published', flow: agent.conversationFlow } : undefined;
+    }
+
+    const version = await storage.getFlowVersion(parseInt(ref));
+    if (!version || version.agentId !== agent.id) return undefined;
+    return { label: `version ${version.version}`, flow: version.flow };
+  }
+
+  diff(before: ConversationFlow, after: ConversationFlow): FlowDiff {
+    const nodes = diffById(before.nodes, after.nodes, (a, b) => {
+      const fields = changedFields(a, b, ['type', 'position']);
+      const dataKeys = Array.from(new Set(Object.keys(a.data || {}).concat(Object.keys(b.data || {}))));
+      return fields.concat(changedFields(a.data || {}, b.data || {}, dataKeys).map(key => `data.${key}`));
+    });
+    const edges = diffById(before.edges, after.edges, (a, b) =>
+      changedFields(a, b, ['source', 'target', 'label', 'condition']));
+    const settings = changedFields(before, after, ['variables', 'timeoutMinutes']);
+
+    const identical = settings.length === 0
+      && [nodes, edges].every(part => part.added.length === 0 && part.removed.length === 0 && part.changed.length === 0);
+    return { nodes, edges, settings, identical };
+  }
+
+  private async logPublished(agent: Agent, version: FlowVersion, userId?: number): Promise<void> {
+    await logger.logAgent('conversation_flow_published', userId, agent.id, true, {
+      versionId: version.id,
+      version: version.version,
+      previousVersionId: agent.publishedFlowVersionId
+    });
+  }
+}
+
+export const flowVersionService = new FlowVersionService();
@@ -0,0 +1,157 @@
+import { Agent, Conversation } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { getChannelAdapter } from "./channels";
+import { realtimeService } from "./realtime";
+
+export type HandoffState = 'bot' | 'pending_human' | 'human' | 'closed';
+
+export const HANDOFF_STATES: HandoffState[] = ['bot', 'pending_human', 'human', 'closed'];
+
+// States in which the bot must not answer inbound messages
+const HUMAN_STATES: HandoffState[] = ['pending_human', 'human'];
+
+// Explicit requests for a person, e.g. "can I speak to a human" or "live agent please"
+const HANDOFF_REQUEST_PATTERN = /\b(talk|speak|chat)\s+(to|with)\s+(a\s+|an\s+)?(human|person|real person|agent|representative|someone)\b|\b(live|human)\s+(agent|person|support)\b|\breal\s+person\b/i;
+
+const DEFAULT_HANDOFF_MESSAGE = "I'm connecting you with a member of our team. They will reply here shortly.";
+
+// What the inbound flow should do with a customer message
+export interface InboundRouting {
+  botReplies: boolean;
+  // Message to send instead of a bot reply, e.g. the handoff notice
+  notice?: string;
+}
+
+export interface StaffReplyResult {
+  conversation: Conversation;
+  delivered: boolean;
+  messageId?: string;
+  // Set when the channel delivered a template instead of the text
+  template?: string;
+}
+
+export class HandoffService {
+  isBotSuppressed(conversation: Conversation): boolean {
+    return HUMAN_STATES.includes(conversation.handoffState as HandoffState);
+  }
+
+  isHandoffRequest(text: string): boolean {
+    return HANDOFF_REQUEST_PATTERN.test(text);
+  }
+
+  // Checked before the bot answers; a customer asking for a person queues the thread for staff
+  async routeInbound(agent: Agent, conversation: Conversation, text: string): Promise<InboundRouting> {
+    if (this.isBotSuppressed(conversation)) {
+      return { botReplies: false };
+    }
+
+    if (this.isHandoffRequest(text)) {
+      await this.requestHandoff(conversation, 'customer_request');
+      return { botReplies: false, notice: agent.autoResponseTemplates?.handoff || DEFAULT_HANDOFF_MESSAGE };
+    }
+
+    // A new message on a closed thread starts a fresh bot conversation
+    if (conversation.handoffState === 'closed') {
+      await this.transition(conversation, 'bot', { assignedUserId: null });
+    }
+
+    return { botReplies: true };
+  }
+
+  async requestHandoff(conversation: Conversation, reason: string, userId?: number): Promise<Conversation> {
+    return await this.transition(conversation, 'pending_human', {
+      handoffReason: reason,
+      handoffRequestedAt: new Date(),
+      assignedUserId: null
+    }, userId);
+  }
+
+  async claim(conversation: Conversation, userId: number): Promise<Conversation> {
+    return await this.transition(conversation, 'human', {
+      assignedUserId: userId,
+      // Staff can take over threads that never asked for a human
+      handoffRequestedAt: conversation.handoffRequestedAt || new Date()
+    }, userId);
+  }
+
+  async release(conversation: Conversation, userId: number): Promise<Conversation> {
+    return await this.transition(conversation, 'bot', { assignedUserId: null }, userId);
+  }
+
+  async close(conversation: Conversation, userId: number): Promise<Conversation> {
+    return await this.transition(conversation, 'closed', {}, userId);
+  }
+
+  // Send a staff message through the conversation's original channel; replying claims the thread
+  async sendStaffReply(agent: Agent, conversation: Conversation, userId: number, text: string): Promise<StaffReplyResult> {
+    let current = conversation;
+    if (current.handoffState !== 'human' || current.assignedUserId !== userId) {
+      current = await this.claim(current, userId);
+    }
+
+    let delivered = false;
+    let messageId: string | undefined;
+    let template: string | undefined;
+    const platform = current.platform || 'web';
+    // Web widget visitors fetch staff replies from the stored conversation
+    if (platform !== 'web') {
+      const adapter = getChannelAdapter(platform);
+      if (!adapter || !adapter.isConfigured(agent) || !current.channelAddress) {
+        throw new Error(`Cannot deliver replies on ${platform} for this conversation`);
+      }
+
+      const sendResult = await adapter.sendReply(agent, {
+        to: current.channelAddress,
+        text,
+        conversationId: current.id
+      });
+      delivered = !sendResult.suppressed;
+      messageId = sendResult.messageId;
+      template = sendResult.template;
+    }
+
+    const staffMessage = { role: 'assistant', content: text, timestamp: new Date().toISOString(), sentBy: userId };
+    const updated = await storage.updateConversation(current.id, {
+      messages: [...(current.messages || []), staffMessage]
+    });
+    realtimeService.publishMessage(current, staffMessage);
+
+    await logger.logAgent('handoff_staff_reply', userId, agent.id, true, {
+      conversationId: current.id,
+      platform,
+      delivered
+    });
+
+    return { conversation: updated || current, delivered, messageId, ...(template ? { template } : {}) };
+  }
+
+  private async transition(
+    conversation: Conversation,
+    state: HandoffState,
+    updates: { handoffReason?: string; handoffRequestedAt?: Date; assignedUserId?: number | null },
+    userId?: number
+  ): Promise<Conversation> {
+    const updated = await storage.updateConversation(conversation.id, { handoffState: state, ...updates });
+    if (!updated) {
+      throw new Error('Failed to update conversation handoff state');
+    }
+
+    realtimeService.publish({
+      type: 'handoff',
+      agentId: updated.agentId,
+      conversationId: updated.id,
+      state,
+      assignedUserId: updated.assignedUserId
+    });
+
+    await logger.logAgent(`handoff_${state}`, userId, conversation.agentId, true, {
+      conversationId: conversation.id,
+      from: conversation.handoffState,
+      reason: updates.handoffReason
+    });
+    return updated;
+  }
+}
+
+export const handoffService = new HandoffService();
@@ -0,0 +1,268 @@
+import { Agent, Conversation } from "@shared/schema";
+import { qualifyLead, type ChatMessage, type LLMResponse } from "./llm-providers";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { conversationFlowService } from "./conversation-flow";
+import { agentToolService } from "./agent-tools";
+import { knowledgeRetrievalService } from "./knowledge-retrieval";
+import { handoffService } from "./handoff";
+import { realtimeService } from "./realtime";
+import { callScheduler } from "./call-scheduler";
+import type { ChannelAdapter, InboundMessage } from "./channel-adapter";
+
+type StoredMessage = { role: string; content: string; timestamp: string; knowledgeItemIds?: number[] };
+
+interface GeneratedReply {
+  content: string;
+  knowledgeItemIds: number[];
+  choices?: string[];
+}
+
+export interface InboundResult {
+  conversationId: number;
+  reply: string;
+  delivered: boolean;
+  // True when staff own the thread and the bot did not answer
+  handedOff?: boolean;
+}
+
+export class InboundPipeline {
+  private readonly qualificationThreshold = 4;
+
+  async handleWebhook<TPayload>(adapter: ChannelAdapter<TPayload>, agent: Agent, payload: TPayload): Promise<InboundResult[]> {
+    if (adapter.processEvents) {
+      await adapter.processEvents(payload, agent);
+    }
+
+    const results: InboundResult[] = [];
+    for (const message of adapter.parseInbound(payload, agent)) {
+      const result = await this.processMessage(adapter, agent, message);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  async processMessage(adapter: ChannelAdapter, agent: Agent, message: InboundMessage): Promise<InboundResult | undefined> {
+    try {
+      await logger.logAgent(`${adapter.platform}_message_received`, undefined, agent.id, true, {
+        senderId: message.senderId,
+        messageId: message.messageId,
+        textLength: message.text.length
+      });
+
+      const conversation = await this.findOrCreateConversation(adapter, agent, message);
+
+      if (adapter.onInbound) {
+        await adapter.onInbound(agent, message, conversation);
+      }
+
+      const userMessage: StoredMessage = {
+        role: 'user',
+        content: message.text,
+        timestamp: message.timestamp
+      };
+      const updatedMessages = [...(conversation.messages || []), userMessage];
+      realtimeService.publishMessage(conversation, userMessage);
+
+      // Keywords are answered even when staff own the thread
+      const keywordReply = adapter.answerKeyword ? await adapter.answerKeyword(agent, message, conversation) : undefined;
+      if (keywordReply) {
+        const confirmation: StoredMessage = { role: 'assistant', content: keywordReply.text, timestamp: new Date().toISOString() };
+        await storage.updateConversation(conversation.id, { messages: [...updatedMessages, confirmation] });
+        realtimeService.publishMessage(conversation, confirmation);
+        return { conversationId: conversation.id, reply: keywordReply.text, delivered: keywordReply.delivered };
+      }
+
+      const routing = await handoffService.routeInbound(agent, conversation, message.text);
+      if (!routing.botReplies && !routing.notice) {
+        // Staff own the thread: keep the message for the inbox without answering
+        await storage.updateConversation(conversation.id, { messages: updatedMessages });
+        return { conversationId: conversation.id, reply: '', delivered: false, handedOff: true };
+      }
+
+      const { content: reply, knowledgeItemIds, choices }: GeneratedReply = routing.notice
+        ? { content: routing.notice, knowledgeItemIds: [] }
+        : await this.generateReply(adapter, agent, conversation, message, updatedMessages);
+
+      const assistantMessage: StoredMessage = {
+        role: 'assistant',
+        content: reply,
+        timestamp: new Date().toISOString(),
+        ...(knowledgeItemIds.length > 0 ? { knowledgeItemIds } : {})
+      };
+      const finalMessages = [...updatedMessages, assistantMessage];
+
+      await storage.updateConversation(conversation.id, { messages: finalMessages });
+      realtimeService.publishMessage(conversation, assistantMessage);
+
+      let delivered = false;
+      if (adapter.isConfigured(agent)) {
+        const sendResult = await adapter.sendReply(agent, {
+          to: message.threadId,
+          text: reply,
+          choices,
+          conversationId: conversation.id
+        });
+        delivered = !sendResult.suppressed;
+
+        await logger.logAgent(`${adapter.platform}_response_${delivered ? 'sent' : 'suppressed'}`, undefined, agent.id, true, {
+          threadId: message.threadId,
+          responseLength: reply.length
+        });
+      }
+
+      if (routing.notice) {
+        return { conversationId: conversation.id, reply, delivered, handedOff: true };
+      }
+
+      await this.qualifyConversation(agent, conversation, finalMessages);
+
+      return { conversationId: conversation.id, reply, delivered };
+    } catch (error) {
+      await logger.logError(error as Error, `${adapter.platform}_message_processing`, undefined, agent.id, {
+        senderId: message.senderId,
+        messageId: message.messageId
+      });
+      return undefined;
+    }
+  }
+
+  buildSessionId(platform: string, agent: Agent, message: InboundMessage): string {
+    return `${platform}_${message.sessionKey || message.senderId}_${agent.id}`;
+  }
+
+  private async findOrCreateConversation(adapter: ChannelAdapter, agent: Agent, message: InboundMessage): Promise<Conversation> {
+    const sessionId = this.buildSessionId(adapter.platform, agent, message);
+    const existing = await storage.getConversationBySession(sessionId);
+    if (existing) return existing;
+
+    let profile = {};
+    if (adapter.lookupProfile) {
+      try {
+        const contact = await adapter.lookupProfile(agent, message);
+        profile = { ...(contact.name ? { name: contact.name } : {}), ...contact.leadData };
+      } catch (error) {
+        // Continue without profile data if the platform lookup fails
+      }
+    }
+
+    return await storage.createConversation({
+      agentId: agent.id,
+      sessionId,
+      platform: adapter.platform,
+      channelAddress: message.threadId,
+      messages: [],
+      leadData: {
+        name: message.senderName || null,
+        phone: null,
+        email: null,
+        source: adapter.platform,
+        ...message.leadData,
+        ...profile
+      },
+      status: "active"
+    });
+  }
+
+  private async generateReply(
+    adapter: ChannelAdapter,
+    agent: Agent,
+    conversation: Conversation,
+    message: InboundMessage,
+    history: StoredMessage[]
+  ): Promise<GeneratedReply> {
+    if (agent.flowEnabled && agent.conversationFlow) {
+      const flowResult = await conversationFlowService.executeForConversation(agent, conversation, {
+        userId: message.senderId,
+        userName: message.senderName,
+        userInput: message.text,
+        conversationCount: history.filter(m => m.role === 'user').length,
+        variables: {},
+        leadData: conversation.leadData || {}
+      });
+      return { content: flowResult.message, knowledgeItemIds: [], choices: flowResult.choices };
+    }
+
+    const { systemPrompt, knowledgeItemIds } = await knowledgeRetrievalService.augmentSystemPrompt(
+      agent,
+      `${agent.systemPrompt}\n\nYou are responding to ${message.senderName || 'a customer'} via ${adapter.displayName}. Keep responses concise and conversational.`,
+      message.text
+    );
+
+    const chatMessages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...history.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+    ];
+
+    const aiResponse = await agentToolService.generateResponse(agent, chatMessages, {
+      conversationId: conversation.id,
+      contactPhone: conversation.leadData?.phone || message.leadData?.phone
+    });
+    await this.recordUsage(agent, adapter.platform, aiResponse);
+
+    return { content: aiResponse.content, knowledgeItemIds };
+  }
+
+  // Add an LLM completion's token usage and cost to the agent's daily analytics
+  async recordUsage(agent: Agent, platform: string, aiResponse: LLMResponse): Promise<void> {
+    if (!aiResponse.costs || !aiResponse.usage) return;
+
+    try {
+      await storage.createOrUpdateAnalytics({
+        agentId: agent.id,
+        date: new Date().toISOString().split('T')[0],
+        totalConversations: 1,
+        totalTokens: aiResponse.usage.totalTokens,
+        promptTokens: aiResponse.usage.promptTokens,
+        completionTokens: aiResponse.usage.completionTokens,
+        llmCosts: {
+          promptCost: aiResponse.costs.promptCost,
+          completionCost: aiResponse.costs.completionCost,
+          totalCost: aiResponse.costs.totalCost,
+          currency: aiResponse.costs.currency
+        }
+      });
+    } catch (error) {
+      console.error(`Error tracking ${platform} message analytics:`, error);
+    }
+  }
+
+  async qualifyConversation(agent: Agent, conversation: Conversation, messages: StoredMessage[]): Promise<void> {
+    if (messages.length < this.qualificationThreshold) return;
+
+    try {
+      const conversationText = messages.map(m => `${m.role}: ${m.content}`).join('\n');
+      const questions = (agent.leadQualificationQuestions || []).map(q => q.question);
+      const qualification = await qualifyLead(conversationText, questions, agent.llmProvider);
+
+      // Re-read lead data so fields captured by tools during this turn are kept
+      const current = await storage.getConversation(conversation.id);
+      await storage.updateConversation(conversation.id, {
+        leadData: { ...(current || conversation).leadData, ...qualification.extractedData },
+        conversionScore: qualification.score,
+        callScheduled: qualification.recommendation === 'call',
+      });
+
+      // The trigger's rules decide whether a recommended call is actually queued
+      if (qualification.recommendation === 'call') {
+        await callScheduler.considerConversation(conversation.id);
+      }
+
+      if (qualification.score !== (current || conversation).conversionScore) {
+        realtimeService.publish({
+          type: 'lead_score',
+          agentId: agent.id,
+          conversationId: conversation.id,
+          score: qualification.score,
+          recommendation: qualification.recommendation
+        });
+      }
+    } catch (error) {
+      await logger.logError(error as Error, 'lead_qualification', undefined, agent.id, {
+        conversationId: conversation.id
+      });
+    }
+  }
+}
+
+export const inboundPipeline = new InboundPipeline();
@@ -1,9 +1,16 @@
 import axios from 'axios';
 import { Agent } from "@shared/schema";
-import { generateChatResponse } from "./llm-providers";
-import { storage } from "../storage";
 import { logger } from "./logging";
-import { conversationFlowService } from "./conversation-flow";
+import {
+  verifyHubSignature,
+  type ChannelAdapter,
+  type ContactProfile,
+  type InboundMessage,
+  type OutboundMessage,
+  type SendResult,
+  type WebhookVerification,
+  type WebhookRequest
+} from "./channel-adapter";
 
 export interface InstagramMessage {
   mid: string;
@@ -38,7 +45,9 @@ export interface InstagramWebhookPayload {
   }>;
 }
 
-export class InstagramService {
+export class InstagramService implements ChannelAdapter<InstagramWebhookPayload> {
+  readonly platform = 'instagram';
+  readonly displayName = 'Instagram';
   private readonly baseUrl = 'https://graph.facebook.com/v18.0';
 
   async sendMessage(accessToken: string, recipientId: string, text: string): Promise<any> {
@@ -85,106 +94,61 @@ export class InstagramService {
     }
   }
 
-  async processWebhookPayload(payload: InstagramWebhookPayload, agent: Agent): Promise<void> {
-    try {
-      for (const entry of payload.entry) {
-        for (const messaging of entry.messaging) {
-          if (messaging.message && messaging.message.text) {
-            await this.handleMessage(messaging, agent);
-          }
-        }
-      }
-    } catch (error) {
-      await logger.logError(error as Error, 'instagram_webhook_processing', undefined, agent.id, {});
-    }
+  isConfigured(agent: Agent): boolean {
+    return !!agent.instagramAccessToken;
   }
 
-  private async handleMessage(messaging: any, agent: Agent): Promise<void> {
-    try {
-      const senderId = messaging.sender.id;
-      const messageText = messaging.message.text;
-
-      await logger.logAgent('instagram_message_received', undefined, agent.id, true, {
-        senderId,
-        messageId: messaging.message.mid,
-        textLength: messageText.length
-      });
-
-      // Find or create conversation
-      const sessionId = `instagram_${senderId}_${agent.id}`;
-      let conversation = await storage.getConversationBySession(sessionId);
-      
-      if (!conversation) {
-        // Get user profile for lead data
-        let userProfile = null;
-        if (agent.instagramAccessToken) {
-          try {
-            userProfile = await this.getUserProfile(agent.instagramAccessToken, senderId);
-          } catch (error) {
-            // Continue without profile data if it fails
-          }
-        }
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    return verifyHubSignature(agent.instagramAppSecret, request);
+  }
 
-        conversation = await storage.createConversation({
-          agentId: agent.id,
-          sessionId,
-          messages: [],
-          leadData: {
-            name: userProfile?.name || 'Instagram User',
-            phone: null,
-            email: null,
-            source: 'instagram',
-            senderId: senderId,
-            profilePic: userProfile?.profile_picture_url
-          },
-          status: "active",
-          platform: "instagram"
+  parseInbound(payload: InstagramWebhookPayload, agent: Agent): InboundMessage[] {
+    const messages: InboundMessage[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const messaging of entry.messaging || []) {
+        if (!messaging.message?.text) continue;
+
+        messages.push({
+          messageId: messaging.message.mid,
+          senderId: messaging.sender.id,
+          threadId: messaging.sender.id,
+          text: messaging.message.text,
+          timestamp: new Date(messaging.timestamp).toISOString(),
+          leadData: { senderId: messaging.sender.id },
+          raw: messaging
         });
       }
+    }
 
-      // Add user message to conversation
-      const userMessage = {
-        role: 'user',
-        content: messageText,
-        timestamp: new Date(messaging.timestamp).toISOString()
-      };
-
-      const updatedMessages = [...(conversation.messages || []), userMessage];
-
-      // Generate AI response
-      const aiResponse = await generateChatResponse(
-        agent.llmProvider,
-        agent.model || 'gpt-4o',
-        agent.systemPrompt,
-        updatedMessages
-      );
-
-      // Add AI response to conversation
-      const assistantMessage = {
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date().toISOString()
-      };
+    return messages;
+  }
 
-      await storage.updateConversation(conversation.id, {
-        messages: [...updatedMessages, assistantMessage]
-      });
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.instagramAccessToken!, message.to, message.text);
+    return { messageId: result.message_id };
+  }
 
-      // Send response via Instagram
-      if (agent.instagramAccessToken) {
-        await this.sendMessage(agent.instagramAccessToken, senderId, aiResponse);
-        
-        await logger.logAgent('instagram_response_sent', undefined, agent.id, true, {
-          senderId,
-          responseLength: aiResponse.length
-        });
-      }
+  verifyWebhook(agent: Agent, query: Record<string, any>): WebhookVerification {
+    if (query['hub.mode'] !== 'subscribe') {
+      return { verified: false, reason: 'Unsupported hub.mode' };
+    }
+    if (agent.instagramAccessToken && query['hub.verify_token'] === `verify_${agent.id}`) {
+      return { verified: true, challenge: query['hub.challenge'] };
+    }
+    return { verified: false, reason: 'Verify token mismatch' };
+  }
 
-    } catch (error) {
-      await logger.logError(error as Error, 'instagram_message_handling', undefined, agent.id, {
-        senderId: messaging.sender.id
-      });
+  async lookupProfile(agent: Agent, message: InboundMessage): Promise<ContactProfile> {
+    if (!agent.instagramAccessToken) {
+      return { name: 'Instagram User' };
     }
+
+    const userProfile = await this.getUserProfile(agent.instagramAccessToken, message.senderId);
+    return {
+      name: userProfile.name || 'Instagram User',
+      leadData: { profilePic: userProfile.profile_picture_url }
+    };
   }
 }
 
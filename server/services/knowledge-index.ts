@@ -0,0 +1,171 @@
+import { db } from "../db";
+import { knowledgeChunks } from "@shared/schema";
+import { and, asc, cosineDistance, eq, gte, sql } from "drizzle-orm";
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+export interface ChunkInput {
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface VectorSearchHit {
+  knowledgeItemId: number;
+  chunkIndex: number;
+  content: string;
+  similarity: number;
+}
+
+export interface VectorStore {
+  // Replaces every chunk of the item, so re-indexing an edited item never leaves stale passages
+  replaceItemChunks(agentId: number, knowledgeItemId: number, chunks: ChunkInput[]): Promise<void>;
+  deleteItemChunks(knowledgeItemId: number): Promise<void>;
+  hasChunks(agentId: number, embeddingModel: string): Promise<boolean>;
+  // Nearest chunks embedded by the same model, by cosine similarity, best first
+  search(agentId: number, embeddingModel: string, embedding: number[], limit: number, minSimilarity: number): Promise<VectorSearchHit[]>;
+}
+
+/**
+ * Split text into passages of roughly `size` characters, preferring paragraph and
+ * sentence boundaries, with `overlap` characters repeated between neighbours
+ */
+export function chunkText(text: string, size: number = DEFAULT_CHUNK_SIZE, overlap: number = DEFAULT_CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  if (normalized.length <= size) {
+    return normalized ? [normalized] : [];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      // Only break early when it keeps at least half a chunk
+      const minBreak = Math.floor(size / 2);
+      const breakAt = [window.lastIndexOf('\n\n'), window.search(/[.!?]\s[^.!?]*$/), window.lastIndexOf(' ')]
+        .find(index => index >= minBreak);
+      if (breakAt !== undefined) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+
+    // Start the overlap on a word boundary
+    start = Math.max(end - overlap, start + 1);
+    const space = normalized.indexOf(' ', start);
+    if (space !== -1 && space < end) start = space + 1;
+  }
+
+  return chunks;
+}
+
+// pgvector-backed store; the HNSW index on knowledge_chunks.embedding serves the ORDER BY
+export class PgVectorStore implements VectorStore {
+  async replaceItemChunks(agentId: number, knowledgeItemId: number, chunks: ChunkInput[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(eq(knowledgeChunks.knowledgeItemId, knowledgeItemId));
+      if (chunks.length > 0) {
+        await tx.insert(knowledgeChunks).values(chunks.map(chunk => ({ agentId, knowledgeItemId, ...chunk })));
+      }
+    });
+  }
+
+  async deleteItemChunks(knowledgeItemId: number): Promise<void> {
+    await db.delete(knowledgeChunks).where(eq(knowledgeChunks.knowledgeItemId, knowledgeItemId));
+  }
+
+  async hasChunks(agentId: number, embeddingModel: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: knowledgeChunks.id })
+      .from(knowledgeChunks)
+      .where(and(eq(knowledgeChunks.agentId, agentId), eq(knowledgeChunks.embeddingModel, embeddingModel)))
+      .limit(1);
+    return !!row;
+  }
+
+  async search(agentId: number, embeddingModel: string, embedding: number[], limit: number, minSimilarity: number): Promise<VectorSearchHit[]> {
+    const distance = cosineDistance(knowledgeChunks.embedding, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
+
+    const rows = await db
+      .select({
+        knowledgeItemId: knowledgeChunks.knowledgeItemId,
+        chunkIndex: knowledgeChunks.chunkIndex,
+        content: knowledgeChunks.content,
+        similarity,
+      })
+      .from(knowledgeChunks)
+      .where(and(
+        eq(knowledgeChunks.agentId, agentId),
+        eq(knowledgeChunks.embeddingModel, embeddingModel),
+        gte(similarity, minSimilarity)
+      ))
+      .orderBy(asc(distance))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
+  }
+}
+
+// Process-local store for tests and databases without pgvector; not shared between instances
+export class InMemoryVectorStore implements VectorStore {
+  private readonly chunks = new Map<number, Array<ChunkInput & { agentId: number }>>();
+
+  async replaceItemChunks(agentId: number, knowledgeItemId: number, chunks: ChunkInput[]): Promise<void> {
+    this.chunks.set(knowledgeItemId, chunks.map(chunk => ({ ...chunk, agentId })));
+  }
+
+  async deleteItemChunks(knowledgeItemId: number): Promise<void> {
+    this.chunks.delete(knowledgeItemId);
+  }
+
+  async hasChunks(agentId: number, embeddingModel: string): Promise<boolean> {
+    return Array.from(this.chunks.values()).some(chunks =>
+      chunks.some(chunk => chunk.agentId === agentId && chunk.embeddingModel === embeddingModel)
+    );
+  }
+
+  async search(agentId: number, embeddingModel: string, embedding: number[], limit: number, minSimilarity: number): Promise<VectorSearchHit[]> {
+    const hits: VectorSearchHit[] = [];
+    this.chunks.forEach((chunks, knowledgeItemId) => {
+      for (const chunk of chunks) {
+        if (chunk.agentId !== agentId || chunk.embeddingModel !== embeddingModel) continue;
+        const similarity = cosineSimilarity(embedding, chunk.embedding);
+        if (similarity >= minSimilarity) {
+          hits.push({ knowledgeItemId, chunkIndex: chunk.chunkIndex, content: chunk.content, similarity });
+        }
+      }
+    });
+
+    return hits.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dotProduct = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+
+  if (magnitudeA === 0 || magnitudeB === 0) return 0;
+  return dotProduct / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+}
+
+// KNOWLEDGE_VECTOR_STORE=memory selects the in-memory store, e.g. for tests
+export const vectorStore: VectorStore = process.env.KNOWLEDGE_VECTOR_STORE === 'memory'
+  ? new InMemoryVectorStore()
+  : new PgVectorStore();
@@ -0,0 +1,80 @@
+import { Agent } from "@shared/schema";
+import { AITrainingService } from "./ai-training";
+import { logger } from "./logging";
+
+export interface RetrievedKnowledge {
+  id: number;
+  title: string;
+  content: string;
+  similarity: number;
+}
+
+export interface AugmentedPrompt {
+  systemPrompt: string;
+  knowledgeItemIds: number[];
+}
+
+const DEFAULT_RETRIEVAL_CONFIG = {
+  enabled: true,
+  topK: 3
+};
+
+// Relevant passages score around 0.3-0.6 with the hosted models; the hashing embedder only
+// scores shared vocabulary, so paraphrases land lower still
+const DEFAULT_SIMILARITY_THRESHOLDS: Record<string, number> = {
+  openai: 0.35,
+  google: 0.35,
+  local: 0.2
+};
+
+// Passages are clipped so a few large chunks cannot crowd out the conversation
+const MAX_EXCERPT_LENGTH = 2000;
+
+export class KnowledgeRetrievalService {
+  async retrieve(agent: Agent, query: string): Promise<RetrievedKnowledge[]> {
+    const config = {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      similarityThreshold: DEFAULT_SIMILARITY_THRESHOLDS[agent.embeddingProvider] ?? DEFAULT_SIMILARITY_THRESHOLDS.openai,
+      ...agent.retrievalConfig
+    };
+    if (!config.enabled || !query.trim()) return [];
+
+    try {
+      const results = await AITrainingService.searchKnowledgeBase(agent.id, query, config.topK, config.similarityThreshold);
+      return results.map(item => ({
+        id: item.id,
+        title: item.title,
+        // The best matching passage rather than the whole item
+        content: item.passage,
+        similarity: item.similarity
+      }));
+    } catch (error) {
+      // Answer without knowledge rather than failing the reply
+      await logger.logError(error as Error, 'knowledge_retrieval', undefined, agent.id, { queryLength: query.length });
+      return [];
+    }
+  }
+
+  // Append the top matching knowledge items to the system prompt as numbered, citable sources
+  async augmentSystemPrompt(agent: Agent, systemPrompt: string, query: string): Promise<AugmentedPrompt> {
+    const items = await this.retrieve(agent, query);
+    if (items.length === 0) {
+      return { systemPrompt, knowledgeItemIds: [] };
+    }
+
+    const excerpts = items
+      .map((item, index) => `[${index + 1}] ${item.title}\n${item.content.slice(0, MAX_EXCERPT_LENGTH)}`)
+      .join('\n\n');
+
+    return {
+      systemPrompt: `${systemPrompt}
+
+Use the following knowledge base excerpts when they are relevant to the customer's question. Cite the excerpts you rely on by number in square brackets, e.g. [1]. If they do not cover the question, say so instead of guessing.
+
+${excerpts}`,
+      knowledgeItemIds: items.map(item => item.id)
+    };
+  }
+}
+
+export const knowledgeRetrievalService = new KnowledgeRetrievalService();
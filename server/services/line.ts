@@ -0,0 +1,138 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Agent } from "@shared/schema";
+import { logger } from "./logging";
+import type { ChannelAdapter, ContactProfile, InboundMessage, OutboundMessage, SendResult, WebhookRequest } from "./channel-adapter";
+
+export interface LineEvent {
+  type: 'message' | 'follow' | 'unfollow' | 'join' | 'leave' | 'postback';
+  timestamp: number;
+  replyToken?: string;
+  source: {
+    type: 'user' | 'group' | 'room';
+    userId?: string;
+    groupId?: string;
+    roomId?: string;
+  };
+  message?: {
+    id: string;
+    type: 'text' | 'image' | 'video' | 'audio' | 'file' | 'location' | 'sticker';
+    text?: string;
+  };
+}
+
+export interface LineWebhookPayload {
+  destination: string;
+  events: LineEvent[];
+}
+
+export class LineService implements ChannelAdapter<LineWebhookPayload> {
+  readonly platform = 'line';
+  readonly displayName = 'LINE';
+  private readonly baseUrl = 'https://api.line.me/v2/bot';
+
+  async sendMessage(channelToken: string, to: string, text: string): Promise<any> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/message/push`, {
+        to,
+        messages: [{ type: 'text', text }]
+      }, {
+        headers: {
+          'Authorization': `Bearer ${channelToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'line_send_message', undefined, undefined, { to, textLength: text.length });
+      throw new Error(`Failed to send LINE message: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async getUserProfile(channelToken: string, userId: string): Promise<any> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/profile/${userId}`, {
+        headers: { 'Authorization': `Bearer ${channelToken}` }
+      });
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'line_get_user_profile', undefined, undefined, { userId });
+      throw new Error(`Failed to get LINE user profile: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  async getBotInfo(channelToken: string): Promise<any> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/info`, {
+        headers: { 'Authorization': `Bearer ${channelToken}` }
+      });
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'line_get_bot_info', undefined, undefined, {});
+      throw new Error(`Failed to get LINE bot info: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  isConfigured(agent: Agent): boolean {
+    return !!(agent.lineChannelToken && agent.lineChannelSecret);
+  }
+
+  // LINE signs the raw body with the channel secret (base64 HMAC-SHA256 in X-Line-Signature)
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    const signature = request.headers['x-line-signature'];
+    if (!agent.lineChannelSecret || typeof signature !== 'string') return false;
+
+    const expected = crypto
+      .createHmac('sha256', agent.lineChannelSecret)
+      .update(request.rawBody)
+      .digest('base64');
+    const left = Buffer.from(signature);
+    const right = Buffer.from(expected);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  parseInbound(payload: LineWebhookPayload, agent: Agent): InboundMessage[] {
+    const messages: InboundMessage[] = [];
+
+    for (const event of payload.events || []) {
+      if (event.type !== 'message' || event.message?.type !== 'text' || !event.message.text) continue;
+
+      const userId = event.source.userId;
+      if (!userId) continue;
+
+      // Group and room chats are answered in the same group; 1:1 chats go back to the user
+      const threadId = event.source.groupId || event.source.roomId || userId;
+
+      messages.push({
+        messageId: event.message.id,
+        senderId: userId,
+        threadId,
+        sessionKey: threadId === userId ? userId : `${userId}_${threadId}`,
+        text: event.message.text,
+        timestamp: new Date(event.timestamp).toISOString(),
+        leadData: {
+          lineUserId: userId,
+          sourceType: event.source.type
+        },
+        raw: event
+      });
+    }
+
+    return messages;
+  }
+
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.lineChannelToken!, message.to, message.text);
+    return { messageId: result?.sentMessages?.[0]?.id };
+  }
+
+  async lookupProfile(agent: Agent, message: InboundMessage): Promise<ContactProfile> {
+    const profile = await this.getUserProfile(agent.lineChannelToken!, message.senderId);
+    return {
+      name: profile.displayName,
+      leadData: { pictureUrl: profile.pictureUrl, language: profile.language }
+    };
+  }
+}
+
+export const lineService = new LineService();
@@ -1,6 +1,6 @@
 import OpenAI from "openai";
 import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, type Content, type FunctionDeclaration } from '@google/generative-ai';
 import { calculateTokenCosts } from './cost-calculator.js';
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
@@ -26,6 +26,57 @@ export interface LLMResponse {
   };
 }
 
+// Receives each text fragment as the provider streams it
+export type TokenHandler = (delta: string) => void;
+
+// Provider-neutral tool declaration; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+// Chat history that can also carry tool calls and their results
+export type ToolConversationMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+// One model round trip: either final text, or tool calls to run before the next round
+export interface ToolTurn {
+  content: string;
+  toolCalls: ToolCall[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export type ToolExecutor = (call: ToolCall) => Promise<unknown>;
+
+export interface ToolCallingResponse extends LLMResponse {
+  toolCalls: Array<ToolCall & { result: unknown }>;
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, any> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
 export interface LeadQualification {
   score: number; // 0-100
   recommendation: 'continue' | 'call' | 'qualify';
@@ -70,6 +121,83 @@ export class OpenAIProvider {
     };
   }
 
+  async generateResponseStream(messages: ChatMessage[], model: string, onToken: TokenHandler): Promise<LLMResponse> {
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages: messages.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      temperature: 0.7,
+      max_tokens: 1000,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let content = '';
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      // Usage arrives on the final chunk, which has no choices
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    const costs = calculateTokenCosts(model, usage.promptTokens, usage.completionTokens);
+
+    return { content, usage, costs };
+  }
+
+  async generateToolTurn(messages: ToolConversationMessage[], model: string, tools: ToolDefinition[]): Promise<ToolTurn> {
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: messages.map((msg): OpenAI.Chat.ChatCompletionMessageParam => {
+        if (msg.role === 'tool') {
+          return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+        }
+        if ('toolCalls' in msg) {
+          return {
+            role: 'assistant',
+            content: msg.content || null,
+            tool_calls: msg.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+            }))
+          };
+        }
+        return { role: msg.role, content: msg.content };
+      }),
+      tools: tools.map(tool => ({ type: 'function' as const, function: tool })),
+      temperature: 0.7,
+      max_tokens: 1000,
+    });
+
+    const message = response.choices[0].message;
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments)
+      })),
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        totalTokens: response.usage?.total_tokens || 0,
+      }
+    };
+  }
+
   async qualifyLead(conversationText: string, questions: string[]): Promise<LeadQualification> {
     const prompt = `Analyze this WhatsApp conversation and qualify the lead:
 
@@ -141,6 +269,93 @@ export class AnthropicProvider {
     };
   }
 
+  async generateResponseStream(messages: ChatMessage[], model: string, onToken: TokenHandler): Promise<LLMResponse> {
+    const systemMessage = messages.find(m => m.role === 'system')?.content || '';
+    const conversationMessages = messages.filter(m => m.role !== 'system');
+
+    const stream = this.client.messages.stream({
+      model,
+      system: systemMessage,
+      messages: conversationMessages.map(msg => ({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content
+      })),
+      max_tokens: 1000,
+      temperature: 0.7,
+    });
+    stream.on('text', onToken);
+
+    const response = await stream.finalMessage();
+    const usage = {
+      promptTokens: response.usage.input_tokens,
+      completionTokens: response.usage.output_tokens,
+      totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+    };
+
+    const costs = calculateTokenCosts(model, usage.promptTokens, usage.completionTokens);
+
+    return {
+      content: response.content.map(block => block.type === 'text' ? block.text : '').join(''),
+      usage,
+      costs
+    };
+  }
+
+  async generateToolTurn(messages: ToolConversationMessage[], model: string, tools: ToolDefinition[]): Promise<ToolTurn> {
+    const systemMessage = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const conversationMessages: Anthropic.MessageParam[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        // Results for one round of calls go back together in a single user turn
+        const result: Anthropic.ToolResultBlockParam = { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content };
+        const last = conversationMessages[conversationMessages.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(block => block.type === 'tool_result')) {
+          last.content.push(result);
+        } else {
+          conversationMessages.push({ role: 'user', content: [result] });
+        }
+        continue;
+      }
+
+      if ('toolCalls' in msg) {
+        conversationMessages.push({
+          role: 'assistant',
+          content: [
+            ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+            ...msg.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments }))
+          ]
+        });
+        continue;
+      }
+
+      conversationMessages.push({ role: msg.role, content: msg.content });
+    }
+
+    const response = await this.client.messages.create({
+      model,
+      system: systemMessage,
+      messages: conversationMessages,
+      tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+      max_tokens: 1000,
+      temperature: 0.7,
+    });
+
+    return {
+      content: response.content.map(block => block.type === 'text' ? block.text : '').join(''),
+      toolCalls: response.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input as Record<string, any> })),
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      }
+    };
+  }
+
   async qualifyLead(conversationText: string, questions: string[]): Promise<LeadQualification> {
     const prompt = `Analyze this WhatsApp conversation and qualify the lead:
 
@@ -218,6 +433,108 @@ export class GoogleAIProvider {
     };
   }
 
+  async generateResponseStream(messages: ChatMessage[], model: string, onToken: TokenHandler): Promise<LLMResponse> {
+    const genAI = this.client.getGenerativeModel({ model });
+
+    const systemMessage = messages.find(m => m.role === 'system')?.content || '';
+    const conversationMessages = messages.filter(m => m.role !== 'system');
+
+    const history = conversationMessages.slice(0, -1).map(msg => ({
+      role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
+      parts: [{ text: msg.content }]
+    }));
+
+    const lastMessage = conversationMessages[conversationMessages.length - 1];
+    const prompt = systemMessage ? `${systemMessage}\n\n${lastMessage.content}` : lastMessage.content;
+
+    const chat = genAI.startChat({ history });
+    const result = await chat.sendMessageStream(prompt);
+
+    let content = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+    }
+
+    // Same rough estimation as generateResponse
+    const usage = {
+      promptTokens: Math.floor(prompt.length / 4),
+      completionTokens: Math.floor(content.length / 4),
+      totalTokens: Math.floor((prompt.length + content.length) / 4),
+    };
+
+    const costs = calculateTokenCosts(model, usage.promptTokens, usage.completionTokens);
+
+    return { content, usage, costs };
+  }
+
+  async generateToolTurn(messages: ToolConversationMessage[], model: string, tools: ToolDefinition[]): Promise<ToolTurn> {
+    const systemMessage = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const genAI = this.client.getGenerativeModel({
+      model,
+      ...(systemMessage ? { systemInstruction: systemMessage } : {}),
+      tools: [{
+        // Gemini accepts the same JSON Schema subset; the SDK types want its SchemaType enum
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        })) as unknown as FunctionDeclaration[]
+      }]
+    });
+
+    const contents: Content[] = [];
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        const part = { functionResponse: { name: msg.name, response: { result: parseToolArguments(msg.content) } } };
+        const last = contents[contents.length - 1];
+        if (last?.role === 'function') {
+          last.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
+        continue;
+      }
+
+      if ('toolCalls' in msg) {
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(msg.content ? [{ text: msg.content }] : []),
+            ...msg.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        });
+        continue;
+      }
+
+      contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts: [{ text: msg.content }] });
+    }
+
+    const result = await genAI.generateContent({ contents });
+    const response = result.response;
+    const parts = response.candidates?.[0]?.content?.parts || [];
+
+    return {
+      content: parts.map(part => part.text || '').join(''),
+      // Gemini does not assign call IDs, so derive stable ones from the position
+      toolCalls: (response.functionCalls() || []).map((call, index) => ({
+        id: `${call.name}_${index}`,
+        name: call.name,
+        arguments: (call.args || {}) as Record<string, any>
+      })),
+      usage: {
+        promptTokens: response.usageMetadata?.promptTokenCount || 0,
+        completionTokens: response.usageMetadata?.candidatesTokenCount || 0,
+        totalTokens: response.usageMetadata?.totalTokenCount || 0,
+      }
+    };
+  }
+
   async qualifyLead(conversationText: string, questions: string[]): Promise<LeadQualification> {
     const genAI = this.client.getGenerativeModel({ model: 'gemini-1.5-pro' });
     
@@ -312,6 +629,90 @@ export async function generateChatResponse(
   return await provider.generateResponse(messages, model);
 }
 
+// Streaming variant: onToken receives text as it is generated, the resolved
+// response carries the full content plus usage and costs
+export async function streamChatResponse(
+  messages: ChatMessage[],
+  llmProvider: string,
+  onToken: TokenHandler
+): Promise<LLMResponse> {
+  const provider = LLMProviderFactory.createProvider(llmProvider);
+  const model = LLMProviderFactory.getModelForProvider(llmProvider);
+  return await provider.generateResponseStream(messages, model, onToken);
+}
+
+// Sent when the model produces no text even after its tool rounds
+const TOOL_FALLBACK_REPLY = "Sorry, I couldn't finish looking that up. Could you rephrase your question, or ask to speak with our team?";
+
+// Providers read only the first system message, so the note is appended to it
+function withSystemNote(messages: ChatMessage[], note: string): ChatMessage[] {
+  const index = messages.findIndex(message => message.role === 'system');
+  if (index === -1) return [{ role: 'system', content: note }, ...messages];
+  return messages.map((message, i) => i === index ? { ...message, content: `${message.content}\n\n${note}` } : message);
+}
+
+// Tool-calling variant: runs model turns, executing requested tools and feeding their
+// results back, until the model answers in text; after maxRounds it must answer without tools
+export async function generateChatResponseWithTools(
+  messages: ChatMessage[],
+  llmProvider: string,
+  tools: ToolDefinition[],
+  executeTool: ToolExecutor,
+  maxRounds: number = 5
+): Promise<ToolCallingResponse> {
+  const provider = LLMProviderFactory.createProvider(llmProvider);
+  const model = LLMProviderFactory.getModelForProvider(llmProvider);
+
+  const history: ToolConversationMessage[] = [...messages];
+  const executed: ToolCallingResponse['toolCalls'] = [];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let content = '';
+  let wantsTools = false;
+
+  for (let round = 0; round < maxRounds; round++) {
+    const turn = await provider.generateToolTurn(history, model, tools);
+    usage.promptTokens += turn.usage.promptTokens;
+    usage.completionTokens += turn.usage.completionTokens;
+    usage.totalTokens += turn.usage.totalTokens;
+    content = turn.content;
+    wantsTools = turn.toolCalls.length > 0;
+
+    if (!wantsTools) break;
+
+    history.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+    for (const call of turn.toolCalls) {
+      let result: unknown;
+      try {
+        result = await executeTool(call);
+      } catch (error: any) {
+        // Let the model see the failure and recover instead of aborting the reply
+        result = { error: error.message };
+      }
+      executed.push({ ...call, result });
+      history.push({ role: 'tool', toolCallId: call.id, name: call.name, content: JSON.stringify(result ?? null) });
+    }
+  }
+
+  if (wantsTools) {
+    // Out of rounds while the model still wants tools: ask once more, with no tools offered,
+    // for an answer from the results gathered so far
+    const results = executed.map(call => `${call.name}(${JSON.stringify(call.arguments)}) returned ${JSON.stringify(call.result ?? null)}`);
+    const final = await provider.generateResponse(withSystemNote(messages,
+      `Tool results for this reply:\n${results.join('\n')}\nNo more tools are available; answer the customer now.`), model);
+    usage.promptTokens += final.usage?.promptTokens || 0;
+    usage.completionTokens += final.usage?.completionTokens || 0;
+    usage.totalTokens += final.usage?.totalTokens || 0;
+    content = final.content;
+  }
+  if (!content.trim()) {
+    content = TOOL_FALLBACK_REPLY;
+  }
+
+  const costs = calculateTokenCosts(model, usage.promptTokens, usage.completionTokens);
+
+  return { content, usage, costs, toolCalls: executed };
+}
+
 // Main interface for lead qualification
 export async function qualifyLead(
   conversationText: string, 
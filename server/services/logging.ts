@@ -116,6 +116,29 @@ export class LoggingService {
     });
   }
 
+  // Agent Activity Logging
+  async logAgent(
+    action: string,
+    userId?: number,
+    agentId?: number,
+    success: boolean = true,
+    metadata?: Record<string, any>
+  ) {
+    await this.addLog({
+      level: success ? 'info' : 'warn',
+      category: 'agent',
+      message: `Agent ${action}: ${success ? 'success' : 'failed'}`,
+      userId,
+      agentId,
+      metadata: {
+        action,
+        success,
+        timestamp: new Date().toISOString(),
+        ...metadata,
+      },
+    });
+  }
+
   // Cost Tracking Logging
   async logCost(
     provider: string,
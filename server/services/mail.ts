@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as net from "net";
+import { randomBytes } from "crypto";
+import { logger } from "./logging";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  from?: string;
+  replyTo?: string;
+  agentId?: number;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string; messageId: string }): Promise<void>;
+}
+
+const DEFAULT_FROM = 'AgentFlow <no-reply@agentflow.local>';
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+// Addresses and subjects can come from customer input, so line breaks must not start new headers
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function buildRfc822(message: MailMessage & { from: string; messageId: string }): string {
+  const headers = [
+    `Message-ID: <${message.messageId}>`,
+    `Date: ${new Date().toUTCString()}`,
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${headerValue(message.replyTo)}`] : []),
+    `Subject: ${headerValue(message.subject)}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}`;
+}
+
+// Writes each message as an .eml file; the default so flows can be tested without a mail server
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox')) {}
+
+  async send(message: MailMessage & { from: string; messageId: string }): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.messageId.split('@')[0]}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), buildRfc822(message), 'utf8');
+  }
+}
+
+/**
+ * Plain SMTP without TLS or authentication, for local capture servers such as MailHog or
+ * smtp4dev (SMTP_HOST, SMTP_PORT). Not suitable for delivering to real mailboxes.
+ */
+export class SmtpStubTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(
+    private readonly host: string = process.env.SMTP_HOST || 'localhost',
+    private readonly port: number = parseInt(process.env.SMTP_PORT || '1025')
+  ) {}
+
+  send(message: MailMessage & { from: string; messageId: string }): Promise<void> {
+    const address = (value: string) => headerValue((value.match(/<([^>]+)>/) || [null, value])[1]!);
+    // Lines starting with a dot are escaped so they do not end the DATA section early
+    const body = buildRfc822(message).replace(/(^|\r\n)\./g, '$1..');
+    const commands = [
+      `HELO agentflow.local`,
+      `MAIL FROM:<${address(message.from)}>`,
+      `RCPT TO:<${address(message.to)}>`,
+      'DATA',
+      `${body}\r\n.`,
+      'QUIT'
+    ];
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(10000);
+      let buffer = '';
+      let step = -1;
+
+      const fail = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        // Wait for a complete final reply line, e.g. "250 OK\r\n" (not "250-...")
+        const lines = buffer.split('\r\n').filter(Boolean);
+        const last = lines[lines.length - 1];
+        if (!buffer.endsWith('\r\n') || !last || last[3] === '-') return;
+        buffer = '';
+
+        const code = parseInt(last.slice(0, 3));
+        if (code >= 400) {
+          fail(new Error(`SMTP server rejected ${step < 0 ? 'connection' : commands[step].split(':')[0]}: ${last}`));
+          return;
+        }
+
+        step++;
+        if (step < commands.length) {
+          socket.write(`${commands[step]}\r\n`);
+        } else {
+          socket.end();
+          resolve();
+        }
+      });
+      socket.on('timeout', () => fail(new Error('SMTP server timed out')));
+      socket.on('error', fail);
+    });
+  }
+}
+
+export class MailTransportFactory {
+  static createTransport(transport: string): MailTransport {
+    switch (transport.toLowerCase()) {
+      case 'file':
+        return new FileMailTransport();
+
+      case 'smtp':
+        return new SmtpStubTransport();
+
+      default:
+        throw new Error(`Unsupported mail transport: ${transport}`);
+    }
+  }
+}
+
+interface QueuedMail {
+  message: MailMessage & { from: string; messageId: string };
+  attempts: number;
+}
+
+/**
+ * In-process mail queue. enqueue() returns immediately; messages are sent one at a time
+ * through the configured transport (MAIL_TRANSPORT, default "file") and retried on failure.
+ */
+export class MailService {
+  private readonly queue: QueuedMail[] = [];
+  private processing = false;
+
+  constructor(private readonly transport: MailTransport = MailTransportFactory.createTransport(process.env.MAIL_TRANSPORT || 'file')) {}
+
+  enqueue(message: MailMessage): string {
+    const messageId = `${randomBytes(12).toString('hex')}@agentflow.local`;
+    this.queue.push({
+      message: { ...message, from: message.from || process.env.MAIL_FROM || DEFAULT_FROM, messageId },
+      attempts: 0
+    });
+    void this.processQueue();
+    return messageId;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let item: QueuedMail | undefined;
+      while ((item = this.queue.shift())) {
+        await this.deliver(item);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(item: QueuedMail): Promise<void> {
+    const { message } = item;
+    try {
+      item.attempts++;
+      await this.transport.send(message);
+      await logger.logAgent('mail_sent', undefined, message.agentId, true, {
+        messageId: message.messageId,
+        transport: this.transport.name,
+        to: message.to
+      });
+    } catch (error) {
+      if (item.attempts < MAX_ATTEMPTS) {
+        const retry = setTimeout(() => {
+          this.queue.push(item);
+          void this.processQueue();
+        }, RETRY_DELAY_MS * item.attempts);
+        retry.unref();
+        return;
+      }
+
+      await logger.logError(error as Error, 'mail_delivery', undefined, message.agentId, {
+        messageId: message.messageId,
+        transport: this.transport.name,
+        attempts: item.attempts
+      });
+    }
+  }
+}
+
+export const mailService = new MailService();
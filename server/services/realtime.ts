@@ -0,0 +1,135 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { AuthService } from "../auth";
+import { storage } from "../storage";
+import { logger } from "./logging";
+
+export const REALTIME_PATH = '/api/realtime';
+
+// Keeps idle connections open through proxies and drops clients that stopped answering
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+export type RealtimeEvent =
+  | {
+      type: 'message';
+      agentId: number;
+      conversationId: number;
+      platform: string;
+      direction: 'inbound' | 'outbound';
+      message: { role: string; content: string; timestamp: string; sentBy?: number };
+    }
+  | { type: 'message_status'; agentId: number; conversationId: number | null; whatsappMessageId: string; status: string }
+  | { type: 'lead_score'; agentId: number; conversationId: number; score: number; recommendation?: string }
+  | { type: 'handoff'; agentId: number; conversationId: number; state: string; assignedUserId: number | null };
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: number;
+  agentIds: Set<number>;
+  alive: boolean;
+}
+
+/**
+ * Pushes conversation activity to dashboard clients over a WebSocket at /api/realtime.
+ * Clients authenticate with their session token (`?token=`) and receive events for the
+ * agents they own, or only for the `agentId` query parameters they pass.
+ */
+export class RealtimeService {
+  private readonly clients = new Set<RealtimeClient>();
+  private server?: WebSocketServer;
+  private heartbeat?: NodeJS.Timeout;
+
+  attach(httpServer: Server): void {
+    this.server = new WebSocketServer({ noServer: true });
+
+    // Other upgrade requests (e.g. the Vite HMR socket in development) are left alone
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      if (url.pathname !== REALTIME_PATH) return;
+
+      this.authorize(url)
+        .then(client => {
+          if (!client) {
+            socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+
+          this.server!.handleUpgrade(request, socket, head, (ws) => this.register(ws, client.userId, client.agentIds));
+        })
+        .catch(async (error) => {
+          await logger.logError(error as Error, 'realtime_upgrade');
+          socket.destroy();
+        });
+    });
+
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(client => {
+        if (!client.alive) {
+          client.socket.terminate();
+          return;
+        }
+        client.alive = false;
+        client.socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  publish(event: RealtimeEvent): void {
+    if (this.clients.size === 0) return;
+
+    const data = JSON.stringify(event);
+    this.clients.forEach(client => {
+      if (client.agentIds.has(event.agentId) && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(data);
+      }
+    });
+  }
+
+  // Customer messages are inbound; bot and staff messages are outbound
+  publishMessage(
+    conversation: { id: number; agentId: number; platform: string | null },
+    message: { role: string; content: string; timestamp: string; sentBy?: number }
+  ): void {
+    this.publish({
+      type: 'message',
+      agentId: conversation.agentId,
+      conversationId: conversation.id,
+      platform: conversation.platform || 'web',
+      direction: message.role === 'user' ? 'inbound' : 'outbound',
+      message
+    });
+  }
+
+  private async authorize(url: URL): Promise<{ userId: number; agentIds: Set<number> } | undefined> {
+    const token = url.searchParams.get('token');
+    const user = token ? await AuthService.validateSession(token) : null;
+    if (!user) return undefined;
+
+    const ownedAgentIds = (await storage.getUserAgents(user.id)).map(agent => agent.id);
+    const requested = url.searchParams.getAll('agentId').map(id => parseInt(id)).filter(id => !isNaN(id));
+    if (requested.length === 0) {
+      return { userId: user.id, agentIds: new Set(ownedAgentIds) };
+    }
+
+    // Same access rule as the agent endpoints: managers and admins may watch any agent
+    const canWatchAll = ['system_admin', 'business_manager'].includes(user.role);
+    const agentIds = requested.filter(id => canWatchAll || ownedAgentIds.includes(id));
+    return agentIds.length === requested.length ? { userId: user.id, agentIds: new Set(agentIds) } : undefined;
+  }
+
+  private register(socket: WebSocket, userId: number, agentIds: Set<number>): void {
+    const client: RealtimeClient = { socket, userId, agentIds, alive: true };
+    this.clients.add(client);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('close', () => { this.clients.delete(client); });
+    socket.on('error', () => { this.clients.delete(client); });
+
+    socket.send(JSON.stringify({ type: 'ready', agentIds: Array.from(agentIds) }));
+  }
+}
+
+export const realtimeService = new RealtimeService();
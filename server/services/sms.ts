@@ -0,0 +1,199 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Agent } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import type { ChannelAdapter, InboundMessage, KeywordReply, OutboundMessage, SendResult, WebhookRequest } from "./channel-adapter";
+
+// Form fields posted by Twilio-compatible providers for an incoming SMS
+export type SmsWebhookPayload = Record<string, string>;
+
+export interface InboundSms {
+  messageId: string;
+  from: string;
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  isConfigured(agent: Agent): boolean;
+  sendSms(agent: Agent, to: string, body: string): Promise<{ messageId?: string }>;
+  validateRequest(agent: Agent, request: WebhookRequest): boolean;
+  parseInbound(payload: SmsWebhookPayload): InboundSms | undefined;
+  // Returns a human-readable account name when the credentials are valid
+  verifyCredentials(agent: Agent): Promise<string>;
+}
+
+// X-Twilio-Signature is base64 HMAC-SHA1 of the URL followed by every form field
+// (name then value) sorted by name, keyed with the account auth token
+export function verifyTwilioSignature(authToken: string, request: WebhookRequest): boolean {
+  const signature = request.headers['x-twilio-signature'];
+  if (typeof signature !== 'string') return false;
+
+  const params = Array.from(new URLSearchParams(request.rawBody).entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const data = params.reduce((acc, [key, value]) => acc + key + value, request.url);
+
+  const expected = crypto
+    .createHmac('sha1', authToken)
+    .update(Buffer.from(data, 'utf8'))
+    .digest('base64');
+  const left = Buffer.from(signature);
+  const right = Buffer.from(expected);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  private readonly defaultBaseUrl = 'https://api.twilio.com';
+
+  isConfigured(agent: Agent): boolean {
+    return !!(agent.smsAccountSid && agent.smsAuthToken);
+  }
+
+  async sendSms(agent: Agent, to: string, body: string): Promise<{ messageId?: string }> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl(agent)}/2010-04-01/Accounts/${agent.smsAccountSid}/Messages.json`,
+        new URLSearchParams({ To: to, From: agent.smsNumber!, Body: body }).toString(),
+        {
+          auth: { username: agent.smsAccountSid!, password: agent.smsAuthToken! },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+        }
+      );
+      return { messageId: response.data.sid };
+    } catch (error: any) {
+      await logger.logError(error, 'sms_send_message', undefined, agent.id, { to, textLength: body.length });
+      throw new Error(`Failed to send SMS: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  validateRequest(agent: Agent, request: WebhookRequest): boolean {
+    return !!agent.smsAuthToken && verifyTwilioSignature(agent.smsAuthToken, request);
+  }
+
+  parseInbound(payload: SmsWebhookPayload): InboundSms | undefined {
+    if (!payload.MessageSid || !payload.From) return undefined;
+
+    return {
+      messageId: payload.MessageSid,
+      from: payload.From,
+      to: payload.To,
+      body: payload.Body || ''
+    };
+  }
+
+  async verifyCredentials(agent: Agent): Promise<string> {
+    try {
+      const response = await axios.get(
+        `${this.baseUrl(agent)}/2010-04-01/Accounts/${agent.smsAccountSid}.json`,
+        { auth: { username: agent.smsAccountSid!, password: agent.smsAuthToken! } }
+      );
+      return response.data.friendly_name;
+    } catch (error: any) {
+      await logger.logError(error, 'sms_verify_credentials', undefined, agent.id, {});
+      throw new Error(`Failed to verify SMS credentials: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  private baseUrl(agent: Agent): string {
+    return (agent.smsApiBaseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+}
+
+const smsProviders: Record<string, SmsProvider> = {
+  twilio: new TwilioSmsProvider(),
+};
+
+// Carrier-standard keywords; matched against the whole message, case-insensitively
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const OPT_IN_KEYWORDS = ['START', 'YES', 'UNSTOP'];
+
+export class SmsService implements ChannelAdapter<SmsWebhookPayload> {
+  readonly platform = 'sms';
+  readonly displayName = 'SMS';
+  // Empty TwiML: replies are sent through the REST API, not the webhook response
+  readonly webhookAck = { contentType: 'text/xml', body: '<?xml version="1.0" encoding="UTF-8"?><Response></Response>' };
+
+  getProvider(agent: Agent): SmsProvider | undefined {
+    return smsProviders[agent.smsProvider || 'twilio'];
+  }
+
+  isConfigured(agent: Agent): boolean {
+    const provider = this.getProvider(agent);
+    return !!(agent.smsNumber && provider?.isConfigured(agent));
+  }
+
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    const provider = this.getProvider(agent);
+    return !!provider && provider.validateRequest(agent, request);
+  }
+
+  parseInbound(payload: SmsWebhookPayload, agent: Agent): InboundMessage[] {
+    const sms = this.getProvider(agent)?.parseInbound(payload);
+    if (!sms || !sms.body.trim()) return [];
+
+    return [{
+      messageId: sms.messageId,
+      senderId: sms.from,
+      threadId: sms.from,
+      text: sms.body,
+      timestamp: new Date().toISOString(),
+      leadData: {
+        phone: sms.from
+      },
+      raw: payload
+    }];
+  }
+
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const optOut = await storage.getSmsOptOut(agent.id, message.to);
+    if (optOut?.optedOut) {
+      return { suppressed: true };
+    }
+
+    return await this.getProvider(agent)!.sendSms(agent, message.to, message.text);
+  }
+
+  // STOP/START keywords update the opt-out state and get a confirmation instead of an AI reply.
+  // START and YES only count from opted-out numbers; otherwise they are ordinary answers.
+  async answerKeyword(agent: Agent, message: InboundMessage): Promise<KeywordReply | undefined> {
+    // Imported lazily: campaigns send through this service
+    const { campaignService } = await import('./campaigns');
+    const campaignAction = await campaignService.recordInbound(agent, 'sms', message.senderId, message.text, new Date(message.timestamp));
+
+    // START from a number only opted out of campaigns is confirmed too
+    const keyword = await this.matchKeyword(agent, message) || (campaignAction ? message.text.trim().toUpperCase() : undefined);
+    if (!keyword) return undefined;
+
+    const optedOut = OPT_OUT_KEYWORDS.includes(keyword);
+    await storage.setSmsOptOut(agent.id, message.senderId, optedOut, keyword);
+    await logger.logAgent(optedOut ? 'sms_opt_out' : 'sms_opt_in', undefined, agent.id, true, {
+      phoneNumber: message.senderId,
+      keyword
+    });
+
+    const text = optedOut
+      ? `You have been unsubscribed from ${agent.name} messages and will receive no further texts. Reply START to resubscribe.`
+      : `You have been resubscribed to ${agent.name} messages. Reply STOP to unsubscribe.`;
+    try {
+      await this.getProvider(agent)!.sendSms(agent, message.senderId, text);
+      return { text, delivered: true };
+    } catch (error) {
+      // Already logged by the provider; carriers that handle STOP themselves refuse the send (Twilio 21610)
+      return { text, delivered: false };
+    }
+  }
+
+  private async matchKeyword(agent: Agent, message: InboundMessage): Promise<string | undefined> {
+    const word = message.text.trim().toUpperCase();
+    if (OPT_OUT_KEYWORDS.includes(word)) return word;
+    if (!OPT_IN_KEYWORDS.includes(word)) return undefined;
+
+    const optOut = await storage.getSmsOptOut(agent.id, message.senderId);
+    return optOut?.optedOut ? word : undefined;
+  }
+}
+
+export const smsService = new SmsService();
@@ -1,9 +1,7 @@
 import axios from 'axios';
 import { Agent } from "@shared/schema";
-import { generateChatResponse } from "./llm-providers";
-import { storage } from "../storage";
 import { logger } from "./logging";
-import { conversationFlowService } from "./conversation-flow";
+import type { ChannelAdapter, InboundMessage, OutboundMessage, SendResult } from "./channel-adapter";
 
 export interface TelegramMessage {
   message_id: number;
@@ -56,7 +54,9 @@ export interface TelegramWebhookPayload {
   };
 }
 
-export class TelegramService {
+export class TelegramService implements ChannelAdapter<TelegramWebhookPayload> {
+  readonly platform = 'telegram';
+  readonly displayName = 'Telegram';
   private readonly baseUrl = 'https://api.telegram.org/bot';
 
   async sendMessage(botToken: string, chatId: number | string, text: string): Promise<any> {
@@ -95,100 +95,33 @@ export class TelegramService {
     }
   }
 
-  async processWebhookPayload(payload: TelegramWebhookPayload, agent: Agent): Promise<void> {
-    try {
-      const message = payload.message || payload.edited_message;
-      if (!message || !message.text) return;
-
-      await logger.logAgent('telegram_message_received', undefined, agent.id, true, {
-        chatId: message.chat.id,
-        messageId: message.message_id,
-        from: message.from.first_name,
-        textLength: message.text.length
-      });
-
-      // Find or create conversation
-      const sessionId = `telegram_${message.chat.id}_${agent.id}`;
-      let conversation = await storage.getConversationBySession(sessionId);
-      
-      if (!conversation) {
-        conversation = await storage.createConversation({
-          agentId: agent.id,
-          sessionId,
-          messages: [],
-          leadData: {
-            name: `${message.from.first_name} ${message.from.last_name || ''}`.trim(),
-            phone: null,
-            email: null,
-            source: 'telegram',
-            chatId: message.chat.id.toString(),
-            username: message.from.username
-          },
-          status: "active",
-          platform: "telegram"
-        });
-      }
-
-      // Add user message to conversation
-      const userMessage = {
-        role: 'user',
-        content: message.text,
-        timestamp: new Date(message.date * 1000).toISOString()
-      };
-
-      const updatedMessages = [...(conversation.messages || []), userMessage];
-
-      // Check if flow is enabled and process accordingly
-      let aiResponse: string;
-      
-      if (agent.flowEnabled && agent.conversationFlow) {
-        const flowContext = {
-          userId: message.from.id.toString(),
-          userName: `${message.from.first_name} ${message.from.last_name || ''}`.trim(),
-          userInput: message.text,
-          conversationCount: updatedMessages.filter(m => m.role === 'user').length,
-          variables: {},
-          leadData: conversation.leadData
-        };
-
-        const flowResult = await conversationFlowService.executeFlow(agent, flowContext);
-        aiResponse = flowResult.message;
-      } else {
-        // Generate AI response using traditional method
-        aiResponse = await generateChatResponse(
-          agent.llmProvider,
-          agent.model || 'gpt-4o',
-          agent.systemPrompt,
-          updatedMessages
-        );
-      }
-
-      // Add AI response to conversation
-      const assistantMessage = {
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date().toISOString()
-      };
-
-      await storage.updateConversation(conversation.id, {
-        messages: [...updatedMessages, assistantMessage]
-      });
+  isConfigured(agent: Agent): boolean {
+    return !!agent.telegramBotToken;
+  }
 
-      // Send response via Telegram
-      if (agent.telegramBotToken) {
-        await this.sendMessage(agent.telegramBotToken, message.chat.id, aiResponse);
-        
-        await logger.logAgent('telegram_response_sent', undefined, agent.id, true, {
-          chatId: message.chat.id,
-          responseLength: aiResponse.length
-        });
-      }
+  parseInbound(payload: TelegramWebhookPayload, agent: Agent): InboundMessage[] {
+    const message = payload.message || payload.edited_message;
+    if (!message || !message.text) return [];
+
+    return [{
+      messageId: message.message_id.toString(),
+      senderId: message.from.id.toString(),
+      threadId: message.chat.id.toString(),
+      sessionKey: message.chat.id.toString(),
+      senderName: `${message.from.first_name} ${message.from.last_name || ''}`.trim(),
+      text: message.text,
+      timestamp: new Date(message.date * 1000).toISOString(),
+      leadData: {
+        chatId: message.chat.id.toString(),
+        username: message.from.username
+      },
+      raw: payload
+    }];
+  }
 
-    } catch (error) {
-      await logger.logError(error as Error, 'telegram_webhook_processing', undefined, agent.id, {
-        updateId: payload.update_id
-      });
-    }
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.telegramBotToken!, message.to, message.text);
+    return { messageId: result.result?.message_id?.toString() };
   }
 }
 
@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { logger } from "./logging";
+import { verifyTwilioSignature } from "./sms";
+import type { WebhookRequest } from "./channel-adapter";
+
+export type CallStatus = 'queued' | 'ringing' | 'in_progress' | 'completed' | 'busy' | 'no_answer' | 'failed' | 'canceled';
+
+// Statuses after which the provider sends no further call progress
+export const TERMINAL_CALL_STATUSES: CallStatus[] = ['completed', 'busy', 'no_answer', 'failed', 'canceled'];
+
+export interface OutboundCallRequest {
+  to: string;
+  // What the voice agent says when the call is answered
+  script: string;
+  // Public URL the provider posts call progress, recordings and transcripts to
+  statusCallbackUrl: string;
+}
+
+// One provider callback; fields the provider did not send are left undefined
+export interface CallStatusUpdate {
+  callId: string;
+  status?: CallStatus;
+  duration?: number; // Seconds
+  recordingUrl?: string;
+  transcript?: string;
+}
+
+export interface CallArtifacts {
+  recordingUrl?: string;
+  transcript?: string;
+  costCents?: number;
+  currency?: string;
+}
+
+export interface TelephonyProvider {
+  readonly name: string;
+  createCall(request: OutboundCallRequest): Promise<{ callId: string; status: CallStatus }>;
+  validateRequest(request: WebhookRequest): boolean;
+  parseCallback(payload: Record<string, string>): CallStatusUpdate | undefined;
+  // Recording, transcript and price once the call has finished
+  fetchCallArtifacts(callId: string): Promise<CallArtifacts>;
+  // In-process providers deliver status updates here instead of through the webhook
+  onStatusUpdate?(listener: (update: CallStatusUpdate) => Promise<void>): void;
+}
+
+const TWILIO_STATUSES: Record<string, CallStatus> = {
+  queued: 'queued',
+  initiated: 'queued',
+  ringing: 'ringing',
+  'in-progress': 'in_progress',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no_answer',
+  failed: 'failed',
+  canceled: 'canceled'
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+}
+
+/**
+ * Twilio Programmable Voice, or any host with the same REST API (TWILIO_API_BASE_URL).
+ * The call reads the script, then records and transcribes the customer's reply.
+ */
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    private readonly accountSid: string = process.env.TWILIO_ACCOUNT_SID || '',
+    private readonly authToken: string = process.env.TWILIO_AUTH_TOKEN || '',
+    private readonly fromNumber: string = process.env.TWILIO_VOICE_NUMBER || '',
+    private readonly baseUrl: string = (process.env.TWILIO_API_BASE_URL || 'https://api.twilio.com').replace(/\/+$/, '')
+  ) {}
+
+  async createCall(request: OutboundCallRequest): Promise<{ callId: string; status: CallStatus }> {
+    if (!this.accountSid || !this.authToken || !this.fromNumber) {
+      throw new Error('Twilio voice is not configured: set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_VOICE_NUMBER');
+    }
+
+    const callbackUrl = escapeXml(request.statusCallbackUrl);
+    const twiml = `<Response><Say>${escapeXml(request.script)}</Say>`
+      + `<Record maxLength="120" playBeep="false" transcribe="true" transcribeCallback="${callbackUrl}" `
+      + `recordingStatusCallback="${callbackUrl}"/></Response>`;
+
+    const form = new URLSearchParams({
+      To: request.to,
+      From: this.fromNumber,
+      Twiml: twiml,
+      StatusCallback: request.statusCallbackUrl,
+      StatusCallbackMethod: 'POST'
+    });
+    ['initiated', 'ringing', 'answered', 'completed'].forEach(event => form.append('StatusCallbackEvent', event));
+
+    try {
+      const response = await axios.post(this.accountUrl('/Calls.json'), form.toString(), {
+        auth: { username: this.accountSid, password: this.authToken },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+      return { callId: response.data.sid, status: TWILIO_STATUSES[response.data.status] || 'queued' };
+    } catch (error: any) {
+      await logger.logError(error, 'telephony_create_call', undefined, undefined, { provider: this.name });
+      throw new Error(`Failed to create call: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  validateRequest(request: WebhookRequest): boolean {
+    return !!this.authToken && verifyTwilioSignature(this.authToken, request);
+  }
+
+  // Handles call status, recording status and transcription callbacks alike
+  parseCallback(payload: Record<string, string>): CallStatusUpdate | undefined {
+    if (!payload.CallSid) return undefined;
+
+    const duration = parseInt(payload.CallDuration || '');
+    return {
+      callId: payload.CallSid,
+      status: payload.CallStatus ? TWILIO_STATUSES[payload.CallStatus] : undefined,
+      duration: isNaN(duration) ? undefined : duration,
+      recordingUrl: payload.RecordingUrl || undefined,
+      transcript: payload.TranscriptionStatus === 'completed' ? payload.TranscriptionText : undefined
+    };
+  }
+
+  async fetchCallArtifacts(callId: string): Promise<CallArtifacts> {
+    const auth = { username: this.accountSid, password: this.authToken };
+    try {
+      const [call, recordings] = await Promise.all([
+        axios.get(this.accountUrl(`/Calls/${callId}.json`), { auth }),
+        axios.get(this.accountUrl('/Recordings.json'), { auth, params: { CallSid: callId } })
+      ]);
+
+      const artifacts: CallArtifacts = {};
+      // Twilio reports what it charged as a negative decimal string, e.g. "-0.0130"
+      if (call.data.price) {
+        artifacts.costCents = Math.round(Math.abs(parseFloat(call.data.price)) * 100);
+        artifacts.currency = (call.data.price_unit || 'USD').toUpperCase();
+      }
+
+      const recording = recordings.data.recordings?.[0];
+      if (recording) {
+        artifacts.recordingUrl = this.accountUrl(`/Recordings/${recording.sid}.mp3`);
+        const transcriptions = await axios.get(this.accountUrl(`/Recordings/${recording.sid}/Transcriptions.json`), { auth });
+        const transcription = transcriptions.data.transcriptions?.find((item: any) => item.status === 'completed');
+        if (transcription) artifacts.transcript = transcription.transcription_text;
+      }
+
+      return artifacts;
+    } catch (error: any) {
+      await logger.logError(error, 'telephony_fetch_artifacts', undefined, undefined, { provider: this.name, callId });
+      return {};
+    }
+  }
+
+  private accountUrl(path: string): string {
+    return `${this.baseUrl}/2010-04-01/Accounts/${this.accountSid}${path}`;
+  }
+}
+
+/**
+ * Local provider for development and demos. No call is placed; the outcome depends only on
+ * the number's last digit (0 no answer, 1 busy, 2 failed, otherwise completed), so repeated
+ * runs give the same analytics.
+ */
+export class StubTelephonyProvider implements TelephonyProvider {
+  readonly name = 'stub';
+  private listener?: (update: CallStatusUpdate) => Promise<void>;
+  private readonly calls = new Map<string, { to: string; script: string; status: CallStatus }>();
+  private sequence = 0;
+
+  constructor(private readonly delayMs: number = parseInt(process.env.STUB_CALL_DELAY_MS || '1000')) {}
+
+  async createCall(request: OutboundCallRequest): Promise<{ callId: string; status: CallStatus }> {
+    const callId = `stub_${Date.now()}_${++this.sequence}`;
+    this.calls.set(callId, { to: request.to, script: request.script, status: 'queued' });
+
+    const ringing = setTimeout(() => {
+      void this.emit({ callId, status: 'ringing' });
+      const finished = setTimeout(() => void this.emit(this.finalUpdate(callId)), this.delayMs);
+      finished.unref();
+    }, this.delayMs);
+    ringing.unref();
+
+    return { callId, status: 'queued' };
+  }
+
+  // Stub updates never arrive over HTTP
+  validateRequest(): boolean {
+    return false;
+  }
+
+  parseCallback(): CallStatusUpdate | undefined {
+    return undefined;
+  }
+
+  async fetchCallArtifacts(callId: string): Promise<CallArtifacts> {
+    const call = this.calls.get(callId);
+    if (!call || call.status !== 'completed') return {};
+    return { transcript: this.transcript(call.script), costCents: 0, currency: 'USD' };
+  }
+
+  onStatusUpdate(listener: (update: CallStatusUpdate) => Promise<void>): void {
+    this.listener = listener;
+  }
+
+  private finalUpdate(callId: string): CallStatusUpdate {
+    const call = this.calls.get(callId)!;
+    const lastDigit = call.to.replace(/\D/g, '').slice(-1);
+    const status: CallStatus = lastDigit === '0' ? 'no_answer' : lastDigit === '1' ? 'busy' : lastDigit === '2' ? 'failed' : 'completed';
+    if (status !== 'completed') return { callId, status, duration: 0 };
+
+    // Roughly the time it takes to read the script aloud plus a short reply
+    const words = call.script.split(/\s+/).filter(Boolean).length;
+    return { callId, status, duration: Math.round(words / 2.5) + 20, transcript: this.transcript(call.script) };
+  }
+
+  private transcript(script: string): string {
+    return `Agent: ${script.trim()}\nCustomer: Thanks for calling. I'm interested, please send me the details.`;
+  }
+
+  private async emit(update: CallStatusUpdate): Promise<void> {
+    const call = this.calls.get(update.callId);
+    if (call && update.status) call.status = update.status;
+    try {
+      await this.listener?.(update);
+    } catch (error) {
+      await logger.logError(error as Error, 'telephony_stub_status', undefined, undefined, { callId: update.callId });
+    }
+  }
+}
+
+export class TelephonyProviderFactory {
+  static createProvider(provider: string): TelephonyProvider {
+    switch (provider.toLowerCase()) {
+      case 'twilio':
+        return new TwilioTelephonyProvider();
+
+      case 'stub':
+        return new StubTelephonyProvider();
+
+      default:
+        throw new Error(`Unsupported telephony provider: ${provider}`);
+    }
+  }
+}
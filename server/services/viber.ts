@@ -0,0 +1,125 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Agent } from "@shared/schema";
+import { logger } from "./logging";
+import type { ChannelAdapter, InboundMessage, OutboundMessage, SendResult, WebhookRequest } from "./channel-adapter";
+
+export interface ViberWebhookPayload {
+  event: 'message' | 'subscribed' | 'unsubscribed' | 'conversation_started' | 'delivered' | 'seen' | 'failed' | 'webhook';
+  timestamp: number;
+  message_token?: number;
+  sender?: {
+    id: string;
+    name?: string;
+    avatar?: string;
+    country?: string;
+    language?: string;
+  };
+  message?: {
+    type: 'text' | 'picture' | 'video' | 'file' | 'location' | 'contact' | 'sticker' | 'url';
+    text?: string;
+  };
+}
+
+export class ViberService implements ChannelAdapter<ViberWebhookPayload> {
+  readonly platform = 'viber';
+  readonly displayName = 'Viber';
+  private readonly baseUrl = 'https://chatapi.viber.com/pa';
+  // Viber rejects sender names longer than 28 characters
+  private readonly maxSenderNameLength = 28;
+
+  async sendMessage(authToken: string, receiver: string, text: string, senderName: string): Promise<any> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/send_message`, {
+        receiver,
+        type: 'text',
+        sender: { name: senderName.slice(0, this.maxSenderNameLength) },
+        text
+      }, {
+        headers: { 'X-Viber-Auth-Token': authToken }
+      });
+
+      // Viber answers HTTP 200 with a non-zero status on failure
+      if (response.data?.status !== 0) {
+        throw new Error(response.data?.status_message || `status ${response.data?.status}`);
+      }
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'viber_send_message', undefined, undefined, { receiver, textLength: text.length });
+      throw new Error(`Failed to send Viber message: ${error.message}`);
+    }
+  }
+
+  async setWebhook(authToken: string, webhookUrl: string): Promise<any> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/set_webhook`, {
+        url: webhookUrl,
+        event_types: ['delivered', 'seen', 'failed', 'subscribed', 'unsubscribed', 'conversation_started']
+      }, {
+        headers: { 'X-Viber-Auth-Token': authToken }
+      });
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'viber_set_webhook', undefined, undefined, { webhookUrl });
+      throw new Error(`Failed to set Viber webhook: ${error.message}`);
+    }
+  }
+
+  async getAccountInfo(authToken: string): Promise<any> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/get_account_info`, {}, {
+        headers: { 'X-Viber-Auth-Token': authToken }
+      });
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'viber_get_account_info', undefined, undefined, {});
+      throw new Error(`Failed to get Viber account info: ${error.message}`);
+    }
+  }
+
+  isConfigured(agent: Agent): boolean {
+    return !!agent.viberApiKey;
+  }
+
+  // Viber signs the raw body with the auth token (hex HMAC-SHA256 in X-Viber-Content-Signature)
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    const signature = request.headers['x-viber-content-signature'] || request.query.sig;
+    if (!agent.viberApiKey || typeof signature !== 'string') return false;
+
+    const expected = crypto
+      .createHmac('sha256', agent.viberApiKey)
+      .update(request.rawBody)
+      .digest('hex');
+    const left = Buffer.from(signature);
+    const right = Buffer.from(expected);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+
+  parseInbound(payload: ViberWebhookPayload, agent: Agent): InboundMessage[] {
+    if (payload.event !== 'message' || !payload.sender || payload.message?.type !== 'text' || !payload.message.text) {
+      return [];
+    }
+
+    return [{
+      messageId: payload.message_token?.toString() || `${payload.sender.id}_${payload.timestamp}`,
+      senderId: payload.sender.id,
+      threadId: payload.sender.id,
+      senderName: payload.sender.name,
+      text: payload.message.text,
+      timestamp: new Date(payload.timestamp).toISOString(),
+      leadData: {
+        viberUserId: payload.sender.id,
+        country: payload.sender.country,
+        language: payload.sender.language
+      },
+      raw: payload
+    }];
+  }
+
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent.viberApiKey!, message.to, message.text, agent.name);
+    return { messageId: result.message_token?.toString() };
+  }
+}
+
+export const viberService = new ViberService();
@@ -1,6 +1,16 @@
 import OpenAI from "openai";
 import { storage } from "../storage";
-import type { VoiceCall, InsertVoiceCall, Agent, Conversation } from "@shared/schema";
+import type { VoiceCall, InsertVoiceCall, InsertVoiceCallAnalytics, Agent, Conversation } from "@shared/schema";
+import {
+  TelephonyProviderFactory,
+  TERMINAL_CALL_STATUSES,
+  type CallStatus,
+  type CallStatusUpdate,
+  type TelephonyProvider
+} from "./telephony";
+import { callComplianceService } from "./call-compliance";
+import { callAnalysisService } from "./call-analysis";
+import { logger } from "./logging";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -15,7 +25,7 @@ export interface VoiceCallService {
     triggeredBy: string;
   }): Promise<VoiceCall>;
   
-  processCallWebhook(callId: string, status: string, data: any): Promise<void>;
+  processCallWebhook(callId: string, status: CallStatus | undefined, data: Partial<CallStatusUpdate>): Promise<void>;
   analyzeConversationForTrigger(conversationId: number): Promise<boolean>;
   generateCallScript(agent: Agent, conversation?: Conversation): Promise<string>;
   scheduleFollowUp(callId: number, followUpDate: Date): Promise<void>;
@@ -29,6 +39,33 @@ export class AIVoiceCallingService implements VoiceCallService {
     empathetic: "shimmer"
   };
 
+  private readonly callFinishedListeners: Array<(voiceCall: VoiceCall, status: CallStatus) => Promise<void>> = [];
+
+  constructor(
+    private readonly telephony: TelephonyProvider = TelephonyProviderFactory.createProvider(process.env.TELEPHONY_PROVIDER || 'stub')
+  ) {
+    this.telephony.onStatusUpdate?.(update => this.processCallWebhook(update.callId, update.status, update));
+  }
+
+  getTelephonyProvider(): TelephonyProvider {
+    return this.telephony;
+  }
+
+  // Called once per call when it reaches a final status, e.g. so the scheduler can retry no-answers
+  onCallFinished(listener: (voiceCall: VoiceCall, status: CallStatus) => Promise<void>): void {
+    this.callFinishedListeners.push(listener);
+  }
+
+  private async notifyCallFinished(voiceCall: VoiceCall, status: CallStatus): Promise<void> {
+    for (const listener of this.callFinishedListeners) {
+      try {
+        await listener(voiceCall, status);
+      } catch (error) {
+        console.error("Voice call listener failed:", error);
+      }
+    }
+  }
+
   async triggerVoiceCall(params: {
     agentId: number;
     conversationId?: number;
@@ -41,6 +78,12 @@ export class AIVoiceCallingService implements VoiceCallService {
       throw new Error("Agent not found");
     }
 
+    // Hard stop for numbers on the do-not-call list, without consent or in quiet hours
+    const consent = await callComplianceService.enforce(agent, params.phoneNumber, {
+      triggeredBy: params.triggeredBy,
+      conversationId: params.conversationId
+    });
+
     // Get conversation context if provided
     let conversation: Conversation | undefined;
     if (params.conversationId) {
@@ -61,109 +104,97 @@ export class AIVoiceCallingService implements VoiceCallService {
       conversationId: params.conversationId,
       phoneNumber: params.phoneNumber,
       triggeredBy: params.triggeredBy,
-      triggerReason: params.triggerReason,
       voiceModel,
       systemPrompt,
       callScript,
+      callData: { triggerReason: params.triggerReason, provider: this.telephony.name, consentId: consent?.id },
       status: "pending",
     });
 
-    // Initiate the actual voice call
+    // Place the call; progress arrives later through processCallWebhook
     await this.initiateVoiceCall(voiceCall);
 
-    return voiceCall;
+    return (await storage.getVoiceCall(voiceCall.id)) || voiceCall;
   }
 
   private async initiateVoiceCall(voiceCall: VoiceCall): Promise<void> {
     try {
-      // Update status to calling
-      await storage.updateVoiceCallStatus(voiceCall.id, "calling");
-
-      // For demo purposes, we'll simulate the call process
-      // In production, this would integrate with a telephony provider like Twilio/Vapi
-      const callResult = await this.simulateVoiceCall(voiceCall);
-      
-      // Update call with results
-      await storage.updateVoiceCall(voiceCall.id, {
-        status: callResult.status,
-        callId: callResult.callId,
-        transcript: callResult.transcript,
-        sentiment: callResult.sentiment,
-        callOutcome: callResult.outcome,
-        leadScore: callResult.leadScore,
-        callDuration: callResult.duration,
-        completedAt: new Date(),
+      const { callId, status } = await this.telephony.createCall({
+        to: voiceCall.phoneNumber,
+        script: voiceCall.callScript || "",
+        statusCallbackUrl: this.statusCallbackUrl()
       });
-
-      // Update analytics
-      await this.updateCallAnalytics(voiceCall.agentId, callResult);
-
+      await storage.updateVoiceCall(voiceCall.id, { callId, status });
     } catch (error) {
       console.error("Voice call failed:", error);
-      await storage.updateVoiceCallStatus(voiceCall.id, "failed");
+      const failed = await storage.updateVoiceCall(voiceCall.id, { status: "failed", outcome: "failed", completedAt: new Date() });
+      await this.updateCallAnalytics(voiceCall.agentId, { status: "failed" });
+      await this.notifyCallFinished(failed || voiceCall, "failed");
     }
   }
 
-  private async simulateVoiceCall(voiceCall: VoiceCall) {
-    // Simulate call processing with OpenAI
-    const conversationPrompt = `
-${voiceCall.systemPrompt}
-
-CALL SCRIPT:
-${voiceCall.callScript}
-
-Simulate a phone conversation where you're calling ${voiceCall.phoneNumber} regarding ${voiceCall.triggerReason}.
-Respond as if you're having a real conversation with a potential customer.
-`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: conversationPrompt },
-        { role: "user", content: "Hello? Who is this?" }
-      ],
-      temperature: 0.7,
-    });
-
-    const aiResponse = response.choices[0].message.content || "";
-    
-    // Simulate conversation outcome
-    const outcomes = ["conversion", "callback_scheduled", "not_interested", "no_answer"];
-    const sentiments = ["positive", "neutral", "negative"];
-    
-    return {
-      status: "completed" as const,
-      callId: `call_${Date.now()}`,
-      transcript: `Customer: Hello? Who is this?\nAI Agent: ${aiResponse}\nCustomer: [Simulated customer response based on trigger reason]`,
-      sentiment: sentiments[Math.floor(Math.random() * sentiments.length)],
-      outcome: outcomes[Math.floor(Math.random() * outcomes.length)],
-      leadScore: Math.floor(Math.random() * 100),
-      duration: Math.floor(Math.random() * 300) + 60, // 1-6 minutes
-    };
+  // Provider callbacks must reach this server, so PUBLIC_BASE_URL is needed behind a proxy or tunnel
+  private statusCallbackUrl(): string {
+    return `${(process.env.PUBLIC_BASE_URL || 'http://localhost:5000').replace(/\/+$/, '')}/webhook/voice/status`;
   }
 
-  async processCallWebhook(callId: string, status: string, data: any): Promise<void> {
+  async processCallWebhook(callId: string, status: CallStatus | undefined, data: Partial<CallStatusUpdate>): Promise<void> {
     const voiceCall = await storage.getVoiceCallByCallId(callId);
     if (!voiceCall) {
       console.warn(`Voice call not found for callId: ${callId}`);
       return;
     }
 
-    await storage.updateVoiceCall(voiceCall.id, {
-      status,
-      transcript: data.transcript,
-      sentiment: data.sentiment,
-      callOutcome: data.outcome,
-      leadScore: data.leadScore,
-      callDuration: data.duration,
-      completedAt: status === "completed" ? new Date() : undefined,
-    });
+    // Callbacks can arrive out of order; a finished call keeps its final status
+    const alreadyFinished = TERMINAL_CALL_STATUSES.includes(voiceCall.status as CallStatus);
+    const finishing = !alreadyFinished && !!status && TERMINAL_CALL_STATUSES.includes(status);
+
+    const updates: Partial<InsertVoiceCall> = {};
+    const callData: Record<string, any> = { ...(voiceCall.callData || {}) };
+    if (status && !alreadyFinished) updates.status = status;
+    if (data.duration !== undefined) updates.duration = data.duration;
+    if (data.transcript) updates.transcription = data.transcript;
+    if (data.recordingUrl) callData.recordingUrl = data.recordingUrl;
+
+    let costCents: number | undefined;
+    if (finishing) {
+      updates.completedAt = new Date();
+      // Unanswered calls are final; answered ones get an outcome from transcript analysis
+      if (status !== 'completed') updates.outcome = status;
+
+      if (status === 'completed') {
+        const artifacts = await this.telephony.fetchCallArtifacts(callId);
+        if (artifacts.transcript && !updates.transcription && !voiceCall.transcription) updates.transcription = artifacts.transcript;
+        if (artifacts.recordingUrl && !callData.recordingUrl) callData.recordingUrl = artifacts.recordingUrl;
+        if (artifacts.costCents !== undefined) {
+          costCents = artifacts.costCents;
+          updates.cost = artifacts.costCents;
+          updates.currency = artifacts.currency || voiceCall.currency;
+        }
+      }
+    }
+    updates.callData = callData;
 
-    if (status === "completed") {
-      await this.updateCallAnalytics(voiceCall.agentId, data);
+    const updated = await storage.updateVoiceCall(voiceCall.id, updates);
+
+    if (finishing) {
+      await this.updateCallAnalytics(voiceCall.agentId, {
+        status: status!,
+        duration: updates.duration ?? voiceCall.duration ?? 0,
+        costCents
+      });
+      await this.notifyCallFinished(updated || voiceCall, status!);
+    }
+
+    // Twilio's transcript can arrive after the call has ended, so check on every callback.
+    // Runs in the background to keep provider callbacks fast.
+    if (updated && !updated.analysis && updated.status === 'completed' && updated.transcription) {
+      callAnalysisService.analyzeCall(updated).catch(error =>
+        logger.logError(error, 'voice_call_analysis', undefined, updated.agentId, { voiceCallId: updated.id }));
     }
   }
 
+  // Whether the agent's trigger settings allow an automatic call to this conversation's lead
   async analyzeConversationForTrigger(conversationId: number): Promise<boolean> {
     const conversation = await storage.getConversation(conversationId);
     if (!conversation) return false;
@@ -171,34 +202,28 @@ Respond as if you're having a real conversation with a potential customer.
     const trigger = await storage.getVoiceCallTrigger(conversation.agentId);
     if (!trigger?.enabled) return false;
 
-    // Check if phone number was captured
-    if (trigger.requirePhoneCapture) {
-      const hasPhone = conversation.metadata?.contactInfo?.phone;
-      if (!hasPhone) return false;
-    }
+    if (trigger.requirePhoneCapture && !conversation.leadData?.phone) return false;
+    if (trigger.requireEmailCapture && !conversation.leadData?.email) return false;
 
-    // Check engagement score
     const engagementScore = this.calculateEngagementScore(conversation);
-    if (engagementScore < trigger.minEngagementScore) return false;
+    if (engagementScore < (trigger.minEngagementScore ?? 50)) return false;
 
-    // Check if we haven't exceeded max attempts
     const existingCalls = await storage.getVoiceCallsByConversation(conversationId);
-    if (existingCalls.length >= trigger.maxAttemptsPerLead) return false;
+    if (existingCalls.length >= (trigger.maxAttemptsPerLead ?? 3)) return false;
 
     return true;
   }
 
   private calculateEngagementScore(conversation: Conversation): number {
-    // Simple engagement scoring based on conversation metadata
+    const customerMessages = (conversation.messages || []).filter(message => message.role === 'user').length;
     let score = 0;
-    
-    if (conversation.messagesCount > 3) score += 30;
-    if (conversation.messagesCount > 10) score += 20;
-    if (conversation.leadQualified) score += 40;
-    if (conversation.metadata?.contactInfo?.email) score += 10;
-    if (conversation.metadata?.contactInfo?.phone) score += 20;
-    if (conversation.metadata?.interests?.length > 0) score += 15;
-    
+
+    if (customerMessages > 3) score += 30;
+    if (customerMessages > 10) score += 20;
+    if ((conversation.conversionScore ?? 0) >= 70) score += 40;
+    if (conversation.leadData?.email) score += 10;
+    if (conversation.leadData?.phone) score += 20;
+
     return Math.min(score, 100);
   }
 
@@ -284,80 +309,51 @@ Previous Conversation:
   }
 
   async scheduleFollowUp(callId: number, followUpDate: Date): Promise<void> {
-    await storage.updateVoiceCall(callId, {
-      followUpRequired: true,
-      followUpDate,
+    const voiceCall = await storage.getVoiceCall(callId);
+    if (!voiceCall) {
+      throw new Error("Voice call not found");
+    }
+
+    const { callScheduler } = await import('./call-scheduler');
+    await callScheduler.scheduleCall({
+      agentId: voiceCall.agentId,
+      conversationId: voiceCall.conversationId ?? undefined,
+      phoneNumber: voiceCall.phoneNumber,
+      triggerReason: `Follow-up to call ${voiceCall.id}`,
+      triggeredBy: "follow_up",
+      notBefore: followUpDate
     });
+    await storage.updateVoiceCall(callId, { callbackScheduled: true });
   }
 
-  private async updateCallAnalytics(agentId: number, callResult: any): Promise<void> {
+  // Counts each call once, when it reaches a final status
+  private async updateCallAnalytics(agentId: number, call: { status: string; duration?: number; costCents?: number }): Promise<void> {
     const today = new Date().toISOString().split('T')[0];
     
     let analytics = await storage.getVoiceCallAnalytics(agentId, today);
     
     if (!analytics) {
-      analytics = await storage.createVoiceCallAnalytics({
-        agentId,
-        date: today,
-        totalCalls: 0,
-        successfulConnections: 0,
-        failedCalls: 0,
-        noAnswers: 0,
-        conversions: 0,
-        callbacksScheduled: 0,
-        notInterested: 0,
-        avgCallDuration: 0,
-        totalTalkTime: 0,
-        avgLeadScore: 0,
-        totalCost: 0,
-        costPerCall: 0,
-        costPerConversion: 0,
-      });
+      analytics = await storage.createVoiceCallAnalytics({ agentId, date: today });
     }
 
-    // Update metrics based on call result
-    const updates: Partial<typeof analytics> = {
-      totalCalls: analytics.totalCalls + 1,
-      totalTalkTime: analytics.totalTalkTime + callResult.duration,
+    const connections = analytics.successfulConnections ?? 0;
+    const updates: Partial<InsertVoiceCallAnalytics> = {
+      totalCalls: (analytics.totalCalls ?? 0) + 1,
+      totalCost: (analytics.totalCost ?? 0) + (call.costCents ?? 0),
     };
 
-    if (callResult.status === "completed") {
-      updates.successfulConnections = analytics.successfulConnections + 1;
-      
-      switch (callResult.outcome) {
-        case "conversion":
-          updates.conversions = analytics.conversions + 1;
-          break;
-        case "callback_scheduled":
-          updates.callbacksScheduled = analytics.callbacksScheduled + 1;
-          break;
-        case "not_interested":
-          updates.notInterested = analytics.notInterested + 1;
-          break;
-      }
-    } else if (callResult.status === "no_answer") {
-      updates.noAnswers = analytics.noAnswers + 1;
+    if (call.status === "completed") {
+      updates.successfulConnections = connections + 1;
+      // Average talk time over answered calls only
+      updates.avgCallDuration = Math.round(((analytics.avgCallDuration ?? 0) * connections + (call.duration ?? 0)) / (connections + 1));
+    } else if (call.status === "no_answer" || call.status === "busy") {
+      updates.noAnswers = (analytics.noAnswers ?? 0) + 1;
     } else {
-      updates.failedCalls = analytics.failedCalls + 1;
-    }
-
-    // Calculate averages
-    updates.avgCallDuration = Math.round(updates.totalTalkTime! / updates.totalCalls!);
-    updates.avgLeadScore = Math.round(
-      ((analytics.avgLeadScore * analytics.totalCalls) + callResult.leadScore) / updates.totalCalls!
-    );
-
-    // Update cost metrics (estimated)
-    const costPerCall = 50; // 50 cents per call
-    updates.totalCost = analytics.totalCost + costPerCall;
-    updates.costPerCall = Math.round(updates.totalCost! / updates.totalCalls!);
-    
-    if (updates.conversions! > 0) {
-      updates.costPerConversion = Math.round(updates.totalCost! / updates.conversions!);
+      updates.failedCalls = (analytics.failedCalls ?? 0) + 1;
     }
 
     await storage.updateVoiceCallAnalytics(analytics.id, updates);
   }
 }
 
-export const voiceCallingService = new AIVoiceCallingService();
\ No newline at end of file
+export const voiceCallingService = new AIVoiceCallingService();
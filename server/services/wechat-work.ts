@@ -0,0 +1,178 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Agent } from "@shared/schema";
+import { logger } from "./logging";
+import type { ChannelAdapter, InboundMessage, OutboundMessage, SendResult, WebhookRequest, WebhookVerification } from "./channel-adapter";
+
+// Decrypted WeChat Work callback message (fields of the inner XML document)
+export interface WeChatWorkMessage {
+  ToUserName: string;
+  FromUserName: string;
+  CreateTime: string;
+  MsgType: 'text' | 'image' | 'voice' | 'video' | 'location' | 'link' | 'event';
+  Content?: string;
+  MsgId?: string;
+  AgentID?: string;
+}
+
+export class WeChatWorkService implements ChannelAdapter<string> {
+  readonly platform = 'wechat';
+  readonly displayName = 'WeChat Work';
+  // WeChat Work retries deliveries that are not acknowledged with this exact body
+  readonly webhookAck = { contentType: 'text/plain', body: 'success' };
+  private readonly baseUrl = 'https://qyapi.weixin.qq.com/cgi-bin';
+  private accessTokens = new Map<string, { token: string; expiresAt: number }>();
+
+  async getAccessToken(corpId: string, secret: string): Promise<string> {
+    const cacheKey = `${corpId}:${secret}`;
+    const cached = this.accessTokens.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    try {
+      const response = await axios.get(`${this.baseUrl}/gettoken`, {
+        params: { corpid: corpId, corpsecret: secret }
+      });
+      if (response.data.errcode) {
+        throw new Error(response.data.errmsg);
+      }
+
+      // Refresh a minute early so in-flight sends never carry an expired token
+      this.accessTokens.set(cacheKey, {
+        token: response.data.access_token,
+        expiresAt: Date.now() + (response.data.expires_in - 60) * 1000
+      });
+      return response.data.access_token;
+    } catch (error: any) {
+      await logger.logError(error, 'wechat_get_access_token', undefined, undefined, { corpId });
+      throw new Error(`Failed to get WeChat Work access token: ${error.message}`);
+    }
+  }
+
+  async sendMessage(agent: Agent, toUser: string, text: string): Promise<any> {
+    try {
+      const accessToken = await this.getAccessToken(agent.wechatCorpId!, agent.wechatSecret!);
+      const response = await axios.post(`${this.baseUrl}/message/send`, {
+        touser: toUser,
+        msgtype: 'text',
+        agentid: parseInt(agent.wechatAgentId!),
+        text: { content: text }
+      }, {
+        params: { access_token: accessToken }
+      });
+
+      if (response.data.errcode) {
+        // 40014 / 42001: token revoked or expired early, drop it so the next send refetches
+        if (response.data.errcode === 40014 || response.data.errcode === 42001) {
+          this.accessTokens.delete(`${agent.wechatCorpId}:${agent.wechatSecret}`);
+        }
+        throw new Error(response.data.errmsg);
+      }
+      return response.data;
+    } catch (error: any) {
+      await logger.logError(error, 'wechat_send_message', undefined, agent.id, { toUser, textLength: text.length });
+      throw new Error(`Failed to send WeChat Work message: ${error.message}`);
+    }
+  }
+
+  isConfigured(agent: Agent): boolean {
+    return !!(agent.wechatCorpId && agent.wechatSecret && agent.wechatAgentId && agent.wechatToken && agent.wechatEncodingAesKey);
+  }
+
+  // URL verification: check the signature over echostr, then return it decrypted
+  verifyWebhook(agent: Agent, query: Record<string, any>): WebhookVerification {
+    const { msg_signature, timestamp, nonce, echostr } = query;
+    if (!agent.wechatToken || !agent.wechatEncodingAesKey) {
+      return { verified: false, reason: 'WeChat Work callback token not configured' };
+    }
+    if (!echostr || msg_signature !== this.sign(agent.wechatToken, timestamp, nonce, echostr)) {
+      return { verified: false, reason: 'Invalid signature' };
+    }
+
+    try {
+      return { verified: true, challenge: this.decrypt(agent, echostr) };
+    } catch (error) {
+      return { verified: false, reason: 'Unable to decrypt echostr' };
+    }
+  }
+
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    const { msg_signature, timestamp, nonce } = request.query;
+    const encrypted = extractXmlField(request.rawBody, 'Encrypt');
+    if (!agent.wechatToken || !encrypted || !msg_signature) return false;
+
+    return msg_signature === this.sign(agent.wechatToken, timestamp, nonce, encrypted);
+  }
+
+  parseInbound(payload: string, agent: Agent): InboundMessage[] {
+    const encrypted = typeof payload === 'string' ? extractXmlField(payload, 'Encrypt') : undefined;
+    if (!encrypted) return [];
+
+    const xml = this.decrypt(agent, encrypted);
+    const message: WeChatWorkMessage = {
+      ToUserName: extractXmlField(xml, 'ToUserName') || '',
+      FromUserName: extractXmlField(xml, 'FromUserName') || '',
+      CreateTime: extractXmlField(xml, 'CreateTime') || '',
+      MsgType: (extractXmlField(xml, 'MsgType') || 'text') as WeChatWorkMessage['MsgType'],
+      Content: extractXmlField(xml, 'Content'),
+      MsgId: extractXmlField(xml, 'MsgId'),
+      AgentID: extractXmlField(xml, 'AgentID')
+    };
+
+    if (message.MsgType !== 'text' || !message.Content || !message.FromUserName) return [];
+
+    const createdAt = parseInt(message.CreateTime);
+    return [{
+      messageId: message.MsgId || `${message.FromUserName}_${message.CreateTime}`,
+      senderId: message.FromUserName,
+      threadId: message.FromUserName,
+      text: message.Content,
+      timestamp: (isNaN(createdAt) ? new Date() : new Date(createdAt * 1000)).toISOString(),
+      leadData: {
+        wechatUserId: message.FromUserName
+      },
+      raw: message
+    }];
+  }
+
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    const result = await this.sendMessage(agent, message.to, message.text);
+    return { messageId: result.msgid };
+  }
+
+  private sign(token: string, timestamp: string, nonce: string, encrypted: string): string {
+    return crypto
+      .createHash('sha1')
+      .update([token, timestamp, nonce, encrypted].sort().join(''))
+      .digest('hex');
+  }
+
+  // AES-256-CBC with the EncodingAESKey; plaintext is 16 random bytes, a 4-byte
+  // big-endian length, the message, then the corp ID it was sent to
+  private decrypt(agent: Agent, encrypted: string): string {
+    const key = Buffer.from(`${agent.wechatEncodingAesKey}=`, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, key.subarray(0, 16));
+    decipher.setAutoPadding(false);
+
+    const padded = Buffer.concat([decipher.update(encrypted, 'base64'), decipher.final()]);
+    const padding = padded[padded.length - 1];
+    const plain = padded.subarray(0, padded.length - (padding >= 1 && padding <= 32 ? padding : 0));
+
+    const length = plain.readUInt32BE(16);
+    const message = plain.subarray(20, 20 + length).toString('utf8');
+    const receiverId = plain.subarray(20 + length).toString('utf8');
+
+    if (agent.wechatCorpId && receiverId !== agent.wechatCorpId) {
+      throw new Error('WeChat Work message was encrypted for a different corp');
+    }
+    return message;
+  }
+}
+
+function extractXmlField(xml: string, field: string): string | undefined {
+  const match = xml.match(new RegExp(`<${field}>(?:<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>|([^<]*))</${field}>`));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+export const wechatWorkService = new WeChatWorkService();
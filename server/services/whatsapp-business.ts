@@ -1,11 +1,16 @@
-import { Agent } from "@shared/schema";
-import { generateChatResponse } from "./llm-providers";
+import { Agent, Conversation, WhatsappMessage, WhatsappTemplate } from "@shared/schema";
+import { nanoid } from "nanoid";
+import { promises as fs } from "fs";
+import path from "path";
 import { storage } from "../storage";
-import { conversationFlowService } from "./conversation-flow";
+import { realtimeService } from "./realtime";
+import { verifyHubSignature, type ChannelAdapter, type InboundMessage, type KeywordReply, type OutboundMessage, type SendResult, type WebhookRequest, type WebhookVerification } from "./channel-adapter";
+
+export type WhatsAppMediaType = 'image' | 'document' | 'audio' | 'video';
 
 export interface WhatsAppMessage {
   id: string;
-  type: 'text' | 'image' | 'document' | 'audio' | 'video';
+  type: 'text' | WhatsAppMediaType | 'sticker' | 'location' | 'interactive' | 'button';
   timestamp: string;
   from: string;
   text?: {
@@ -35,8 +40,68 @@ export interface WhatsAppMessage {
     sha256: string;
     caption?: string;
   };
+  sticker?: {
+    id: string;
+    mime_type: string;
+    sha256: string;
+  };
+  location?: WhatsAppLocation;
+  // Replies to reply buttons and list messages
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  // Quick reply buttons on template messages
+  button?: {
+    text: string;
+    payload: string;
+  };
+}
+
+export interface WhatsAppLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+// Outbound media is either a public URL or the id of media already uploaded to WhatsApp
+export interface WhatsAppMediaSource {
+  link?: string;
+  id?: string;
+  caption?: string;
+  // Shown to the recipient for documents
+  filename?: string;
 }
 
+export interface WhatsAppReplyOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+// A template as listed by the Business Management API
+export interface WhatsAppRemoteTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: string;
+  category?: string;
+  rejected_reason?: string;
+  components?: WhatsappTemplate['components'];
+}
+
+// A filled-in template component as sent with a template message
+export interface WhatsAppTemplateComponentPayload {
+  type: 'header' | 'body' | 'button';
+  sub_type?: 'quick_reply' | 'url' | 'copy_code';
+  index?: string;
+  parameters: Array<Record<string, any>>;
+}
+
+type SendOutcome = { success: boolean; messageId?: string; error?: string };
+
 export interface WhatsAppWebhookPayload {
   object: string;
   entry: Array<{
@@ -61,29 +126,168 @@ export interface WhatsAppWebhookPayload {
           timestamp: string;
           recipient_id: string;
         }>;
+        // Sent with field "message_template_status_update" when a template is reviewed
+        event?: string;
+        message_template_id?: number | string;
+        message_template_name?: string;
+        message_template_language?: string;
+        reason?: string | null;
       };
       field: string;
     }>;
   }>;
 }
 
-export class WhatsAppBusinessService {
+// WhatsApp Cloud API limits for interactive messages
+const MAX_REPLY_BUTTONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_ROW_ID = 200;
+const MAX_INTERACTIVE_BODY = 1024;
+
+// Reply ids carry the full choice text, since button and row titles are cut short
+const CHOICE_ID_PREFIX = 'choice:';
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt'
+};
+
+export class WhatsAppBusinessService implements ChannelAdapter<WhatsAppWebhookPayload> {
+  readonly platform = 'whatsapp';
+  readonly displayName = 'WhatsApp';
   private readonly baseUrl = 'https://graph.facebook.com/v18.0';
 
+  // Inbound media is saved under <mediaDirectory>/whatsapp/<agentId>/
+  constructor(private readonly mediaDirectory = process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'uploads')) {}
+
   async sendMessage(
     accessToken: string,
     phoneNumberId: string,
     to: string,
     message: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendOutcome> {
+    if (!message) {
+      return { success: false, error: 'Missing required parameters for WhatsApp message' };
+    }
+    return this.postMessage(accessToken, phoneNumberId, to, { type: 'text', text: { body: message } });
+  }
+
+  // Up to three tappable buttons under the message
+  async sendReplyButtons(
+    accessToken: string,
+    phoneNumberId: string,
+    to: string,
+    body: string,
+    buttons: Array<{ id: string; title: string }>
+  ): Promise<SendOutcome> {
+    if (buttons.length === 0 || buttons.length > MAX_REPLY_BUTTONS) {
+      return { success: false, error: `Reply buttons need between 1 and ${MAX_REPLY_BUTTONS} buttons` };
+    }
+
+    return this.postMessage(accessToken, phoneNumberId, to, {
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text: body.slice(0, MAX_INTERACTIVE_BODY) },
+        action: {
+          buttons: buttons.map(button => ({
+            type: 'reply',
+            reply: { id: button.id, title: button.title.slice(0, MAX_BUTTON_TITLE) }
+          }))
+        }
+      }
+    });
+  }
+
+  // A menu of up to ten rows, opened with buttonText
+  async sendListMessage(
+    accessToken: string,
+    phoneNumberId: string,
+    to: string,
+    body: string,
+    buttonText: string,
+    rows: WhatsAppReplyOption[]
+  ): Promise<SendOutcome> {
+    if (rows.length === 0 || rows.length > MAX_LIST_ROWS) {
+      return { success: false, error: `List messages need between 1 and ${MAX_LIST_ROWS} rows` };
+    }
+
+    return this.postMessage(accessToken, phoneNumberId, to, {
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        body: { text: body.slice(0, MAX_INTERACTIVE_BODY) },
+        action: {
+          button: buttonText.slice(0, MAX_BUTTON_TITLE),
+          sections: [{
+            rows: rows.map(row => ({
+              id: row.id.slice(0, MAX_ROW_ID),
+              title: row.title.slice(0, MAX_ROW_TITLE),
+              ...(row.description ? { description: row.description.slice(0, MAX_ROW_DESCRIPTION) } : {})
+            }))
+          }]
+        }
+      }
+    });
+  }
+
+  async sendMedia(
+    accessToken: string,
+    phoneNumberId: string,
+    to: string,
+    type: WhatsAppMediaType,
+    media: WhatsAppMediaSource
+  ): Promise<SendOutcome> {
+    if (!media.link && !media.id) {
+      return { success: false, error: 'Media needs a link or an uploaded media id' };
+    }
+
+    return this.postMessage(accessToken, phoneNumberId, to, {
+      type,
+      [type]: {
+        ...(media.id ? { id: media.id } : { link: media.link }),
+        // WhatsApp rejects captions on audio
+        ...(media.caption && type !== 'audio' ? { caption: media.caption } : {}),
+        ...(media.filename && type === 'document' ? { filename: media.filename } : {})
+      }
+    });
+  }
+
+  async sendLocation(
+    accessToken: string,
+    phoneNumberId: string,
+    to: string,
+    location: WhatsAppLocation
+  ): Promise<SendOutcome> {
+    return this.postMessage(accessToken, phoneNumberId, to, { type: 'location', location });
+  }
+
+  // Sends any Cloud API message body; `content` holds the type and its type-specific object
+  private async postMessage(
+    accessToken: string,
+    phoneNumberId: string,
+    to: string,
+    content: Record<string, any>
+  ): Promise<SendOutcome> {
     try {
       // Validate inputs
-      if (!accessToken || !phoneNumberId || !to || !message) {
+      if (!accessToken || !phoneNumberId || !to) {
         console.error('WhatsApp sendMessage: Missing required parameters', {
           hasAccessToken: !!accessToken,
           hasPhoneNumberId: !!phoneNumberId,
-          hasTo: !!to,
-          hasMessage: !!message
+          hasTo: !!to
         });
         return { 
           success: false, 
@@ -91,7 +295,7 @@ export class WhatsAppBusinessService {
         };
       }
 
-      console.log(`Sending WhatsApp message to ${to} via phone number ID ${phoneNumberId}`);
+      console.log(`Sending WhatsApp ${content.type} message to ${to} via phone number ID ${phoneNumberId}`);
 
       const response = await fetch(`${this.baseUrl}/${phoneNumberId}/messages`, {
         method: 'POST',
@@ -102,10 +306,7 @@ export class WhatsAppBusinessService {
         body: JSON.stringify({
           messaging_product: 'whatsapp',
           to: to,
-          type: 'text',
-          text: {
-            body: message
-          }
+          ...content
         }),
       });
 
@@ -152,53 +353,54 @@ export class WhatsAppBusinessService {
     }
   }
 
+  // `components` fills the template's placeholders; see WhatsAppTemplateService.buildComponents
   async sendTemplateMessage(
     accessToken: string,
     phoneNumberId: string,
     to: string,
     templateName: string,
-    templateParams: string[] = []
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    languageCode: string,
+    components: WhatsAppTemplateComponentPayload[] = []
+  ): Promise<SendOutcome> {
+    return this.postMessage(accessToken, phoneNumberId, to, {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        ...(components.length > 0 ? { components } : {})
+      }
+    });
+  }
+
+  // Every template on the Business Account, following the API's pagination
+  async getMessageTemplates(
+    accessToken: string,
+    businessAccountId: string
+  ): Promise<{ success: boolean; templates?: WhatsAppRemoteTemplate[]; error?: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/${phoneNumberId}/messages`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messaging_product: 'whatsapp',
-          to: to,
-          type: 'template',
-          template: {
-            name: templateName,
-            language: {
-              code: 'en_US'
-            },
-            components: templateParams.length > 0 ? [{
-              type: 'body',
-              parameters: templateParams.map(param => ({
-                type: 'text',
-                text: param
-              }))
-            }] : []
-          }
-        }),
-      });
+      const templates: WhatsAppRemoteTemplate[] = [];
+      let url: string | undefined = `${this.baseUrl}/${businessAccountId}/message_templates?fields=id,name,language,status,category,components,rejected_reason&limit=100`;
 
-      const data = await response.json();
+      while (url) {
+        const response: Response = await fetch(url, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        });
+        const data: any = await response.json();
 
-      if (!response.ok) {
-        return {
-          success: false,
-          error: data.error?.message || 'Failed to send template message'
-        };
+        if (!response.ok) {
+          return {
+            success: false,
+            error: data.error?.message || 'Failed to fetch message templates'
+          };
+        }
+
+        templates.push(...(data.data || []));
+        url = data.paging?.next;
       }
 
-      return {
-        success: true,
-        messageId: data.messages?.[0]?.id
-      };
+      return { success: true, templates };
     } catch (error) {
       return {
         success: false,
@@ -243,102 +445,291 @@ export class WhatsAppBusinessService {
     }
   }
 
-  async processIncomingMessage(
-    agent: Agent,
-    message: WhatsAppMessage,
-    senderName?: string
-  ): Promise<{ response: string; shouldSend: boolean }> {
-    try {
-      // Extract message content
-      let messageContent = '';
-      if (message.type === 'text' && message.text?.body) {
-        messageContent = message.text.body;
-      } else if (message.type === 'image' && message.image?.caption) {
-        messageContent = `[Image] ${message.image.caption}`;
-      } else if (message.type === 'document' && message.document?.caption) {
-        messageContent = `[Document: ${message.document.filename}] ${message.document.caption}`;
-      } else if (message.type === 'audio') {
-        messageContent = '[Voice message received]';
-      } else if (message.type === 'video' && message.video?.caption) {
-        messageContent = `[Video] ${message.video.caption}`;
-      } else {
-        messageContent = `[${message.type} message received]`;
-      }
+  isConfigured(agent: Agent): boolean {
+    return !!(agent.whatsappAccessToken && agent.whatsappPhoneNumberId);
+  }
 
-      // Build conversation context
-      const conversationHistory = [
-        {
-          role: 'system' as const,
-          content: `${agent.systemPrompt}\n\nYou are responding to ${senderName || 'a customer'} via WhatsApp. Keep responses concise and conversational.`
-        },
-        {
-          role: 'user' as const,
-          content: messageContent
-        }
-      ];
-
-      // Generate AI response using preconfigured LLM
-      const aiResponse = await generateChatResponse(
-        conversationHistory,
-        agent.llmProvider
-      );
-
-      // Track analytics and costs for WhatsApp messages
-      if (aiResponse.costs && aiResponse.usage) {
-        try {
-          // Create or update analytics record for WhatsApp messages
-          await storage.createOrUpdateAnalytics({
-            agentId: agent.id,
-            date: new Date().toISOString().split('T')[0],
-            totalConversations: 1,
-            totalTokens: aiResponse.usage.totalTokens,
-            promptTokens: aiResponse.usage.promptTokens,
-            completionTokens: aiResponse.usage.completionTokens,
-            llmCosts: {
-              promptCost: parseFloat(aiResponse.costs.promptCost.toString()),
-              completionCost: parseFloat(aiResponse.costs.completionCost.toString()),
-              totalCost: parseFloat(aiResponse.costs.totalCost.toString()),
-              currency: aiResponse.costs.currency
-            }
+  verifySignature(agent: Agent, request: WebhookRequest): boolean {
+    return verifyHubSignature(agent.whatsappAppSecret, request);
+  }
+
+  parseInbound(payload: WhatsAppWebhookPayload, agent: Agent): InboundMessage[] {
+    const messages: InboundMessage[] = [];
+
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages' || !change.value.messages) continue;
+        // The Meta app may also serve other agents' numbers
+        if (change.value.metadata?.phone_number_id !== agent.whatsappPhoneNumberId) continue;
+
+        for (const message of change.value.messages) {
+          const senderContact = change.value.contacts?.find(contact => contact.wa_id === message.from);
+
+          messages.push({
+            messageId: message.id,
+            senderId: message.from,
+            threadId: message.from,
+            senderName: senderContact?.profile?.name,
+            text: this.extractMessageText(message),
+            timestamp: new Date(parseInt(message.timestamp) * 1000).toISOString(),
+            leadData: { phone: message.from },
+            raw: { message, metadata: change.value.metadata }
           });
-        } catch (error) {
-          console.error('Error tracking WhatsApp message analytics:', error);
         }
       }
+    }
 
-      return {
-        response: aiResponse.content,
-        shouldSend: true
-      };
+    return messages;
+  }
+
+  // Choices go out as reply buttons when they fit, then as a list, else numbered in the text
+  async sendReply(agent: Agent, message: OutboundMessage): Promise<SendResult> {
+    // Staff can answer threads that went quiet days ago; WhatsApp only takes templates then
+    const { whatsappSessionWindow } = await import("./whatsapp-session-window");
+    const window = await whatsappSessionWindow.getWindow(agent.id, message.to);
+    if (!window.open) {
+      const { messageId, template } = await whatsappSessionWindow.sendTemplateInstead(agent, window, {
+        to: message.to,
+        conversationId: message.conversationId
+      });
+      return { messageId, template: template.name };
+    }
+
+    const accessToken = agent.whatsappAccessToken!;
+    const phoneNumberId = agent.whatsappPhoneNumberId!;
+    const choices = message.choices || [];
+    const options = choices.map(choice => ({ id: `${CHOICE_ID_PREFIX}${choice}`, title: choice }));
+    const interactive = choices.length > 0 && message.text.length <= MAX_INTERACTIVE_BODY;
+
+    let result: SendOutcome;
+    let text = message.text;
+    let messageType = 'interactive';
+    if (interactive && choices.length <= MAX_REPLY_BUTTONS && choices.every(choice => choice.length <= MAX_BUTTON_TITLE)) {
+      result = await this.sendReplyButtons(accessToken, phoneNumberId, message.to, text, options);
+    } else if (interactive && choices.length <= MAX_LIST_ROWS && choices.every(choice => choice.length <= MAX_ROW_TITLE)) {
+      result = await this.sendListMessage(accessToken, phoneNumberId, message.to, text, 'Choose an option', options);
+    } else {
+      messageType = 'text';
+      if (choices.length > 0) {
+        text = `${text}\n\n${choices.map((choice, index) => `${index + 1}. ${choice}`).join('\n')}`;
+      }
+      result = await this.sendMessage(accessToken, phoneNumberId, message.to, text);
+    }
+
+    if (!result.success || !result.messageId) {
+      throw new Error(`Failed to send WhatsApp message: ${result.error || 'Unknown error'}`);
+    }
+
+    await storage.createWhatsappMessage({
+      id: nanoid(),
+      agentId: agent.id,
+      conversationId: message.conversationId,
+      whatsappMessageId: result.messageId,
+      direction: 'outbound',
+      fromNumber: agent.whatsappNumber || agent.whatsappPhoneNumberId!,
+      toNumber: message.to,
+      messageText: text,
+      messageType,
+      status: 'sent',
+      metadata: choices.length > 0 ? { choices } : {},
+      timestamp: new Date()
+    });
+
+    return { messageId: result.messageId };
+  }
+
+  verifyWebhook(agent: Agent, query: Record<string, any>): WebhookVerification {
+    if (!agent.whatsappWebhookVerifyToken) {
+      return { verified: false, reason: 'WhatsApp webhook not configured for this agent' };
+    }
+
+    if (query['hub.mode'] === 'subscribe' && query['hub.verify_token'] === agent.whatsappWebhookVerifyToken) {
+      return { verified: true, challenge: query['hub.challenge'] };
+    }
+
+    return { verified: false, reason: 'Verification failed' };
+  }
+
+  async onInbound(agent: Agent, message: InboundMessage, conversation: Conversation): Promise<void> {
+    const { message: whatsappMessage, metadata } = message.raw as {
+      message: WhatsAppMessage;
+      metadata: { display_phone_number: string; phone_number_id: string };
+    };
+
+    const media = this.isConfigured(agent) ? await this.saveInboundMedia(agent, whatsappMessage) : undefined;
+
+    await storage.createWhatsappMessage({
+      id: nanoid(),
+      agentId: agent.id,
+      conversationId: conversation.id,
+      whatsappMessageId: whatsappMessage.id,
+      direction: 'inbound',
+      fromNumber: whatsappMessage.from,
+      toNumber: metadata.display_phone_number,
+      messageText: message.text,
+      messageType: whatsappMessage.type,
+      metadata: {
+        senderName: message.senderName,
+        ...(media ? { media } : {}),
+        ...(whatsappMessage.location ? { location: whatsappMessage.location } : {})
+      },
+      timestamp: new Date(message.timestamp)
+    });
+
+    if (this.isConfigured(agent)) {
+      await this.markMessageAsRead(agent.whatsappAccessToken!, agent.whatsappPhoneNumberId!, whatsappMessage.id);
+    }
+  }
+
+  // STOP/START keywords update campaign opt-outs and get a confirmation instead of a bot reply
+  async answerKeyword(agent: Agent, message: InboundMessage, conversation: Conversation): Promise<KeywordReply | undefined> {
+    // Imported lazily: campaigns send through this service
+    const { campaignService } = await import("./campaigns");
+    const action = await campaignService.recordInbound(agent, 'whatsapp', message.senderId, message.text, new Date(message.timestamp));
+    if (!action) return undefined;
+
+    const text = action === 'opted_out'
+      ? `You have been unsubscribed from ${agent.name} broadcasts. Reply START to resubscribe.`
+      : `You have been resubscribed to ${agent.name} broadcasts. Reply STOP to unsubscribe.`;
+    if (!this.isConfigured(agent)) return { text, delivered: false };
+
+    const result = await this.sendMessage(agent.whatsappAccessToken!, agent.whatsappPhoneNumberId!, message.threadId, text);
+    if (!result.success || !result.messageId) {
+      console.error('Error sending WhatsApp keyword confirmation:', result.error);
+      return { text, delivered: false };
+    }
+
+    try {
+      await storage.createWhatsappMessage({
+        id: nanoid(),
+        agentId: agent.id,
+        conversationId: conversation.id,
+        whatsappMessageId: result.messageId,
+        direction: 'outbound',
+        fromNumber: agent.whatsappNumber || agent.whatsappPhoneNumberId!,
+        toNumber: message.threadId,
+        messageText: text,
+        messageType: 'text',
+        status: 'sent',
+        metadata: {},
+        timestamp: new Date()
+      });
     } catch (error) {
-      console.error('Error processing incoming message:', error);
-      return {
-        response: 'I apologize, but I encountered an error processing your message. Please try again.',
-        shouldSend: true
-      };
+      console.error('Error storing WhatsApp keyword confirmation:', error);
     }
+    return { text, delivered: true };
   }
 
-  validateWebhookSignature(
-    payload: string,
-    signature: string,
-    appSecret: string
-  ): boolean {
+  // Absolute path of a stored message's downloaded media, or undefined if it has none
+  mediaFilePath(message: WhatsappMessage): string | undefined {
+    const relative = message.metadata?.media?.path;
+    if (typeof relative !== 'string') return undefined;
+
+    const root = path.resolve(this.mediaDirectory);
+    const file = path.resolve(root, relative);
+    return file.startsWith(root + path.sep) ? file : undefined;
+  }
+
+  // Media URLs from WhatsApp expire after a few minutes, so inbound files are kept locally.
+  // A failed download is recorded on the message rather than stopping the reply.
+  private async saveInboundMedia(agent: Agent, message: WhatsAppMessage): Promise<Record<string, any> | undefined> {
+    const media = message.type === 'image' ? message.image
+      : message.type === 'document' ? message.document
+      : message.type === 'audio' ? message.audio
+      : message.type === 'video' ? message.video
+      : message.type === 'sticker' ? message.sticker
+      : undefined;
+    if (!media) return undefined;
+
+    const filename = message.document?.filename;
+    const details = { id: media.id, mimeType: media.mime_type, ...(filename ? { filename } : {}) };
     try {
-      const crypto = require('crypto');
-      const expectedSignature = 'sha256=' + crypto
-        .createHmac('sha256', appSecret)
-        .update(payload)
-        .digest('hex');
-      
-      return crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature)
-      );
+      const headers = { 'Authorization': `Bearer ${agent.whatsappAccessToken}` };
+      const lookup = await fetch(`${this.baseUrl}/${media.id}`, { headers });
+      const info = await lookup.json();
+      if (!lookup.ok || !info.url) {
+        throw new Error(info.error?.message || 'Media URL not available');
+      }
+
+      const download = await fetch(info.url, { headers });
+      if (!download.ok) {
+        throw new Error(`Media download failed with status ${download.status}`);
+      }
+      const data = Buffer.from(await download.arrayBuffer());
+
+      const mimeType = media.mime_type.split(';')[0].trim();
+      const extension = MEDIA_EXTENSIONS[mimeType] || (filename ? path.extname(filename) : '') || '';
+      const relative = path.join('whatsapp', String(agent.id), `${media.id.replace(/[^\w-]/g, '')}${extension}`);
+      const file = path.join(this.mediaDirectory, relative);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+
+      return { ...details, path: relative, size: data.length };
     } catch (error) {
-      console.error('Error validating webhook signature:', error);
-      return false;
+      console.error(`Error downloading WhatsApp media ${media.id}:`, error);
+      return { ...details, error: error instanceof Error ? error.message : 'Download failed' };
+    }
+  }
+
+  async processEvents(payload: WhatsAppWebhookPayload, agent: Agent): Promise<void> {
+    // Delivery and read receipts also feed campaigns
+    const { campaignService } = await import("./campaigns");
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        const { event, message_template_id: templateId, reason } = change.value;
+        if (change.field === 'message_template_status_update' && event && templateId) {
+          // The delivery is signed by the Meta app, which may serve other business accounts too
+          if (entry.id !== agent.whatsappBusinessAccountId) continue;
+          // "NONE" is the reason WhatsApp sends when there is nothing to explain
+          await storage.updateWhatsappTemplateStatus(agent.id, String(templateId), event, reason && reason !== 'NONE' ? reason : null);
+          continue;
+        }
+
+        // Only signed deliveries reach here, but the app may also serve other agents' numbers
+        if (change.value.metadata?.phone_number_id !== agent.whatsappPhoneNumberId) continue;
+
+        for (const status of change.value.statuses || []) {
+          await storage.updateWhatsappMessageStatus(status.id, status.status);
+          await campaignService.recordDeliveryStatus(status.id, status.status, new Date(parseInt(status.timestamp) * 1000));
+
+          const stored = await storage.getWhatsappMessageById(status.id);
+          realtimeService.publish({
+            type: 'message_status',
+            agentId: agent.id,
+            conversationId: stored?.conversationId ?? null,
+            whatsappMessageId: status.id,
+            status: status.status
+          });
+        }
+      }
+    }
+  }
+
+  private extractMessageText(message: WhatsAppMessage): string {
+    if (message.type === 'text' && message.text?.body) {
+      return message.text.body;
+    } else if (message.type === 'interactive' && message.interactive) {
+      const reply = message.interactive.button_reply || message.interactive.list_reply;
+      if (reply) {
+        return reply.id.startsWith(CHOICE_ID_PREFIX) ? reply.id.slice(CHOICE_ID_PREFIX.length) : reply.title;
+      }
+    } else if (message.type === 'button' && message.button) {
+      return message.button.text;
+    } else if (message.type === 'location' && message.location) {
+      const { latitude, longitude, name, address } = message.location;
+      const place = [name, address].filter(Boolean).join(', ');
+      return `[Location] ${place ? `${place} ` : ''}(${latitude}, ${longitude})`;
+    } else if (message.type === 'image') {
+      return message.image?.caption ? `[Image] ${message.image.caption}` : '[Image received]';
+    } else if (message.type === 'document' && message.document) {
+      const label = `[Document: ${message.document.filename || 'untitled'}]`;
+      return message.document.caption ? `${label} ${message.document.caption}` : label;
+    } else if (message.type === 'audio') {
+      return '[Voice message received]';
+    } else if (message.type === 'video') {
+      return message.video?.caption ? `[Video] ${message.video.caption}` : '[Video received]';
     }
+    return `[${message.type} message received]`;
   }
 
   async getPhoneNumberInfo(
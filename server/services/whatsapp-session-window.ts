@@ -0,0 +1,93 @@
+import { Agent, WhatsappTemplate } from "@shared/schema";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import { whatsappTemplateService, type TemplateParameters } from "./whatsapp-templates";
+
+// WhatsApp accepts free-form messages for 24 hours after the contact's last message
+export const SESSION_WINDOW_HOURS = 24;
+
+export interface SessionWindow {
+  phoneNumber: string;
+  open: boolean;
+  lastInboundAt: Date | null;
+  // When free-form messages stop being accepted; null if the contact has never written in
+  expiresAt: Date | null;
+}
+
+export interface WindowTemplate {
+  name: string;
+  language?: string;
+  parameters?: TemplateParameters;
+}
+
+// Thrown when a free-form message would go out after the window closed and no template can replace it
+export class WhatsAppWindowClosedError extends Error {
+  constructor(readonly window: SessionWindow) {
+    super(window.expiresAt
+      ? `The ${SESSION_WINDOW_HOURS}-hour WhatsApp window for ${window.phoneNumber} closed at ${window.expiresAt.toISOString()}; send an approved template instead`
+      : `${window.phoneNumber} has never messaged this WhatsApp number; send an approved template instead`);
+  }
+}
+
+export function sessionWindowFor(phoneNumber: string, lastInboundAt: Date | null | undefined, now: Date = new Date()): SessionWindow {
+  const expiresAt = lastInboundAt ? new Date(lastInboundAt.getTime() + SESSION_WINDOW_HOURS * 3600000) : null;
+  return {
+    phoneNumber,
+    open: !!expiresAt && expiresAt.getTime() > now.getTime(),
+    lastInboundAt: lastInboundAt || null,
+    expiresAt
+  };
+}
+
+/**
+ * Tracks each contact's customer service window from the stored inbound WhatsApp messages.
+ * Outside the window only templates are delivered, so free-form sends are swapped for the
+ * agent's window template, or refused when it has none.
+ */
+export class WhatsAppSessionWindowService {
+  async getWindow(agentId: number, phoneNumber: string, now: Date = new Date()): Promise<SessionWindow> {
+    // Inbound numbers are stored as WhatsApp ids (digits only); numbers typed by staff may carry a "+"
+    const digits = phoneNumber.replace(/\D/g, '');
+    const spellings = [digits, `+${digits}`, phoneNumber].filter((number, index, all) => all.indexOf(number) === index);
+    const lastInboundAt = await storage.getLastInboundWhatsappAt(agentId, spellings);
+    return sessionWindowFor(digits, lastInboundAt, now);
+  }
+
+  // Contacts who wrote in most recently, newest first
+  async getRecentWindows(agentId: number, limit: number, now: Date = new Date()): Promise<SessionWindow[]> {
+    const contacts = await storage.getRecentWhatsappContacts(agentId, limit);
+    return contacts.map(contact => sessionWindowFor(contact.phoneNumber, contact.lastInboundAt, now));
+  }
+
+  /**
+   * Sends `template`, or the agent's window template, in place of a free-form message to a
+   * contact whose window has closed. Throws WhatsAppWindowClosedError when neither is set.
+   */
+  async sendTemplateInstead(
+    agent: Agent,
+    window: SessionWindow,
+    params: { to: string; conversationId?: number; template?: WindowTemplate }
+  ): Promise<{ messageId: string; template: WhatsappTemplate }> {
+    const replacement = params.template || agent.whatsappWindowTemplate;
+    if (!replacement) {
+      throw new WhatsAppWindowClosedError(window);
+    }
+
+    const sent = await whatsappTemplateService.send(agent, {
+      to: params.to,
+      name: replacement.name,
+      language: replacement.language,
+      parameters: replacement.parameters,
+      conversationId: params.conversationId
+    });
+
+    await logger.logAgent('whatsapp_window_template_sent', undefined, agent.id, true, {
+      template: sent.template.name,
+      language: sent.template.language,
+      windowExpiredAt: window.expiresAt?.toISOString() ?? null
+    });
+    return sent;
+  }
+}
+
+export const whatsappSessionWindow = new WhatsAppSessionWindowService();
@@ -0,0 +1,276 @@
+import { Agent, WhatsappTemplate } from "@shared/schema";
+import { nanoid } from "nanoid";
+import { storage } from "../storage";
+import { logger } from "./logging";
+import {
+  whatsappService,
+  type WhatsAppLocation,
+  type WhatsAppMediaSource,
+  type WhatsAppTemplateComponentPayload
+} from "./whatsapp-business";
+
+export interface TemplateParameters {
+  // Values for the body placeholders, in the order they first appear
+  body?: string[];
+  // Values for a TEXT header's placeholders
+  header?: string[];
+  // For IMAGE, VIDEO and DOCUMENT headers
+  headerMedia?: WhatsAppMediaSource;
+  // For LOCATION headers
+  headerLocation?: WhatsAppLocation;
+  // By button position: the URL suffix for URL buttons, the code for copy-code and one-time
+  // password buttons, an optional payload for quick replies; null for buttons without one
+  buttons?: Array<string | null>;
+}
+
+export interface SendTemplateParams {
+  to: string;
+  name: string;
+  // Overrides the language recorded for the recipient
+  language?: string;
+  parameters?: TemplateParameters;
+  conversationId?: number;
+}
+
+// Thrown when a template cannot be sent as asked; problems lists each parameter that is wrong
+export class WhatsAppTemplateError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+  }
+}
+
+// Used when neither the request nor the recipient's conversation names a language
+const DEFAULT_LANGUAGE = 'en_US';
+
+const MEDIA_HEADER_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+// Distinct placeholder names in order of appearance: "1", "2" or named ones like "first_name"
+export function placeholderNames(text?: string): string[] {
+  const names: string[] = [];
+  (text || '').replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    if (!names.includes(name)) names.push(name);
+    return match;
+  });
+  return names;
+}
+
+function textParameters(part: string, text: string | undefined, values: string[] = [], problems: string[]): Array<Record<string, any>> {
+  const names = placeholderNames(text);
+  if (values.length !== names.length) {
+    problems.push(`${part} expects ${names.length} parameter${names.length === 1 ? '' : 's'}, got ${values.length}`);
+    return [];
+  }
+
+  return values.map((value, index) => {
+    if (typeof value !== 'string' || !value.trim()) problems.push(`${part} parameter ${index + 1} is empty`);
+    // Templates with named placeholders need each value labelled
+    return /^\d+$/.test(names[index]) ? { type: 'text', text: value } : { type: 'text', parameter_name: names[index], text: value };
+  });
+}
+
+/**
+ * Turns parameters into the components a template message is sent with, checking them against
+ * the template's header, body placeholders and buttons first. Throws WhatsAppTemplateError
+ * listing every mismatch, so nothing is sent that WhatsApp would reject.
+ */
+export function buildTemplateComponents(template: WhatsappTemplate, parameters: TemplateParameters = {}): WhatsAppTemplateComponentPayload[] {
+  const problems: string[] = [];
+  const components: WhatsAppTemplateComponentPayload[] = [];
+  const header = template.components.find(component => component.type === 'HEADER');
+  const body = template.components.find(component => component.type === 'BODY');
+  const buttons = template.components.find(component => component.type === 'BUTTONS')?.buttons || [];
+
+  const format = header ? header.format || 'TEXT' : undefined;
+  if (format !== 'TEXT' && parameters.header?.length) problems.push('header takes no text parameters');
+  if (!MEDIA_HEADER_FORMATS.includes(format || '') && parameters.headerMedia) problems.push('header takes no media');
+  if (format !== 'LOCATION' && parameters.headerLocation) problems.push('header takes no location');
+
+  if (format === 'TEXT') {
+    const values = textParameters('header', header!.text, parameters.header, problems);
+    if (values.length > 0) components.push({ type: 'header', parameters: values });
+  } else if (format && MEDIA_HEADER_FORMATS.includes(format)) {
+    const media = parameters.headerMedia;
+    const type = format.toLowerCase();
+    if (!media?.link && !media?.id) {
+      problems.push(`header needs ${type} media with a link or id`);
+    } else {
+      components.push({
+        type: 'header',
+        parameters: [{
+          type,
+          [type]: {
+            ...(media.id ? { id: media.id } : { link: media.link }),
+            ...(media.filename && type === 'document' ? { filename: media.filename } : {})
+          }
+        }]
+      });
+    }
+  } else if (format === 'LOCATION') {
+    const location = parameters.headerLocation;
+    if (typeof location?.latitude !== 'number' || typeof location?.longitude !== 'number') {
+      problems.push('header needs a location with latitude and longitude');
+    } else {
+      components.push({ type: 'header', parameters: [{ type: 'location', location }] });
+    }
+  }
+
+  const bodyValues = textParameters('body', body?.text, parameters.body, problems);
+  if (bodyValues.length > 0) components.push({ type: 'body', parameters: bodyValues });
+
+  const given = parameters.buttons || [];
+  if (given.length > buttons.length) {
+    problems.push(`template has ${buttons.length} button${buttons.length === 1 ? '' : 's'}, got ${given.length} button parameters`);
+  }
+  buttons.forEach((button, index) => {
+    const value = given[index];
+    const label = `button ${index + 1} ("${button.text}")`;
+    const needsValue = (button.type === 'URL' && placeholderNames(button.url).length > 0) || button.type === 'COPY_CODE' || button.type === 'OTP';
+
+    if (needsValue && !value) {
+      problems.push(`${label} needs ${button.type === 'URL' ? 'the URL suffix' : 'the code'}`);
+    } else if (button.type === 'URL' || button.type === 'OTP') {
+      // One-time password buttons are filled like a URL button, with the code
+      if (value && !needsValue) problems.push(`${label} has a fixed URL and takes no parameter`);
+      else if (value) components.push({ type: 'button', sub_type: 'url', index: String(index), parameters: [{ type: 'text', text: value }] });
+    } else if (button.type === 'COPY_CODE') {
+      components.push({ type: 'button', sub_type: 'copy_code', index: String(index), parameters: [{ type: 'coupon_code', coupon_code: value }] });
+    } else if (button.type === 'QUICK_REPLY') {
+      // The payload comes back with the customer's tap; WhatsApp sends the button text without one
+      if (value) components.push({ type: 'button', sub_type: 'quick_reply', index: String(index), parameters: [{ type: 'payload', payload: value }] });
+    } else if (value) {
+      problems.push(`${label} takes no parameter`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new WhatsAppTemplateError(`Parameters do not match template "${template.name}" (${template.language})`, problems);
+  }
+  return components;
+}
+
+// The body as the recipient sees it, for the message history
+export function renderTemplateText(template: WhatsappTemplate, parameters: TemplateParameters = {}): string {
+  const body = template.components.find(component => component.type === 'BODY')?.text || '';
+  const names = placeholderNames(body);
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => parameters.body?.[names.indexOf(name)] ?? match);
+}
+
+/**
+ * Message templates for an agent's WhatsApp Business Account: synced from WhatsApp with their
+ * review status, and sent in the recipient's language once approved.
+ */
+export class WhatsAppTemplateService {
+  async sync(agent: Agent): Promise<{ templates: WhatsappTemplate[]; removed: number }> {
+    if (!agent.whatsappAccessToken || !agent.whatsappBusinessAccountId) {
+      throw new WhatsAppTemplateError('A WhatsApp Business Account id and access token are required to sync templates');
+    }
+
+    const result = await whatsappService.getMessageTemplates(agent.whatsappAccessToken, agent.whatsappBusinessAccountId);
+    if (!result.success || !result.templates) {
+      throw new Error(`Failed to sync WhatsApp templates: ${result.error || 'Unknown error'}`);
+    }
+
+    const templates: WhatsappTemplate[] = [];
+    for (const remote of result.templates) {
+      templates.push(await storage.upsertWhatsappTemplate({
+        agentId: agent.id,
+        templateId: String(remote.id),
+        name: remote.name,
+        language: remote.language,
+        category: remote.category ?? null,
+        status: remote.status,
+        rejectedReason: remote.rejected_reason && remote.rejected_reason !== 'NONE' ? remote.rejected_reason : null,
+        components: remote.components || [],
+        syncedAt: new Date()
+      }));
+    }
+    const removed = await storage.deleteWhatsappTemplatesExcept(agent.id, templates.map(template => template.id));
+
+    await logger.logAgent('whatsapp_templates_synced', undefined, agent.id, true, { synced: templates.length, removed });
+    return { templates, removed };
+  }
+
+  /**
+   * The approved translation to send: the requested language, else the one in the recipient's
+   * conversation lead data (`language`), else en_US, else any approved one. A language also
+   * matches another region of itself, so "es_MX" can use an "es" template.
+   */
+  async resolveTemplate(agent: Agent, name: string, to: string, language?: string): Promise<WhatsappTemplate> {
+    const translations = await storage.getWhatsappTemplatesByName(agent.id, name);
+    if (translations.length === 0) {
+      throw new WhatsAppTemplateError(`Template "${name}" not found; sync templates from WhatsApp first`);
+    }
+
+    const approved = translations.filter(template => template.status === 'APPROVED');
+    if (approved.length === 0) {
+      throw new WhatsAppTemplateError(`Template "${name}" has no approved translation (${translations.map(template => `${template.language}: ${template.status}`).join(', ')})`);
+    }
+
+    if (language) {
+      const requested = this.pickLanguage(approved, language);
+      if (!requested) {
+        throw new WhatsAppTemplateError(`Template "${name}" has no approved ${language} translation (approved: ${approved.map(template => template.language).join(', ')})`);
+      }
+      return requested;
+    }
+
+    const preferred = await this.recipientLanguage(agent, to);
+    return (preferred && this.pickLanguage(approved, preferred)) || this.pickLanguage(approved, DEFAULT_LANGUAGE) || approved[0];
+  }
+
+  async send(agent: Agent, params: SendTemplateParams): Promise<{ messageId: string; template: WhatsappTemplate }> {
+    if (!whatsappService.isConfigured(agent)) {
+      throw new WhatsAppTemplateError('WhatsApp Business API not configured for this agent');
+    }
+
+    const template = await this.resolveTemplate(agent, params.name, params.to, params.language);
+    const components = buildTemplateComponents(template, params.parameters);
+
+    const result = await whatsappService.sendTemplateMessage(
+      agent.whatsappAccessToken!,
+      agent.whatsappPhoneNumberId!,
+      params.to,
+      template.name,
+      template.language,
+      components
+    );
+    if (!result.success || !result.messageId) {
+      throw new WhatsAppTemplateError(`WhatsApp rejected the template message: ${result.error || 'Unknown error'}`);
+    }
+
+    await storage.createWhatsappMessage({
+      id: nanoid(),
+      agentId: agent.id,
+      conversationId: params.conversationId,
+      whatsappMessageId: result.messageId,
+      direction: 'outbound',
+      fromNumber: agent.whatsappNumber || agent.whatsappPhoneNumberId!,
+      toNumber: params.to,
+      messageText: renderTemplateText(template, params.parameters),
+      messageType: 'template',
+      status: 'sent',
+      metadata: { template: { name: template.name, language: template.language } },
+      timestamp: new Date()
+    });
+
+    return { messageId: result.messageId, template };
+  }
+
+  // Exact match first ("es_MX"), then the bare language ("es"), then any region of it
+  private pickLanguage(templates: WhatsappTemplate[], language: string): WhatsappTemplate | undefined {
+    const wanted = language.trim().replace('-', '_').toLowerCase();
+    const base = wanted.split('_')[0];
+    return templates.find(template => template.language.toLowerCase() === wanted)
+      || templates.find(template => template.language.toLowerCase() === base)
+      || templates.find(template => template.language.toLowerCase().split('_')[0] === base);
+  }
+
+  // Read from the recipient's WhatsApp conversation; session ids follow InboundPipeline.buildSessionId
+  private async recipientLanguage(agent: Agent, to: string): Promise<string | undefined> {
+    const conversation = await storage.getConversationBySession(`whatsapp_${to.replace(/\D/g, '')}_${agent.id}`);
+    const language = conversation?.leadData?.language;
+    return typeof language === 'string' && language.trim() ? language : undefined;
+  }
+}
+
+export const whatsappTemplateService = new WhatsAppTemplateService();
@@ -0,0 +1,140 @@
+import { nanoid } from "nanoid";
+import { Agent, Conversation } from "@shared/schema";
+import { storage } from "../storage";
+import { inboundPipeline } from "./inbound-pipeline";
+import { knowledgeRetrievalService } from "./knowledge-retrieval";
+import { handoffService, type InboundRouting } from "./handoff";
+import { realtimeService } from "./realtime";
+import type { ChatMessage, LLMResponse } from "./llm-providers";
+
+type StoredMessage = { role: string; content: string; timestamp: string; knowledgeItemIds?: number[]; sentBy?: number };
+
+// State carried between receiving a widget message and storing the reply
+export interface WidgetChatTurn {
+  sessionId: string;
+  conversation: Conversation;
+  history: StoredMessage[];
+  chatMessages: ChatMessage[];
+  // Knowledge items injected into the prompt, stored on the reply for review
+  knowledgeItemIds: number[];
+  // When botReplies is false, finish with completeHandoffTurn instead of generating a reply
+  routing: InboundRouting;
+}
+
+export interface WidgetChatResult {
+  response: string;
+  sessionId: string;
+  whatsappHandoff: string | null;
+  shouldTransfer: boolean;
+  handoffState: string;
+}
+
+// Shared by the blocking and streaming web widget chat endpoints
+export class WidgetChatService {
+  async startTurn(agent: Agent, message: string, sessionId?: string): Promise<WidgetChatTurn> {
+    const currentSessionId = sessionId || nanoid();
+
+    let conversation = await storage.getConversationBySession(currentSessionId);
+    if (!conversation) {
+      conversation = await storage.createConversation({
+        agentId: agent.id,
+        sessionId: currentSessionId,
+        messages: [],
+        leadData: {},
+      });
+    }
+
+    const userMessage: StoredMessage = {
+      role: 'user',
+      content: message,
+      timestamp: new Date().toISOString(),
+    };
+    const history = [...(conversation.messages || []), userMessage];
+
+    const routing = await handoffService.routeInbound(agent, conversation, message);
+    if (!routing.botReplies) {
+      return { sessionId: currentSessionId, conversation, history, chatMessages: [], knowledgeItemIds: [], routing };
+    }
+
+    const { systemPrompt, knowledgeItemIds } = await knowledgeRetrievalService.augmentSystemPrompt(agent, agent.systemPrompt, message);
+
+    const chatMessages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...history.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+    ];
+
+    return { sessionId: currentSessionId, conversation, history, chatMessages, knowledgeItemIds, routing };
+  }
+
+  async completeTurn(agent: Agent, turn: WidgetChatTurn, aiResponse: LLMResponse): Promise<WidgetChatResult> {
+    const aiMessage: StoredMessage = {
+      role: 'assistant',
+      content: aiResponse.content,
+      timestamp: new Date().toISOString(),
+      ...(turn.knowledgeItemIds.length > 0 ? { knowledgeItemIds: turn.knowledgeItemIds } : {})
+    };
+    const finalMessages = [...turn.history, aiMessage];
+
+    await storage.updateConversation(turn.conversation.id, {
+      messages: finalMessages,
+    });
+    realtimeService.publishMessage(turn.conversation, turn.history[turn.history.length - 1]);
+    realtimeService.publishMessage(turn.conversation, aiMessage);
+
+    await inboundPipeline.recordUsage(agent, 'web', aiResponse);
+    await inboundPipeline.qualifyConversation(agent, turn.conversation, finalMessages);
+
+    // Generate WhatsApp handoff URL if conversation should transfer
+    let whatsappHandoff: string | null = null;
+    const content = aiResponse.content.toLowerCase();
+    if (finalMessages.length >= 6 || content.includes('contact') || content.includes('speak')) {
+      if (agent.whatsappNumber) {
+        const handoffMessage = encodeURIComponent(`Continuing our conversation: ${finalMessages.slice(-2).map(m => m.content).join(' ')}`);
+        const cleanNumber = agent.whatsappNumber.replace(/[^0-9]/g, '');
+        whatsappHandoff = `https://wa.me/${cleanNumber}?text=${handoffMessage}`;
+      }
+    }
+
+    return {
+      response: aiResponse.content,
+      sessionId: turn.sessionId,
+      whatsappHandoff,
+      shouldTransfer: !!whatsappHandoff,
+      handoffState: 'bot',
+    };
+  }
+
+  // Store a visitor message the bot does not answer; staff replies are fetched with getStaffMessages
+  async completeHandoffTurn(turn: WidgetChatTurn): Promise<WidgetChatResult> {
+    const notice = turn.routing.notice;
+    const finalMessages: StoredMessage[] = notice
+      ? [...turn.history, { role: 'assistant', content: notice, timestamp: new Date().toISOString() }]
+      : turn.history;
+
+    await storage.updateConversation(turn.conversation.id, {
+      messages: finalMessages,
+    });
+    finalMessages.slice(turn.history.length - 1).forEach(message => realtimeService.publishMessage(turn.conversation, message));
+
+    return {
+      response: notice || '',
+      sessionId: turn.sessionId,
+      whatsappHandoff: null,
+      shouldTransfer: false,
+      handoffState: notice ? 'pending_human' : turn.conversation.handoffState,
+    };
+  }
+
+  // Staff messages in a widget session, optionally only those after an ISO timestamp
+  async getStaffMessages(agent: Agent, sessionId: string, since?: string): Promise<{ messages: StoredMessage[]; handoffState: string } | undefined> {
+    const conversation = await storage.getConversationBySession(sessionId);
+    if (!conversation || conversation.agentId !== agent.id) return undefined;
+
+    const messages = (conversation.messages || [])
+      .filter(m => m.sentBy !== undefined && (!since || m.timestamp > since))
+      .map(({ role, content, timestamp }) => ({ role, content, timestamp }));
+    return { messages, handoffState: conversation.handoffState };
+  }
+}
+
+export const widgetChatService = new WidgetChatService();
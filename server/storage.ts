@@ -5,9 +5,20 @@ import {
   users, 
   sessions,
   whatsappMessages,
+  whatsappTemplates,
+  smsOptOuts,
+  supportTickets,
+  flowTestCases,
+  flowVersions,
   voiceCalls,
   voiceCallTriggers,
   voiceCallAnalytics,
+  scheduledCalls,
+  doNotCallNumbers,
+  callConsents,
+  campaigns,
+  campaignRecipients,
+  campaignOptOuts,
   businessOnboarding,
   subscriptions,
   usageMetrics,
@@ -25,19 +36,39 @@ import {
   type InsertSession,
   type WhatsappMessage,
   type InsertWhatsappMessage,
+  type WhatsappTemplate,
+  type InsertWhatsappTemplate,
+  type SmsOptOut,
+  type SupportTicket,
+  type InsertSupportTicket,
+  type FlowTestCase,
+  type InsertFlowTestCase,
+  type FlowVersion,
+  type InsertFlowVersion,
   type VoiceCall,
   type InsertVoiceCall,
   type VoiceCallTrigger,
   type InsertVoiceCallTrigger,
   type VoiceCallAnalytics,
   type InsertVoiceCallAnalytics,
+  type ScheduledCall,
+  type InsertScheduledCall,
+  type DoNotCallNumber,
+  type InsertDoNotCallNumber,
+  type CallConsent,
+  type InsertCallConsent,
+  type Campaign,
+  type InsertCampaign,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
+  type CampaignOptOut,
   type BusinessOnboarding,
   type InsertBusinessOnboarding,
 
 
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, count, sql, desc, gte, lte } from "drizzle-orm";
+import { eq, and, count, sql, desc, gte, lte, inArray, notInArray, isNull, isNotNull, or, max } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { AuthService } from "./auth";
 
@@ -68,6 +99,7 @@ export interface IStorage {
   getConversationsByAgent(agentId: number): Promise<Conversation[]>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  getConversationsByHandoffState(agentIds: number[], states: string[]): Promise<Conversation[]>;
 
   // Analytics operations
   getAnalyticsByAgent(agentId: number): Promise<Analytics[]>;
@@ -95,6 +127,39 @@ export interface IStorage {
   getWhatsappMessagesByConversation(conversationId: number): Promise<WhatsappMessage[]>;
   updateWhatsappMessageStatus(whatsappMessageId: string, status: string): Promise<void>;
   getWhatsappMessageById(whatsappMessageId: string): Promise<WhatsappMessage | undefined>;
+  getLastInboundWhatsappAt(agentId: number, phoneNumbers: string[]): Promise<Date | undefined>;
+  getRecentWhatsappContacts(agentId: number, limit: number): Promise<Array<{ phoneNumber: string; lastInboundAt: Date }>>;
+
+  // WhatsApp template operations
+  getWhatsappTemplates(agentId: number): Promise<WhatsappTemplate[]>;
+  getWhatsappTemplatesByName(agentId: number, name: string): Promise<WhatsappTemplate[]>;
+  upsertWhatsappTemplate(template: InsertWhatsappTemplate): Promise<WhatsappTemplate>;
+  updateWhatsappTemplateStatus(agentId: number, templateId: string, status: string, rejectedReason?: string | null): Promise<void>;
+  deleteWhatsappTemplatesExcept(agentId: number, keepIds: number[]): Promise<number>;
+
+  // SMS opt-out operations
+  getSmsOptOut(agentId: number, phoneNumber: string): Promise<SmsOptOut | undefined>;
+  setSmsOptOut(agentId: number, phoneNumber: string, optedOut: boolean, keyword: string): Promise<SmsOptOut>;
+
+  // Support ticket operations
+  createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
+  getSupportTicketsByAgent(agentId: number): Promise<SupportTicket[]>;
+
+  // Flow test case operations
+  createFlowTestCase(testCase: InsertFlowTestCase): Promise<FlowTestCase>;
+  getFlowTestCase(id: number): Promise<FlowTestCase | undefined>;
+  getFlowTestCasesByAgent(agentId: number): Promise<FlowTestCase[]>;
+  updateFlowTestCase(id: number, updates: Partial<InsertFlowTestCase>): Promise<FlowTestCase | undefined>;
+  deleteFlowTestCase(id: number): Promise<boolean>;
+
+  // Flow version operations
+  createFlowVersion(version: InsertFlowVersion): Promise<FlowVersion>;
+  getFlowVersion(id: number): Promise<FlowVersion | undefined>;
+  getFlowVersionsByAgent(agentId: number): Promise<FlowVersion[]>;
+  getDraftFlowVersion(agentId: number): Promise<FlowVersion | undefined>;
+  updateFlowVersion(id: number, updates: Partial<InsertFlowVersion>): Promise<FlowVersion | undefined>;
+  publishFlowVersion(agentId: number, draftId: number | null, values: Partial<InsertFlowVersion>): Promise<{ version: FlowVersion; agent: Agent }>;
+  getConversationCountsByFlowVersion(agentId: number): Promise<Record<number, number>>;
 
   // B2B SaaS Business operations
   getUserSubscription(userId: number): Promise<any>;
@@ -346,6 +411,8 @@ export class DatabaseStorage implements IStorage {
         .values({
           agentId: insertConversation.agentId,
           sessionId: insertConversation.sessionId,
+          platform: insertConversation.platform || 'web',
+          channelAddress: insertConversation.channelAddress || null,
           messages: insertConversation.messages || [],
           leadData: insertConversation.leadData || {},
           status: insertConversation.status || 'active',
@@ -374,6 +441,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getConversationsByHandoffState(agentIds: number[], states: string[]): Promise<Conversation[]> {
+    if (agentIds.length === 0 || states.length === 0) return [];
+
+    try {
+      // Longest-waiting handoff requests first
+      return await db
+        .select()
+        .from(conversations)
+        .where(and(
+          inArray(conversations.agentId, agentIds),
+          inArray(conversations.handoffState, states)
+        ))
+        .orderBy(conversations.handoffRequestedAt);
+    } catch (error) {
+      console.error('Error getting conversations by handoff state:', error);
+      return [];
+    }
+  }
+
   async getAnalyticsByAgent(agentId: number): Promise<Analytics[]> {
     try {
       return await db.select().from(analytics).where(eq(analytics.agentId, agentId));
@@ -630,6 +716,362 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Latest message the contact sent; phoneNumbers lists the spellings the number may be stored under
+  async getLastInboundWhatsappAt(agentId: number, phoneNumbers: string[]): Promise<Date | undefined> {
+    try {
+      const [latest] = await db
+        .select({ timestamp: whatsappMessages.timestamp })
+        .from(whatsappMessages)
+        .where(and(
+          eq(whatsappMessages.agentId, agentId),
+          eq(whatsappMessages.direction, 'inbound'),
+          inArray(whatsappMessages.fromNumber, phoneNumbers)
+        ))
+        .orderBy(desc(whatsappMessages.timestamp))
+        .limit(1);
+      return latest?.timestamp;
+    } catch (error) {
+      console.error("Error getting last inbound WhatsApp message:", error);
+      throw error;
+    }
+  }
+
+  async getRecentWhatsappContacts(agentId: number, limit: number): Promise<Array<{ phoneNumber: string; lastInboundAt: Date }>> {
+    try {
+      const lastInboundAt = max(whatsappMessages.timestamp);
+      const contacts = await db
+        .select({ phoneNumber: whatsappMessages.fromNumber, lastInboundAt })
+        .from(whatsappMessages)
+        .where(and(eq(whatsappMessages.agentId, agentId), eq(whatsappMessages.direction, 'inbound')))
+        .groupBy(whatsappMessages.fromNumber)
+        .orderBy(desc(lastInboundAt))
+        .limit(limit);
+      return contacts.filter((contact): contact is { phoneNumber: string; lastInboundAt: Date } => !!contact.lastInboundAt);
+    } catch (error) {
+      console.error("Error getting recent WhatsApp contacts:", error);
+      return [];
+    }
+  }
+
+  // WhatsApp template operations
+  async getWhatsappTemplates(agentId: number): Promise<WhatsappTemplate[]> {
+    try {
+      return await db
+        .select()
+        .from(whatsappTemplates)
+        .where(eq(whatsappTemplates.agentId, agentId))
+        .orderBy(whatsappTemplates.name, whatsappTemplates.language);
+    } catch (error) {
+      console.error("Error getting WhatsApp templates:", error);
+      return [];
+    }
+  }
+
+  async getWhatsappTemplatesByName(agentId: number, name: string): Promise<WhatsappTemplate[]> {
+    try {
+      return await db
+        .select()
+        .from(whatsappTemplates)
+        .where(and(eq(whatsappTemplates.agentId, agentId), eq(whatsappTemplates.name, name)));
+    } catch (error) {
+      console.error("Error getting WhatsApp template translations:", error);
+      return [];
+    }
+  }
+
+  async upsertWhatsappTemplate(template: InsertWhatsappTemplate): Promise<WhatsappTemplate> {
+    try {
+      const [saved] = await db
+        .insert(whatsappTemplates)
+        .values(template)
+        .onConflictDoUpdate({
+          target: [whatsappTemplates.agentId, whatsappTemplates.name, whatsappTemplates.language],
+          set: {
+            templateId: template.templateId,
+            category: template.category,
+            status: template.status,
+            rejectedReason: template.rejectedReason,
+            components: template.components,
+            syncedAt: new Date()
+          }
+        })
+        .returning();
+      return saved;
+    } catch (error) {
+      console.error("Error saving WhatsApp template:", error);
+      throw error;
+    }
+  }
+
+  async updateWhatsappTemplateStatus(agentId: number, templateId: string, status: string, rejectedReason?: string | null): Promise<void> {
+    try {
+      await db
+        .update(whatsappTemplates)
+        .set({ status, rejectedReason: rejectedReason ?? null })
+        .where(and(eq(whatsappTemplates.agentId, agentId), eq(whatsappTemplates.templateId, templateId)));
+    } catch (error) {
+      console.error("Error updating WhatsApp template status:", error);
+      throw error;
+    }
+  }
+
+  // Removes templates deleted from the Business Account since the last sync
+  async deleteWhatsappTemplatesExcept(agentId: number, keepIds: number[]): Promise<number> {
+    try {
+      const removed = await db
+        .delete(whatsappTemplates)
+        .where(keepIds.length > 0
+          ? and(eq(whatsappTemplates.agentId, agentId), notInArray(whatsappTemplates.id, keepIds))
+          : eq(whatsappTemplates.agentId, agentId))
+        .returning({ id: whatsappTemplates.id });
+      return removed.length;
+    } catch (error) {
+      console.error("Error removing stale WhatsApp templates:", error);
+      throw error;
+    }
+  }
+
+  // SMS opt-out operations
+  async getSmsOptOut(agentId: number, phoneNumber: string): Promise<SmsOptOut | undefined> {
+    try {
+      const [optOut] = await db
+        .select()
+        .from(smsOptOuts)
+        .where(and(eq(smsOptOuts.agentId, agentId), eq(smsOptOuts.phoneNumber, phoneNumber)));
+      return optOut;
+    } catch (error) {
+      console.error("Error getting SMS opt-out:", error);
+      throw error;
+    }
+  }
+
+  async setSmsOptOut(agentId: number, phoneNumber: string, optedOut: boolean, keyword: string): Promise<SmsOptOut> {
+    try {
+      const [optOut] = await db
+        .insert(smsOptOuts)
+        .values({ agentId, phoneNumber, optedOut, keyword })
+        .onConflictDoUpdate({
+          target: [smsOptOuts.agentId, smsOptOuts.phoneNumber],
+          set: { optedOut, keyword, updatedAt: new Date() }
+        })
+        .returning();
+      return optOut;
+    } catch (error) {
+      console.error("Error updating SMS opt-out:", error);
+      throw error;
+    }
+  }
+
+  // Support ticket operations
+  async createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket> {
+    try {
+      const [created] = await db.insert(supportTickets).values(ticket).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating support ticket:", error);
+      throw error;
+    }
+  }
+
+  async getSupportTicketsByAgent(agentId: number): Promise<SupportTicket[]> {
+    try {
+      return await db
+        .select()
+        .from(supportTickets)
+        .where(eq(supportTickets.agentId, agentId))
+        .orderBy(desc(supportTickets.createdAt));
+    } catch (error) {
+      console.error("Error getting support tickets:", error);
+      return [];
+    }
+  }
+
+  // Flow test case operations
+  async createFlowTestCase(testCase: InsertFlowTestCase): Promise<FlowTestCase> {
+    try {
+      const [created] = await db.insert(flowTestCases).values(testCase).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating flow test case:", error);
+      throw error;
+    }
+  }
+
+  async getFlowTestCase(id: number): Promise<FlowTestCase | undefined> {
+    try {
+      const [testCase] = await db.select().from(flowTestCases).where(eq(flowTestCases.id, id));
+      return testCase;
+    } catch (error) {
+      console.error("Error getting flow test case:", error);
+      return undefined;
+    }
+  }
+
+  async getFlowTestCasesByAgent(agentId: number): Promise<FlowTestCase[]> {
+    try {
+      return await db
+        .select()
+        .from(flowTestCases)
+        .where(eq(flowTestCases.agentId, agentId))
+        .orderBy(flowTestCases.createdAt);
+    } catch (error) {
+      console.error("Error getting flow test cases:", error);
+      return [];
+    }
+  }
+
+  async updateFlowTestCase(id: number, updates: Partial<InsertFlowTestCase>): Promise<FlowTestCase | undefined> {
+    try {
+      const [testCase] = await db
+        .update(flowTestCases)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(flowTestCases.id, id))
+        .returning();
+      return testCase;
+    } catch (error) {
+      console.error("Error updating flow test case:", error);
+      return undefined;
+    }
+  }
+
+  async deleteFlowTestCase(id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(flowTestCases).where(eq(flowTestCases.id, id));
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting flow test case:", error);
+      return false;
+    }
+  }
+
+  // Flow version operations
+  async createFlowVersion(version: InsertFlowVersion): Promise<FlowVersion> {
+    try {
+      const [created] = await db.insert(flowVersions).values(version).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating flow version:", error);
+      throw error;
+    }
+  }
+
+  async getFlowVersion(id: number): Promise<FlowVersion | undefined> {
+    try {
+      const [version] = await db.select().from(flowVersions).where(eq(flowVersions.id, id));
+      return version;
+    } catch (error) {
+      console.error("Error getting flow version:", error);
+      return undefined;
+    }
+  }
+
+  async getFlowVersionsByAgent(agentId: number): Promise<FlowVersion[]> {
+    try {
+      return await db
+        .select()
+        .from(flowVersions)
+        .where(eq(flowVersions.agentId, agentId))
+        .orderBy(desc(flowVersions.version));
+    } catch (error) {
+      console.error("Error getting flow versions:", error);
+      return [];
+    }
+  }
+
+  async getDraftFlowVersion(agentId: number): Promise<FlowVersion | undefined> {
+    try {
+      const [version] = await db
+        .select()
+        .from(flowVersions)
+        .where(and(eq(flowVersions.agentId, agentId), eq(flowVersions.status, 'draft')));
+      return version;
+    } catch (error) {
+      console.error("Error getting draft flow version:", error);
+      return undefined;
+    }
+  }
+
+  async updateFlowVersion(id: number, updates: Partial<InsertFlowVersion>): Promise<FlowVersion | undefined> {
+    try {
+      const [version] = await db
+        .update(flowVersions)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(flowVersions.id, id))
+        .returning();
+      return version;
+    } catch (error) {
+      console.error("Error updating flow version:", error);
+      return undefined;
+    }
+  }
+
+  // Publishes the draft (draftId) or a new snapshot (values.flow) as the next version and makes it the
+  // agent's live flow. The agent row is locked so concurrent publishes are numbered one after the other.
+  async publishFlowVersion(agentId: number, draftId: number | null, values: Partial<InsertFlowVersion>): Promise<{ version: FlowVersion; agent: Agent }> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.select({ id: agents.id }).from(agents).where(eq(agents.id, agentId)).for('update');
+
+        await tx
+          .update(flowVersions)
+          .set({ status: 'archived', updatedAt: new Date() })
+          .where(and(eq(flowVersions.agentId, agentId), eq(flowVersions.status, 'published')));
+
+        const [latest] = await tx
+          .select({ number: sql<number>`coalesce(max(${flowVersions.version}), 0)` })
+          .from(flowVersions)
+          .where(eq(flowVersions.agentId, agentId));
+        const published = {
+          ...values,
+          version: Number(latest?.number || 0) + 1,
+          status: 'published',
+          publishedAt: new Date()
+        };
+
+        const [version] = draftId !== null
+          ? await tx
+            .update(flowVersions)
+            .set({ ...published, updatedAt: new Date() })
+            .where(and(eq(flowVersions.id, draftId), eq(flowVersions.status, 'draft')))
+            .returning()
+          : await tx
+            .insert(flowVersions)
+            .values({ ...published, agentId, flow: values.flow! })
+            .returning();
+        if (!version) throw new Error('Flow draft was already published');
+
+        const [agent] = await tx
+          .update(agents)
+          .set({ conversationFlow: version.flow, publishedFlowVersionId: version.id })
+          .where(eq(agents.id, agentId))
+          .returning();
+        return { version, agent };
+      });
+    } catch (error) {
+      console.error("Error publishing flow version:", error);
+      throw error;
+    }
+  }
+
+  async getConversationCountsByFlowVersion(agentId: number): Promise<Record<number, number>> {
+    try {
+      const rows = await db
+        .select({ flowVersionId: conversations.flowVersionId, total: count() })
+        .from(conversations)
+        .where(and(eq(conversations.agentId, agentId), sql`${conversations.flowVersionId} is not null`))
+        .groupBy(conversations.flowVersionId);
+
+      const counts: Record<number, number> = {};
+      rows.forEach(row => {
+        counts[row.flowVersionId!] = Number(row.total);
+      });
+      return counts;
+    } catch (error) {
+      console.error("Error counting conversations by flow version:", error);
+      return {};
+    }
+  }
+
   // B2B SaaS Business operations implementation
   async getUserSubscription(userId: number): Promise<any> {
     try {
@@ -917,6 +1359,517 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // phoneNumber is normalised; stored numbers are compared with their punctuation stripped,
+  // since calls placed before normalisation kept the number as typed
+  async countVoiceCallsToNumber(agentId: number, phoneNumber: string): Promise<number> {
+    try {
+      const [result] = await db.select({ total: count() }).from(voiceCalls)
+        .where(and(eq(voiceCalls.agentId, agentId), sql`regexp_replace(${voiceCalls.phoneNumber}, '[^0-9+]', '', 'g') = ${phoneNumber}`));
+      return result?.total ?? 0;
+    } catch (error) {
+      console.error("Error counting voice calls:", error);
+      throw error;
+    }
+  }
+
+  // Scheduled call operations
+  async createScheduledCall(call: InsertScheduledCall): Promise<ScheduledCall> {
+    try {
+      const [created] = await db.insert(scheduledCalls).values(call).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating scheduled call:", error);
+      throw error;
+    }
+  }
+
+  async getScheduledCall(id: number): Promise<ScheduledCall | undefined> {
+    try {
+      const [call] = await db.select().from(scheduledCalls).where(eq(scheduledCalls.id, id));
+      return call;
+    } catch (error) {
+      console.error("Error getting scheduled call:", error);
+      return undefined;
+    }
+  }
+
+  async getScheduledCallsByAgent(agentId: number, statuses?: string[]): Promise<ScheduledCall[]> {
+    try {
+      return await db.select().from(scheduledCalls)
+        .where(statuses && statuses.length > 0
+          ? and(eq(scheduledCalls.agentId, agentId), inArray(scheduledCalls.status, statuses))
+          : eq(scheduledCalls.agentId, agentId))
+        .orderBy(scheduledCalls.scheduledFor);
+    } catch (error) {
+      console.error("Error getting scheduled calls:", error);
+      return [];
+    }
+  }
+
+  async getScheduledCallByVoiceCall(voiceCallId: number): Promise<ScheduledCall | undefined> {
+    try {
+      const [call] = await db.select().from(scheduledCalls).where(eq(scheduledCalls.lastVoiceCallId, voiceCallId));
+      return call;
+    } catch (error) {
+      console.error("Error getting scheduled call by voice call:", error);
+      return undefined;
+    }
+  }
+
+  // A queued or in-progress call to the number, so the same lead is not queued twice
+  async getActiveScheduledCall(agentId: number, phoneNumber: string): Promise<ScheduledCall | undefined> {
+    try {
+      const [call] = await db.select().from(scheduledCalls)
+        .where(and(
+          eq(scheduledCalls.agentId, agentId),
+          sql`regexp_replace(${scheduledCalls.phoneNumber}, '[^0-9+]', '', 'g') = ${phoneNumber}`,
+          inArray(scheduledCalls.status, ['scheduled', 'dialing', 'in_call'])
+        ));
+      return call;
+    } catch (error) {
+      console.error("Error getting active scheduled call:", error);
+      return undefined;
+    }
+  }
+
+  async updateScheduledCall(id: number, updates: Partial<InsertScheduledCall>): Promise<ScheduledCall | undefined> {
+    try {
+      const [call] = await db
+        .update(scheduledCalls)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(scheduledCalls.id, id))
+        .returning();
+      return call;
+    } catch (error) {
+      console.error("Error updating scheduled call:", error);
+      return undefined;
+    }
+  }
+
+  // Moves due calls to "dialing" in one statement, so a call is never claimed twice
+  async claimDueScheduledCalls(now: Date, limit: number): Promise<ScheduledCall[]> {
+    try {
+      return await db
+        .update(scheduledCalls)
+        .set({ status: 'dialing', updatedAt: now })
+        .where(and(
+          eq(scheduledCalls.status, 'scheduled'),
+          inArray(scheduledCalls.id, db
+            .select({ id: scheduledCalls.id })
+            .from(scheduledCalls)
+            .where(and(eq(scheduledCalls.status, 'scheduled'), lte(scheduledCalls.scheduledFor, now)))
+            .orderBy(scheduledCalls.scheduledFor)
+            .limit(limit))
+        ))
+        .returning();
+    } catch (error) {
+      console.error("Error claiming scheduled calls:", error);
+      return [];
+    }
+  }
+
+  // A restart can leave calls in "dialing" after the provider already placed them; they are
+  // failed rather than redialled so no one is called twice
+  async failInterruptedScheduledCalls(): Promise<number> {
+    try {
+      const failed = await db
+        .update(scheduledCalls)
+        .set({ status: 'failed', lastError: 'Interrupted while dialling', updatedAt: new Date() })
+        .where(eq(scheduledCalls.status, 'dialing'))
+        .returning({ id: scheduledCalls.id });
+      return failed.length;
+    } catch (error) {
+      console.error("Error failing interrupted scheduled calls:", error);
+      return 0;
+    }
+  }
+
+  // Do-not-call registry. Lookups used by compliance checks throw instead of returning
+  // undefined, so a database error blocks a call rather than allowing it.
+  async getDoNotCallNumber(userId: number, phoneNumber: string): Promise<DoNotCallNumber | undefined> {
+    try {
+      const [entry] = await db.select().from(doNotCallNumbers)
+        .where(and(eq(doNotCallNumbers.userId, userId), eq(doNotCallNumbers.phoneNumber, phoneNumber)));
+      return entry;
+    } catch (error) {
+      console.error("Error getting do-not-call number:", error);
+      throw error;
+    }
+  }
+
+  async getDoNotCallNumbers(userId: number): Promise<DoNotCallNumber[]> {
+    try {
+      return await db.select().from(doNotCallNumbers)
+        .where(eq(doNotCallNumbers.userId, userId))
+        .orderBy(desc(doNotCallNumbers.createdAt));
+    } catch (error) {
+      console.error("Error getting do-not-call numbers:", error);
+      return [];
+    }
+  }
+
+  async addDoNotCallNumber(entry: InsertDoNotCallNumber): Promise<DoNotCallNumber> {
+    try {
+      const [added] = await db
+        .insert(doNotCallNumbers)
+        .values(entry)
+        .onConflictDoUpdate({
+          target: [doNotCallNumbers.userId, doNotCallNumbers.phoneNumber],
+          set: { reason: entry.reason, source: entry.source }
+        })
+        .returning();
+      return added;
+    } catch (error) {
+      console.error("Error adding do-not-call number:", error);
+      throw error;
+    }
+  }
+
+  async removeDoNotCallNumber(userId: number, phoneNumber: string): Promise<boolean> {
+    try {
+      const removed = await db.delete(doNotCallNumbers)
+        .where(and(eq(doNotCallNumbers.userId, userId), eq(doNotCallNumbers.phoneNumber, phoneNumber)))
+        .returning({ id: doNotCallNumbers.id });
+      return removed.length > 0;
+    } catch (error) {
+      console.error("Error removing do-not-call number:", error);
+      return false;
+    }
+  }
+
+  // Call consent records
+  async createCallConsent(consent: InsertCallConsent): Promise<CallConsent> {
+    try {
+      const [created] = await db.insert(callConsents).values(consent).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating call consent:", error);
+      throw error;
+    }
+  }
+
+  // Most recent consent for the number that has not been revoked
+  async getActiveCallConsent(userId: number, phoneNumber: string): Promise<CallConsent | undefined> {
+    try {
+      const [consent] = await db.select().from(callConsents)
+        .where(and(
+          eq(callConsents.userId, userId),
+          eq(callConsents.phoneNumber, phoneNumber),
+          isNull(callConsents.revokedAt)
+        ))
+        .orderBy(desc(callConsents.grantedAt))
+        .limit(1);
+      return consent;
+    } catch (error) {
+      console.error("Error getting call consent:", error);
+      throw error;
+    }
+  }
+
+  async getCallConsents(userId: number, phoneNumber?: string): Promise<CallConsent[]> {
+    try {
+      return await db.select().from(callConsents)
+        .where(phoneNumber
+          ? and(eq(callConsents.userId, userId), eq(callConsents.phoneNumber, phoneNumber))
+          : eq(callConsents.userId, userId))
+        .orderBy(desc(callConsents.grantedAt));
+    } catch (error) {
+      console.error("Error getting call consents:", error);
+      return [];
+    }
+  }
+
+  async revokeCallConsents(userId: number, phoneNumber: string): Promise<number> {
+    try {
+      const revoked = await db
+        .update(callConsents)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(callConsents.userId, userId),
+          eq(callConsents.phoneNumber, phoneNumber),
+          isNull(callConsents.revokedAt)
+        ))
+        .returning({ id: callConsents.id });
+      return revoked.length;
+    } catch (error) {
+      console.error("Error revoking call consents:", error);
+      throw error;
+    }
+  }
+
+  // Broadcast campaigns
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    try {
+      const [created] = await db.insert(campaigns).values(campaign).returning();
+      return created;
+    } catch (error) {
+      console.error("Error creating campaign:", error);
+      throw error;
+    }
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    try {
+      const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+      return campaign;
+    } catch (error) {
+      console.error("Error getting campaign:", error);
+      return undefined;
+    }
+  }
+
+  async getCampaignsByAgent(agentId: number): Promise<Campaign[]> {
+    try {
+      return await db.select().from(campaigns)
+        .where(eq(campaigns.agentId, agentId))
+        .orderBy(desc(campaigns.createdAt));
+    } catch (error) {
+      console.error("Error getting campaigns:", error);
+      return [];
+    }
+  }
+
+  async updateCampaign(id: number, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    try {
+      const [campaign] = await db
+        .update(campaigns)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(campaigns.id, id))
+        .returning();
+      return campaign;
+    } catch (error) {
+      console.error("Error updating campaign:", error);
+      return undefined;
+    }
+  }
+
+  // Scheduled campaigns whose start time has passed, and campaigns already sending
+  async getDueCampaigns(now: Date): Promise<Campaign[]> {
+    try {
+      return await db.select().from(campaigns)
+        .where(or(
+          and(eq(campaigns.status, 'scheduled'), lte(campaigns.scheduledFor, now)),
+          eq(campaigns.status, 'sending')
+        ))
+        .orderBy(campaigns.scheduledFor);
+    } catch (error) {
+      console.error("Error getting due campaigns:", error);
+      return [];
+    }
+  }
+
+  // Numbers already on the campaign are skipped; returns how many were added
+  async addCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<number> {
+    try {
+      let added = 0;
+      for (let start = 0; start < recipients.length; start += 500) {
+        const inserted = await db.insert(campaignRecipients)
+          .values(recipients.slice(start, start + 500))
+          .onConflictDoNothing()
+          .returning({ id: campaignRecipients.id });
+        added += inserted.length;
+      }
+      return added;
+    } catch (error) {
+      console.error("Error adding campaign recipients:", error);
+      throw error;
+    }
+  }
+
+  async getCampaignRecipients(campaignId: number, options: { status?: string; limit: number; offset: number }): Promise<CampaignRecipient[]> {
+    try {
+      return await db.select().from(campaignRecipients)
+        .where(options.status
+          ? and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, options.status))
+          : eq(campaignRecipients.campaignId, campaignId))
+        .orderBy(campaignRecipients.id)
+        .limit(options.limit)
+        .offset(options.offset);
+    } catch (error) {
+      console.error("Error getting campaign recipients:", error);
+      return [];
+    }
+  }
+
+  async getCampaignRecipientStats(campaignId: number): Promise<{ byStatus: Record<string, number>; replied: number }> {
+    try {
+      const rows = await db
+        .select({ status: campaignRecipients.status, total: count() })
+        .from(campaignRecipients)
+        .where(eq(campaignRecipients.campaignId, campaignId))
+        .groupBy(campaignRecipients.status);
+      const [replies] = await db
+        .select({ total: count() })
+        .from(campaignRecipients)
+        .where(and(eq(campaignRecipients.campaignId, campaignId), isNotNull(campaignRecipients.repliedAt)));
+
+      const byStatus: Record<string, number> = {};
+      rows.forEach(row => { byStatus[row.status] = row.total; });
+      return { byStatus, replied: replies?.total ?? 0 };
+    } catch (error) {
+      console.error("Error getting campaign stats:", error);
+      return { byStatus: {}, replied: 0 };
+    }
+  }
+
+  // Moves pending recipients to "sending" in one statement, so no one is messaged twice
+  async claimCampaignRecipients(campaignId: number, limit: number): Promise<CampaignRecipient[]> {
+    try {
+      return await db
+        .update(campaignRecipients)
+        .set({ status: 'sending' })
+        .where(and(
+          eq(campaignRecipients.status, 'pending'),
+          inArray(campaignRecipients.id, db
+            .select({ id: campaignRecipients.id })
+            .from(campaignRecipients)
+            .where(and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, 'pending')))
+            .orderBy(campaignRecipients.id)
+            .limit(limit))
+        ))
+        .returning();
+    } catch (error) {
+      console.error("Error claiming campaign recipients:", error);
+      return [];
+    }
+  }
+
+  async updateCampaignRecipient(id: number, updates: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient | undefined> {
+    try {
+      const [recipient] = await db
+        .update(campaignRecipients)
+        .set(updates)
+        .where(eq(campaignRecipients.id, id))
+        .returning();
+      return recipient;
+    } catch (error) {
+      console.error("Error updating campaign recipient:", error);
+      return undefined;
+    }
+  }
+
+  async getCampaignRecipientByMessageId(messageId: string): Promise<CampaignRecipient | undefined> {
+    try {
+      const [recipient] = await db.select().from(campaignRecipients).where(eq(campaignRecipients.messageId, messageId));
+      return recipient;
+    } catch (error) {
+      console.error("Error getting campaign recipient by message:", error);
+      return undefined;
+    }
+  }
+
+  // The contact's most recent campaign message from this agent and channel sent after `since`
+  async getLatestCampaignRecipient(agentId: number, channel: string, phoneNumbers: string[], since: Date): Promise<CampaignRecipient | undefined> {
+    try {
+      const [latest] = await db
+        .select({ recipient: campaignRecipients })
+        .from(campaignRecipients)
+        .innerJoin(campaigns, eq(campaignRecipients.campaignId, campaigns.id))
+        .where(and(
+          eq(campaigns.agentId, agentId),
+          eq(campaigns.channel, channel),
+          inArray(campaignRecipients.phoneNumber, phoneNumbers),
+          gte(campaignRecipients.sentAt, since)
+        ))
+        .orderBy(desc(campaignRecipients.sentAt))
+        .limit(1);
+      return latest?.recipient;
+    } catch (error) {
+      console.error("Error getting latest campaign recipient:", error);
+      return undefined;
+    }
+  }
+
+  async skipPendingCampaignRecipients(campaignId: number, reason: string): Promise<number> {
+    try {
+      const skipped = await db
+        .update(campaignRecipients)
+        .set({ status: 'skipped', error: reason })
+        .where(and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, 'pending')))
+        .returning({ id: campaignRecipients.id });
+      return skipped.length;
+    } catch (error) {
+      console.error("Error skipping campaign recipients:", error);
+      throw error;
+    }
+  }
+
+  // A restart can leave recipients in "sending" without knowing whether the message went out;
+  // they are failed rather than retried so no one gets it twice
+  async failInterruptedCampaignRecipients(): Promise<number> {
+    try {
+      const failed = await db
+        .update(campaignRecipients)
+        .set({ status: 'failed', error: 'Interrupted while sending' })
+        .where(eq(campaignRecipients.status, 'sending'))
+        .returning({ id: campaignRecipients.id });
+      return failed.length;
+    } catch (error) {
+      console.error("Error failing interrupted campaign recipients:", error);
+      return 0;
+    }
+  }
+
+  // Like the do-not-call lookups, this throws so a database error skips the message
+  async getCampaignOptOut(agentId: number, channel: string, phoneNumber: string): Promise<CampaignOptOut | undefined> {
+    try {
+      const [optOut] = await db.select().from(campaignOptOuts)
+        .where(and(
+          eq(campaignOptOuts.agentId, agentId),
+          eq(campaignOptOuts.channel, channel),
+          eq(campaignOptOuts.phoneNumber, phoneNumber)
+        ));
+      return optOut;
+    } catch (error) {
+      console.error("Error getting campaign opt-out:", error);
+      throw error;
+    }
+  }
+
+  async getCampaignOptOuts(agentId: number): Promise<CampaignOptOut[]> {
+    try {
+      return await db.select().from(campaignOptOuts)
+        .where(eq(campaignOptOuts.agentId, agentId))
+        .orderBy(desc(campaignOptOuts.createdAt));
+    } catch (error) {
+      console.error("Error getting campaign opt-outs:", error);
+      return [];
+    }
+  }
+
+  async addCampaignOptOut(agentId: number, channel: string, phoneNumber: string, source: string): Promise<CampaignOptOut> {
+    try {
+      const [optOut] = await db
+        .insert(campaignOptOuts)
+        .values({ agentId, channel, phoneNumber, source })
+        .onConflictDoUpdate({
+          target: [campaignOptOuts.agentId, campaignOptOuts.channel, campaignOptOuts.phoneNumber],
+          set: { source }
+        })
+        .returning();
+      return optOut;
+    } catch (error) {
+      console.error("Error adding campaign opt-out:", error);
+      throw error;
+    }
+  }
+
+  async removeCampaignOptOut(agentId: number, channel: string, phoneNumber: string): Promise<boolean> {
+    try {
+      const removed = await db.delete(campaignOptOuts)
+        .where(and(
+          eq(campaignOptOuts.agentId, agentId),
+          eq(campaignOptOuts.channel, channel),
+          eq(campaignOptOuts.phoneNumber, phoneNumber)
+        ))
+        .returning({ id: campaignOptOuts.id });
+      return removed.length > 0;
+    } catch (error) {
+      console.error("Error removing campaign opt-out:", error);
+      throw error;
+    }
+  }
+
   async checkSubscriptionLimits(userId: number): Promise<{ withinLimits: boolean; usage: any; limits: any }> {
     try {
       const subscription = await this.getUserSubscription(userId);
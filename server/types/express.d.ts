@@ -0,0 +1,10 @@
+// Raw request body, kept by the body parsers in server/index.ts for webhook signature checks
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: string;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,554 @@
+/**
+ * Sandboxed expression language for conversation flow conditions.
+ *
+ *   user_input contains "refund" and number(variables.order_total) >= 100
+ *   lead.email matches "@example\.com$" or not isEmpty(variables.company)
+ *   lower(trim(user_input)) in ["yes", "yeah", "sure"]
+ *
+ * Expressions are parsed into a small AST and interpreted; nothing is passed to eval or
+ * Function, and only the scope values and whitelisted functions below are reachable.
+ * Shared by the server (evaluation, validation on save) and the flow designer.
+ */
+
+export interface ExpressionScope {
+  userInput: string;
+  userName?: string;
+  conversationCount?: number;
+  variables?: Record<string, any>;
+  leadData?: Record<string, any>;
+}
+
+export class FlowExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'FlowExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'array'; items: Node[] }
+  | { type: 'path'; root: string; keys: string[]; pos: number }
+  | { type: 'call'; name: string; args: Node[]; pos: number }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node };
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_PATTERN_LENGTH = 200;
+// Regex matching only looks at the start of long inputs to bound backtracking cost
+const MAX_MATCH_INPUT_LENGTH = 2000;
+
+const KEYWORD_OPERATORS = ['and', 'or', 'not', 'contains', 'startswith', 'endswith', 'matches', 'in'];
+const SYMBOL_OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '(', ')', '[', ']', ',', '.'];
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>=', 'contains', 'startswith', 'endswith', 'matches', 'in'];
+
+// Property names that could reach object internals are never resolved
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const SCOPE_ROOTS = [
+  'user_input', 'userInput', 'user_name', 'userName', 'conversation_count', 'conversationCount',
+  'variables', 'vars', 'lead', 'leadData'
+];
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; fn: (...args: any[]) => unknown }> = {
+  // Tolerates currency symbols, thousands separators and surrounding text: "$1,200.50" -> 1200.5
+  number: { minArgs: 1, maxArgs: 1, fn: (value) => toNumber(value) },
+  lower: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).trim() },
+  length: { minArgs: 1, maxArgs: 1, fn: (value) => Array.isArray(value) ? value.length : toText(value).length },
+  isEmpty: { minArgs: 1, maxArgs: 1, fn: (value) => isEmpty(value) },
+  exists: { minArgs: 1, maxArgs: 1, fn: (value) => !isEmpty(value) },
+  containsAny: { minArgs: 2, maxArgs: 50, fn: (value, ...needles) => needles.some(needle => textContains(value, needle)) },
+  words: { minArgs: 1, maxArgs: 1, fn: (value) => toText(value).trim().split(/\s+/).filter(Boolean).length },
+};
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : String(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const match = toText(value).replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : NaN;
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return toText(value).trim() === '';
+}
+
+function textContains(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle));
+  return toText(haystack).toLowerCase().includes(toText(needle).toLowerCase());
+}
+
+// Numbers compare numerically (so "5" == 5); text compares case-insensitively
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (isNumeric(left) && isNumeric(right)) return Number(left) === Number(right);
+  if (typeof left === 'boolean' || typeof right === 'boolean' || left === null || right === null) {
+    return left === right;
+  }
+  return toText(left).trim().toLowerCase() === toText(right).trim().toLowerCase();
+}
+
+function isTruthy(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value && !(typeof value === 'number' && isNaN(value));
+}
+
+// Rejects patterns with nested quantifiers such as (a+)+, the usual catastrophic backtracking shape
+function compilePattern(pattern: string, pos: number): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new FlowExpressionError(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`, pos);
+  }
+  if (/\([^)]*[+*}][^)]*\)\s*[+*{]/.test(pattern)) {
+    throw new FlowExpressionError('Pattern has nested repetition, which can be very slow', pos);
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new FlowExpressionError(`Invalid pattern: ${(error as Error).message}`, pos);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = source.slice(i).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        // Only the quote and the backslash are escapes, so regex patterns keep their \d and \.
+        if (source[i] === '\\' && (source[i + 1] === char || source[i + 1] === '\\')) {
+          value += source[i + 1];
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new FlowExpressionError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const word = match[0];
+      const lowered = word.toLowerCase();
+      tokens.push(KEYWORD_OPERATORS.includes(lowered)
+        ? { kind: 'operator', value: lowered, pos: i }
+        : { kind: 'identifier', value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    const symbol = SYMBOL_OPERATORS.find(op => source.startsWith(op, i));
+    if (!symbol) {
+      throw new FlowExpressionError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ kind: 'operator', value: symbol, pos: i });
+    i += symbol.length;
+  }
+
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new FlowExpressionError(`Unexpected "${this.describe(token)}"`, token.pos);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.matchOperator('or', '||')) {
+      left = { type: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.matchOperator('and', '&&')) {
+      left = { type: 'binary', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.matchOperator('not', '!')) {
+      return { type: 'unary', operator: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.kind === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.index++;
+      const right = this.parseAdditive();
+      if (token.value === 'matches' && right.type === 'literal' && typeof right.value === 'string') {
+        // Surface bad patterns when the flow is saved rather than on the first message
+        compilePattern(right.value, token.pos);
+      }
+      return { type: 'binary', operator: token.value, left, right };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Node {
+    let left = this.parseMultiplicative();
+    let token = this.peek();
+    while (token.kind === 'operator' && (token.value === '+' || token.value === '-')) {
+      this.index++;
+      left = { type: 'binary', operator: token.value, left, right: this.parseMultiplicative() };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Node {
+    let left = this.parseUnary();
+    let token = this.peek();
+    while (token.kind === 'operator' && (token.value === '*' || token.value === '/')) {
+      this.index++;
+      left = { type: 'binary', operator: token.value, left, right: this.parseUnary() };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier': {
+        const lowered = token.value.toLowerCase();
+        if (lowered === 'true' || lowered === 'false') return { type: 'literal', value: lowered === 'true' };
+        if (lowered === 'null') return { type: 'literal', value: null };
+
+        if (this.matchOperator('(')) {
+          return this.parseCall(token.value, token.pos);
+        }
+
+        if (!SCOPE_ROOTS.includes(token.value)) {
+          throw new FlowExpressionError(
+            `Unknown name "${token.value}"; use variables.${token.value} or lead.${token.value} for flow and lead data`,
+            token.pos
+          );
+        }
+
+        const keys: string[] = [];
+        while (this.matchOperator('.')) {
+          const key = this.next();
+          if (key.kind !== 'identifier') {
+            throw new FlowExpressionError('Expected a property name after "."', key.pos);
+          }
+          if (BLOCKED_KEYS.has(key.value)) {
+            throw new FlowExpressionError(`Property "${key.value}" is not accessible`, key.pos);
+          }
+          keys.push(key.value);
+        }
+        return { type: 'path', root: token.value, keys, pos: token.pos };
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOperator(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              items.push(this.parseOr());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { type: 'array', items };
+        }
+        throw new FlowExpressionError(`Unexpected "${token.value}"`, token.pos);
+
+      case 'end':
+        throw new FlowExpressionError('Unexpected end of expression', token.pos);
+    }
+  }
+
+  private parseCall(name: string, pos: number): Node {
+    // Own keys only, so "constructor(...)" or "toString()" are not found on Object.prototype
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!definition) {
+      throw new FlowExpressionError(`Unknown function "${name}"; available: ${Object.keys(FUNCTIONS).join(', ')}`, pos);
+    }
+
+    const args: Node[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs ? `${definition.minArgs}` : `at least ${definition.minArgs}`;
+      throw new FlowExpressionError(`${name}() expects ${expected} argument(s), got ${args.length}`, pos);
+    }
+    return { type: 'call', name, args, pos };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private matchOperator(...values: string[]): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && values.includes(token.value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new FlowExpressionError(`Expected "${value}" but found "${this.describe(token)}"`, token.pos);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'end' ? 'end of expression' : String(token.value);
+  }
+}
+
+function resolvePath(node: Extract<Node, { type: 'path' }>, scope: ExpressionScope): unknown {
+  let value: unknown;
+  switch (node.root) {
+    case 'user_input':
+    case 'userInput':
+      value = scope.userInput;
+      break;
+    case 'user_name':
+    case 'userName':
+      value = scope.userName;
+      break;
+    case 'conversation_count':
+    case 'conversationCount':
+      value = scope.conversationCount;
+      break;
+    case 'variables':
+    case 'vars':
+      value = scope.variables || {};
+      break;
+    case 'lead':
+    case 'leadData':
+      value = scope.leadData || {};
+      break;
+  }
+
+  for (const key of node.keys) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function evaluateNode(node: Node, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'array':
+      return node.items.map(item => evaluateNode(item, scope));
+
+    case 'path':
+      return resolvePath(node, scope);
+
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map(arg => evaluateNode(arg, scope)));
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === 'not' ? !isTruthy(operand) : -toNumber(operand);
+    }
+
+    case 'binary': {
+      // Short-circuit so guards like exists(x) and number(x) > 5 never evaluate the right side needlessly
+      if (node.operator === 'and') {
+        return isTruthy(evaluateNode(node.left, scope)) && isTruthy(evaluateNode(node.right, scope));
+      }
+      if (node.operator === 'or') {
+        return isTruthy(evaluateNode(node.left, scope)) || isTruthy(evaluateNode(node.right, scope));
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+        case 'contains': return textContains(left, right);
+        case 'startswith': return toText(left).toLowerCase().startsWith(toText(right).toLowerCase());
+        case 'endswith': return toText(left).toLowerCase().endsWith(toText(right).toLowerCase());
+        case 'matches': return compilePattern(toText(right), 0).test(toText(left).slice(0, MAX_MATCH_INPUT_LENGTH));
+        case 'in': return Array.isArray(right) ? right.some(item => looseEquals(left, item)) : textContains(right, left);
+        case '+': return isNumeric(left) && isNumeric(right) ? Number(left) + Number(right) : toText(left) + toText(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': return toNumber(left) / toNumber(right);
+      }
+      throw new Error(`Unsupported operator ${node.operator}`);
+    }
+  }
+}
+
+// NaN on either side makes every ordering comparison false
+function compare(left: unknown, right: unknown): number {
+  if (isNumeric(left) || isNumeric(right) || typeof left === 'number' || typeof right === 'number') {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (isNaN(a) || isNaN(b)) return NaN;
+    return a - b;
+  }
+  const a = toText(left).toLowerCase();
+  const b = toText(right).toLowerCase();
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Rewrite the condition forms of the original flow templates into the expression language:
+ * `user_input length > 2`, `user_input contains 'a' or 'b'` and `user_input equals 'x'`
+ */
+export function upgradeLegacyCondition(source: string): string {
+  const trimmed = source.trim();
+
+  const length = trimmed.match(/^user_input\s+length\s*(>=|<=|>|<|==)\s*(\d+)$/i);
+  if (length) {
+    return `length(user_input) ${length[1]} ${length[2]}`;
+  }
+
+  const equals = trimmed.match(/^user_input\s+equals\s+(["'][^"']*["'])$/i);
+  if (equals) {
+    return `user_input == ${equals[1]}`;
+  }
+
+  const containsList = trimmed.match(/^user_input\s+contains\s+((["'][^"']*["'])(\s+or\s+["'][^"']*["'])+)$/i);
+  if (containsList) {
+    const needles = containsList[1].split(/\s+or\s+/i);
+    return `containsAny(user_input, ${needles.join(', ')})`;
+  }
+
+  return source;
+}
+
+const compiledCache = new Map<string, Node>();
+const MAX_CACHE_SIZE = 500;
+
+export function parseExpression(source: string): Node {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new FlowExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0);
+  }
+  if (!source.trim()) {
+    throw new FlowExpressionError('Expression is empty', 0);
+  }
+
+  const ast = new Parser(tokenize(upgradeLegacyCondition(source))).parse();
+  if (compiledCache.size >= MAX_CACHE_SIZE) {
+    compiledCache.clear();
+  }
+  compiledCache.set(source, ast);
+  return ast;
+}
+
+// Returns the parse error message, or null when the expression is valid
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+// Throws FlowExpressionError for invalid expressions; evaluation itself never throws on data
+export function evaluateExpression(source: string, scope: ExpressionScope): boolean {
+  const ast = parseExpression(source);
+  try {
+    return isTruthy(evaluateNode(ast, scope));
+  } catch (error) {
+    if (error instanceof FlowExpressionError) throw error;
+    return false;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, unique, index, vector } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -53,13 +53,23 @@ export const agents = pgTable("agents", {
   whatsappPhoneNumberId: text("whatsapp_phone_number_id"),
   whatsappAccessToken: text("whatsapp_access_token"),
   whatsappWebhookVerifyToken: text("whatsapp_webhook_verify_token"),
+  // Meta app secrets that sign webhook deliveries (X-Hub-Signature-256)
+  whatsappAppSecret: text("whatsapp_app_secret"),
+  // Approved template sent instead of free-form messages once a contact's 24-hour window has closed
+  whatsappWindowTemplate: jsonb("whatsapp_window_template").$type<{
+    name: string;
+    language?: string;
+    parameters?: Record<string, any>;
+  }>(),
   platformType: text("platform_type").default("whatsapp"),
   telegramBotToken: text("telegram_bot_token"),
   telegramUsername: text("telegram_username"),
   facebookPageId: text("facebook_page_id"),
   facebookAccessToken: text("facebook_access_token"),
+  facebookAppSecret: text("facebook_app_secret"),
   instagramBusinessId: text("instagram_business_id"),
   instagramAccessToken: text("instagram_access_token"),
+  instagramAppSecret: text("instagram_app_secret"),
   discordBotToken: text("discord_bot_token"),
   discordGuildId: text("discord_guild_id"),
   discordChannelId: text("discord_channel_id"),
@@ -71,10 +81,15 @@ export const agents = pgTable("agents", {
   wechatCorpId: text("wechat_corp_id"),
   wechatSecret: text("wechat_secret"),
   wechatAgentId: text("wechat_agent_id"),
+  wechatToken: text("wechat_token"),
+  wechatEncodingAesKey: text("wechat_encoding_aes_key"),
   chatTheme: text("chat_theme").default("modern"),
   operatingHours: text("operating_hours").default("24/7"),
   smsNumber: text("sms_number"),
   smsProvider: text("sms_provider").default("twilio"),
+  smsAccountSid: text("sms_account_sid"),
+  smsAuthToken: text("sms_auth_token"),
+  smsApiBaseUrl: text("sms_api_base_url"), // Override for Twilio-compatible providers; defaults to api.twilio.com
   status: text("status").notNull().default("active"),
   apiKey: text("api_key").notNull(),
   businessWebsite: text("business_website"),
@@ -128,15 +143,31 @@ export const agents = pgTable("agents", {
   conversationFlow: jsonb("conversation_flow").$type<{
     nodes: Array<{
       id: string;
-      type: 'start' | 'message' | 'condition' | 'action' | 'end';
+      type: 'start' | 'message' | 'question' | 'condition' | 'action' | 'end';
       position: { x: number; y: number };
       data: {
         label?: string;
         message?: string;
+        // Question nodes: flow variable for the answer, how to validate it and the choices offered
+        variable?: string;
+        validation?: {
+          type: 'text' | 'email' | 'phone' | 'number' | 'choice';
+          min?: number;
+          max?: number;
+        };
+        options?: string[];
         condition?: string;
         action?: string;
         responses?: Array<{ text: string; nextNodeId: string }>;
         fallbackMessage?: string;
+        // Settings for action nodes, e.g. the recipient of send_email; text fields accept {placeholders}
+        actionConfig?: {
+          to?: string;
+          subject?: string;
+          body?: string;
+          priority?: string;
+          fields?: string[];
+        };
       };
     }>;
     edges: Array<{
@@ -144,12 +175,16 @@ export const agents = pgTable("agents", {
       source: string;
       target: string;
       label?: string;
+      // Flow expression; see shared/flow-expressions.ts
+      condition?: string;
     }>;
     variables?: Array<{
       name: string;
       type: 'text' | 'number' | 'boolean';
       defaultValue?: any;
     }>;
+    // Minutes without a customer message after which the flow restarts from the start node
+    timeoutMinutes?: number;
   }>(),
   customTraining: jsonb("custom_training").$type<{
     trainingData: Array<{
@@ -196,6 +231,17 @@ export const agents = pgTable("agents", {
     trainingStatus: 'not_trained'
   }),
   flowEnabled: boolean("flow_enabled").default(false),
+  publishedFlowVersionId: integer("published_flow_version_id"), // flow_versions row that conversationFlow was published from
+  enabledTools: jsonb("enabled_tools").$type<string[]>().default([]), // Names from the agent tool registry, e.g. "check_product_stock"
+  retrievalConfig: jsonb("retrieval_config").$type<{
+    enabled: boolean;
+    topK: number;
+    similarityThreshold?: number; // Minimum cosine similarity (0-1) for a knowledge item to be used; unset uses the embedding provider's default
+  }>().default({
+    enabled: true,
+    topK: 3
+  }),
+  embeddingProvider: text("embedding_provider").notNull().default("openai"), // "openai", "google" or "local"; changing it re-embeds the knowledge base
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -203,9 +249,24 @@ export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   agentId: integer("agent_id").references(() => agents.id).notNull(),
   sessionId: text("session_id").notNull(),
-  messages: jsonb("messages").$type<Array<{role: string, content: string, timestamp: string}>>().default([]),
+  platform: text("platform").default("web"), // "web", "whatsapp", "telegram", "messenger", "instagram", "discord", "line", "viber", "wechat", "sms"
+  channelAddress: text("channel_address"), // Platform address replies are delivered to (chat ID, PSID, phone number)
+  messages: jsonb("messages").$type<Array<{role: string, content: string, timestamp: string, knowledgeItemIds?: number[], sentBy?: number}>>().default([]), // sentBy: staff user who wrote an assistant message
   leadData: jsonb("lead_data").$type<Record<string, any>>().default({}),
   status: text("status").default("active"),
+  handoffState: text("handoff_state").notNull().default("bot"), // "bot", "pending_human", "human", "closed"; the bot stays silent while pending_human or human
+  handoffReason: text("handoff_reason"),
+  handoffRequestedAt: timestamp("handoff_requested_at"),
+  assignedUserId: integer("assigned_user_id").references(() => users.id), // Staff member who owns the thread in the "human" state
+  // Where the agent's conversation flow paused for this thread; null until the flow first runs
+  flowState: jsonb("flow_state").$type<{
+    currentNodeId: string | null;
+    variables: Record<string, any>;
+    startedAt: string;
+    updatedAt: string;
+    ended?: boolean;
+  }>(),
+  flowVersionId: integer("flow_version_id"), // Published flow version that last handled a message in this thread
   conversionScore: integer("conversion_score").default(0),
   callScheduled: boolean("call_scheduled").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -257,6 +318,89 @@ export const whatsappMessages = pgTable("whatsapp_messages", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Message templates synced from the agent's WhatsApp Business Account, one row per language
+export const whatsappTemplates = pgTable("whatsapp_templates", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  templateId: text("template_id").notNull(), // Id assigned by WhatsApp
+  name: text("name").notNull(),
+  language: text("language").notNull(), // e.g. "en_US", "es"
+  category: text("category"), // "MARKETING", "UTILITY", "AUTHENTICATION"
+  status: text("status").notNull(), // "APPROVED", "PENDING", "REJECTED", "PAUSED", "DISABLED"
+  rejectedReason: text("rejected_reason"),
+  components: jsonb("components").$type<Array<{
+    type: string; // "HEADER", "BODY", "FOOTER", "BUTTONS"
+    format?: string; // Header format: "TEXT", "IMAGE", "VIDEO", "DOCUMENT", "LOCATION"
+    text?: string;
+    buttons?: Array<{ type: string; text: string; url?: string; phone_number?: string }>;
+  }>>().notNull().default([]),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  agentNameLanguageUnique: unique().on(table.agentId, table.name, table.language),
+}));
+
+// SMS opt-out state per agent number; a row with optedOut=true blocks all outbound SMS to that phone
+export const smsOptOuts = pgTable("sms_opt_outs", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  optedOut: boolean("opted_out").notNull().default(true),
+  keyword: text("keyword"), // Keyword that last changed the state, e.g. "STOP" or "START"
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  agentPhoneUnique: unique().on(table.agentId, table.phoneNumber),
+}));
+
+// Support tickets opened by conversation flow "create_ticket" actions
+export const supportTickets = pgTable("support_tickets", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  conversationId: integer("conversation_id").references(() => conversations.id),
+  subject: text("subject").notNull(),
+  description: text("description"),
+  priority: text("priority").notNull().default("normal"), // "low", "normal", "high", "urgent"
+  status: text("status").notNull().default("open"), // "open", "in_progress", "resolved", "closed"
+  contact: jsonb("contact").$type<Record<string, any>>().default({}), // Lead data at the time the ticket was opened
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Scripted conversations that check an agent's flow still behaves as intended after edits
+export const flowTestCases = pgTable("flow_test_cases", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  steps: jsonb("steps").$type<Array<{
+    input: string;
+    expectNodeId?: string; // Node the flow should pause on after this input
+    expectMessageContains?: string; // Case-insensitive text the reply should include
+  }>>().notNull(),
+  expectVariables: jsonb("expect_variables").$type<Record<string, any>>().default({}), // Checked after the last step
+  context: jsonb("context").$type<{ userName?: string; variables?: Record<string, any>; leadData?: Record<string, any> }>().default({}),
+  lastRunAt: timestamp("last_run_at"),
+  lastPassed: boolean("last_passed"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Snapshots of an agent's conversation flow. agents.conversationFlow is the live copy of the
+// published version; at most one draft per agent holds unpublished edits.
+export const flowVersions = pgTable("flow_versions", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version"), // Sequential per agent, assigned when published; null while a draft
+  status: text("status").notNull().default("draft"), // "draft", "published", "archived"
+  flow: jsonb("flow").$type<NonNullable<typeof agents.$inferSelect["conversationFlow"]>>().notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  agentVersionUnique: unique().on(table.agentId, table.version),
+}));
+
 export const voiceCalls = pgTable("voice_calls", {
   id: serial("id").primaryKey(),
   agentId: integer("agent_id").references(() => agents.id).notNull(),
@@ -273,8 +417,16 @@ export const voiceCalls = pgTable("voice_calls", {
   callScript: text("call_script"),
   callData: jsonb("call_data").$type<Record<string, any>>().default({}),
   transcription: text("transcription"),
-  outcome: text("outcome"),
+  outcome: text("outcome"), // Unanswered calls: the final status; answered calls: set by transcript analysis
   leadScore: integer("lead_score"),
+  // Post-call transcript analysis; its outcome and lead score go in the columns above
+  analysis: jsonb("analysis").$type<{
+    summary: string;
+    objections: string[];
+    leadData: Record<string, any>; // Fields heard on the call
+    followUp: { action: string; when?: string; note?: string };
+    analyzedAt: string;
+  }>(),
   callbackScheduled: boolean("callback_scheduled").default(false),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -293,10 +445,115 @@ export const voiceCallTriggers = pgTable("voice_call_triggers", {
   voicePersona: text("voice_persona"),
   callObjective: text("call_objective"),
   businessHoursOnly: boolean("business_hours_only").default(true),
+  retryDelayMinutes: integer("retry_delay_minutes").default(60), // Wait before redialling a lead who did not answer
+  requireConsent: boolean("require_consent").default(true), // Only call numbers with recorded, unrevoked consent
+  quietHoursStart: text("quiet_hours_start").default("21:00"), // Recipient's local time; null disables quiet hours
+  quietHoursEnd: text("quiet_hours_end").default("08:00"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Per-business do-not-call registry; numbers here are never dialled by any of the owner's agents
+export const doNotCallNumbers = pgTable("do_not_call_numbers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  phoneNumber: text("phone_number").notNull(), // Normalised, e.g. "+15551234567"
+  reason: text("reason"),
+  source: text("source").notNull().default("manual"), // "manual", "customer_request", "import"
+  addedBy: integer("added_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userPhoneUnique: unique().on(table.userId, table.phoneNumber),
+}));
+
+// Consent to be called, with the wording the customer agreed to
+export const callConsents = pgTable("call_consents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "set null" }),
+  conversationId: integer("conversation_id").references(() => conversations.id),
+  phoneNumber: text("phone_number").notNull(), // Normalised like doNotCallNumbers
+  source: text("source").notNull(), // "conversation_flow", "ai_tool", "web_form", "manual"
+  consentText: text("consent_text").notNull(),
+  timezone: text("timezone"), // Recipient's IANA time zone, used for quiet hours
+  grantedAt: timestamp("granted_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  recordedBy: integer("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Durable queue of outbound calls; the call scheduler dials rows once scheduledFor has passed
+export const scheduledCalls = pgTable("scheduled_calls", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  conversationId: integer("conversation_id").references(() => conversations.id),
+  phoneNumber: text("phone_number").notNull(), // Normalised like doNotCallNumbers
+  triggerReason: text("trigger_reason"),
+  triggeredBy: text("triggered_by").notNull(), // "manual", "conversation_flow", "ai_tool", "auto_trigger", "follow_up"
+  status: text("status").notNull().default("scheduled"), // "scheduled", "dialing", "in_call", "completed", "failed", "cancelled"
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(1),
+  lastVoiceCallId: integer("last_voice_call_id").references(() => voiceCalls.id),
+  lastError: text("last_error"),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Broadcast of one WhatsApp template or SMS text to a fixed list of recipients
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  channel: text("channel").notNull(), // "whatsapp", "sms"
+  status: text("status").notNull().default("draft"), // "draft", "scheduled", "sending", "paused", "completed", "cancelled"
+  // WhatsApp: the template to send; "{variable}" in a parameter is filled in per recipient
+  templateName: text("template_name"),
+  templateLanguage: text("template_language"), // Defaults to each recipient's language
+  templateParameters: jsonb("template_parameters").$type<Record<string, any>>().default({}),
+  // SMS: the text to send, with "{variable}" placeholders
+  messageText: text("message_text"),
+  // How the recipient list was built
+  audience: jsonb("audience").$type<{ source: "conversations" | "csv"; filters?: Record<string, any>; rows?: number }>().notNull(),
+  scheduledFor: timestamp("scheduled_for"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }).notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  variables: jsonb("variables").$type<Record<string, string>>().notNull().default({}),
+  status: text("status").notNull().default("pending"), // "pending", "sending", "sent", "delivered", "read", "failed", "skipped"
+  error: text("error"), // Why the message failed or was skipped, e.g. "opted_out"
+  messageId: text("message_id"), // Platform message id, matched against delivery status updates
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  repliedAt: timestamp("replied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  campaignPhoneUnique: unique().on(table.campaignId, table.phoneNumber),
+}));
+
+// Contacts who asked not to receive campaigns from an agent on a channel
+export const campaignOptOuts = pgTable("campaign_opt_outs", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  channel: text("channel").notNull(),
+  phoneNumber: text("phone_number").notNull(), // Digits only
+  source: text("source").notNull().default("keyword"), // "keyword", "manual"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  agentChannelPhoneUnique: unique().on(table.agentId, table.channel, table.phoneNumber),
+}));
+
 export const voiceCallAnalytics = pgTable("voice_call_analytics", {
   id: serial("id").primaryKey(),
   agentId: integer("agent_id").references(() => agents.id).notNull(),
@@ -310,6 +567,7 @@ export const voiceCallAnalytics = pgTable("voice_call_analytics", {
   notInterested: integer("not_interested").default(0),
   avgCallDuration: integer("avg_call_duration").default(0),
   avgLeadScore: integer("avg_lead_score").default(0),
+  analyzedCalls: integer("analyzed_calls").default(0), // Calls behind avgLeadScore and the outcome counts
   totalCost: integer("total_cost").default(0),
   currency: text("currency").default("USD"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -380,6 +638,7 @@ export const auditLogs = pgTable("audit_logs", {
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
   success: boolean("success").default(true),
+  severity: text("severity").notNull().default("medium"), // "low", "medium", "high", "critical"
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -392,13 +651,29 @@ export const knowledgeItems = pgTable("knowledge_items", {
   content: text("content").notNull(),
   category: text("category").notNull(),
   tags: jsonb("tags").$type<string[]>().default([]),
-  embedding: jsonb("embedding").$type<number[]>(),
+  embedding: jsonb("embedding").$type<number[]>(), // Legacy whole-item embedding; search uses knowledgeChunks
+  embeddingModel: text("embedding_model"), // Model that embedded the item's chunks, e.g. "openai:text-embedding-3-small"
   metadata: jsonb("metadata").$type<Record<string, any>>().default({}),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Embedded passages of knowledge items; requires the pgvector extension (CREATE EXTENSION vector)
+export const knowledgeChunks = pgTable("knowledge_chunks", {
+  id: serial("id").primaryKey(),
+  knowledgeItemId: integer("knowledge_item_id").references(() => knowledgeItems.id, { onDelete: "cascade" }).notNull(),
+  agentId: integer("agent_id").references(() => agents.id).notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  embedding: vector("embedding", { dimensions: 1536 }).notNull(), // Shorter embeddings are zero-padded
+  embeddingModel: text("embedding_model").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  embeddingIndex: index("knowledge_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  agentIndex: index("knowledge_chunks_agent_idx").on(table.agentId),
+}));
+
 // Training Sessions
 export const trainingSessions = pgTable("training_sessions", {
   id: serial("id").primaryKey(),
@@ -477,9 +752,41 @@ export type InsertAnalytics = typeof analytics.$inferInsert;
 export type WhatsappMessage = typeof whatsappMessages.$inferSelect;
 export type InsertWhatsappMessage = typeof whatsappMessages.$inferInsert;
 
+export type WhatsappTemplate = typeof whatsappTemplates.$inferSelect;
+export type InsertWhatsappTemplate = typeof whatsappTemplates.$inferInsert;
+
+export type SmsOptOut = typeof smsOptOuts.$inferSelect;
+export type InsertSmsOptOut = typeof smsOptOuts.$inferInsert;
+
+export type SupportTicket = typeof supportTickets.$inferSelect;
+export type InsertSupportTicket = typeof supportTickets.$inferInsert;
+
+export type FlowTestCase = typeof flowTestCases.$inferSelect;
+export type InsertFlowTestCase = typeof flowTestCases.$inferInsert;
+
+export type FlowVersion = typeof flowVersions.$inferSelect;
+export type InsertFlowVersion = typeof flowVersions.$inferInsert;
+
 export type VoiceCall = typeof voiceCalls.$inferSelect;
 export type InsertVoiceCall = typeof voiceCalls.$inferInsert;
 
+export type ScheduledCall = typeof scheduledCalls.$inferSelect;
+export type InsertScheduledCall = typeof scheduledCalls.$inferInsert;
+
+export type DoNotCallNumber = typeof doNotCallNumbers.$inferSelect;
+export type InsertDoNotCallNumber = typeof doNotCallNumbers.$inferInsert;
+
+export type CallConsent = typeof callConsents.$inferSelect;
+export type InsertCallConsent = typeof callConsents.$inferInsert;
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = typeof campaigns.$inferInsert;
+
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+export type InsertCampaignRecipient = typeof campaignRecipients.$inferInsert;
+
+export type CampaignOptOut = typeof campaignOptOuts.$inferSelect;
+
 export type VoiceCallTrigger = typeof voiceCallTriggers.$inferSelect;
 export type InsertVoiceCallTrigger = typeof voiceCallTriggers.$inferInsert;
 
@@ -507,6 +814,9 @@ export type InsertBusinessOnboarding = typeof businessOnboarding.$inferInsert;
 export type KnowledgeItem = typeof knowledgeItems.$inferSelect;
 export type InsertKnowledgeItem = typeof knowledgeItems.$inferInsert;
 
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
+export type InsertKnowledgeChunk = typeof knowledgeChunks.$inferInsert;
+
 export type TrainingSession = typeof trainingSessions.$inferSelect;
 export type InsertTrainingSession = typeof trainingSessions.$inferInsert;
 
@@ -550,7 +860,8 @@ export const insertAgentSchema = createInsertSchema(agents).omit({
   id: true, 
   createdAt: true, 
   apiKey: true,
-  userId: true 
+  userId: true,
+  publishedFlowVersionId: true // Set by publishing a flow version
 });
 export const insertConversationSchema = createInsertSchema(conversations);
 export const insertAnalyticsSchema = createInsertSchema(analytics);
@@ -562,6 +873,27 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions);
 export const insertUsageMetricsSchema = createInsertSchema(usageMetrics);
 export const insertBusinessTemplateSchema = createInsertSchema(businessTemplates);
 export const insertAuditLogSchema = createInsertSchema(auditLogs);
+export const insertFlowTestCaseSchema = createInsertSchema(flowTestCases, {
+  name: z.string().min(1, "Name is required"),
+  steps: z.array(z.object({
+    input: z.string(),
+    expectNodeId: z.string().optional(),
+    expectMessageContains: z.string().optional(),
+  })).min(1, "At least one step is required"),
+  expectVariables: z.record(z.any()).optional(),
+  context: z.object({
+    userName: z.string().optional(),
+    variables: z.record(z.any()).optional(),
+    leadData: z.record(z.any()).optional(),
+  }).optional(),
+}).omit({
+  id: true,
+  agentId: true,
+  lastRunAt: true,
+  lastPassed: true,
+  createdAt: true,
+  updatedAt: true
+});
 
 
 // Login schema for authentication
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EMBEDDING_DIMENSIONS,
+  EmbeddingProviderFactory,
+  LocalHashingEmbeddingProvider
+} from "../server/services/embedding-providers";
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("LocalHashingEmbeddingProvider", () => {
+  const provider = new LocalHashingEmbeddingProvider();
+
+  it("embeds the same text to the same unit vector every time", async () => {
+    const [first, second] = await provider.embed(["Refunds take 5 days", "Refunds take 5 days"]);
+    const [again] = await new LocalHashingEmbeddingProvider().embed(["Refunds take 5 days"]);
+
+    assert.equal(first.length, EMBEDDING_DIMENSIONS);
+    assert.deepEqual(first, second);
+    assert.deepEqual(first, again);
+    assert.ok(Math.abs(dot(first, first) - 1) < 1e-9);
+  });
+
+  it("ignores case and punctuation", async () => {
+    const [plain, shouted] = await provider.embed(["refunds take five days", "REFUNDS, take five days!"]);
+    assert.deepEqual(plain, shouted);
+  });
+
+  it("ranks text sharing words above unrelated text", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "how long do refunds take",
+      "refunds take five business days",
+      "our office is closed on sundays"
+    ]);
+    assert.ok(dot(query, related) > dot(query, unrelated));
+  });
+
+  it("returns a zero vector for text without words", async () => {
+    const [empty] = await provider.embed(["?!"]);
+    assert.ok(empty.every(value => value === 0));
+  });
+});
+
+describe("EmbeddingProviderFactory", () => {
+  it("creates the local provider without an API key", () => {
+    assert.equal(EmbeddingProviderFactory.createProvider("local").model, "local:hashing-v1");
+  });
+
+  it("rejects unknown providers", () => {
+    assert.throws(() => EmbeddingProviderFactory.createProvider("word2vec"), /Unsupported embedding provider/);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  evaluateExpression,
+  FlowExpressionError,
+  parseExpression,
+  upgradeLegacyCondition,
+  validateExpression,
+  type ExpressionScope
+} from "../shared/flow-expressions";
+
+const scope: ExpressionScope = {
+  userInput: "  Yes, I want a REFUND for order #42 ($1,200.50) ",
+  userName: "Ana",
+  conversationCount: 3,
+  variables: { order_total: "$1,200.50", plan: "pro", tags: ["vip", "eu"] },
+  leadData: { email: "ana@example.com", company: "" }
+};
+
+const evaluate = (source: string) => evaluateExpression(source, scope);
+
+describe("evaluateExpression", () => {
+  it("compares text case-insensitively and numbers numerically", () => {
+    assert.equal(evaluate('variables.plan == "PRO"'), true);
+    assert.equal(evaluate('conversation_count == "3"'), true);
+    assert.equal(evaluate("number(variables.order_total) >= 1200"), true);
+    assert.equal(evaluate("number(variables.order_total) > 1200.5"), false);
+  });
+
+  it("supports the text operators and functions", () => {
+    assert.equal(evaluate('user_input contains "refund" and not isEmpty(lead.email)'), true);
+    assert.equal(evaluate('lead.email matches "@example\\.com$"'), true);
+    assert.equal(evaluate('lower(trim(user_input)) startswith "yes"'), true);
+    assert.equal(evaluate('containsAny(user_input, "cancel", "refund")'), true);
+    assert.equal(evaluate('variables.plan in ["free", "pro"]'), true);
+    assert.equal(evaluate('variables.tags contains "VIP"'), true);
+    assert.equal(evaluate("words(user_name) == 1 && exists(lead.company)"), false);
+  });
+
+  it("treats missing values as empty instead of failing", () => {
+    assert.equal(evaluate("isEmpty(variables.missing.deeper)"), true);
+    assert.equal(evaluate("number(lead.age) > 18"), false);
+  });
+
+  it("does not resolve inherited properties", () => {
+    assert.equal(evaluate("exists(variables.toString)"), false);
+    assert.equal(evaluate("exists(lead.hasOwnProperty)"), false);
+  });
+});
+
+describe("parseExpression", () => {
+  it("rejects invalid expressions with their position", () => {
+    assert.throws(() => parseExpression("user_input =="), FlowExpressionError);
+    assert.match(validateExpression("user_input contains") || "", /position/);
+    assert.match(validateExpression("") || "", /empty/);
+  });
+
+  it("only calls the whitelisted functions", () => {
+    assert.match(validateExpression("shout(user_input)") || "", /Unknown function "shout"/);
+    assert.match(validateExpression("constructor(user_input)") || "", /Unknown function "constructor"/);
+    assert.match(validateExpression("toString()") || "", /Unknown function "toString"/);
+    assert.match(validateExpression("lower(user_input, user_name)") || "", /lower/);
+  });
+
+  it("rejects property names that reach object internals", () => {
+    assert.match(validateExpression("exists(variables.constructor)") || "", /not accessible/);
+    assert.match(validateExpression("exists(lead.__proto__)") || "", /not accessible/);
+  });
+
+  it("rejects patterns with nested repetition", () => {
+    assert.match(validateExpression('user_input matches "(a+)+$"') || "", /nested repetition/);
+  });
+});
+
+describe("upgradeLegacyCondition", () => {
+  it("rewrites the original template conditions", () => {
+    assert.equal(upgradeLegacyCondition("user_input length > 2"), "length(user_input) > 2");
+    assert.equal(upgradeLegacyCondition("user_input equals 'yes'"), "user_input == 'yes'");
+    assert.equal(upgradeLegacyCondition("user_input contains 'a' or 'b'"), "containsAny(user_input, 'a', 'b')");
+    assert.equal(upgradeLegacyCondition('user_input == "x"'), 'user_input == "x"');
+  });
+
+  it("evaluates legacy conditions", () => {
+    assert.equal(evaluate("user_input contains 'cancel' or 'refund'"), true);
+    assert.equal(evaluate("user_input length > 100"), false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// The module also exports the pgvector store, which needs a connection string to load (not to connect)
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { chunkText, InMemoryVectorStore } = await import("../server/services/knowledge-index");
+
+describe("chunkText", () => {
+  it("keeps short text as one chunk and drops empty text", () => {
+    assert.deepEqual(chunkText("  Opening hours are 9 to 5.\r\n "), ["Opening hours are 9 to 5."]);
+    assert.deepEqual(chunkText(" \n "), []);
+  });
+
+  it("splits long text into chunks no longer than the size", () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} about refunds.`).join(" ");
+    const chunks = chunkText(text, 200, 40);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 200, `chunk of ${chunk.length} characters`);
+    }
+    assert.ok(chunks[0].startsWith("Sentence number 0"));
+    assert.ok(chunks[chunks.length - 1].endsWith("Sentence number 59 about refunds."));
+  });
+
+  it("breaks on sentence boundaries and repeats the overlap on a word boundary", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `Item ${i} ships in two days.`).join(" ");
+    const chunks = chunkText(text, 120, 30);
+
+    for (const chunk of chunks.slice(0, -1)) {
+      assert.ok(chunk.endsWith("."), `"${chunk}" does not end a sentence`);
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      const firstWord = chunks[i].split(" ")[0];
+      assert.ok(chunks[i - 1].includes(` ${firstWord} `) || chunks[i - 1].startsWith(`${firstWord} `),
+        `chunk ${i} does not start inside the previous chunk`);
+    }
+  });
+
+  it("prefers a paragraph break when it keeps at least half a chunk", () => {
+    const first = "a".repeat(70);
+    const second = "b ".repeat(60).trim();
+    const chunks = chunkText(`${first}\n\n${second}`, 100, 10);
+
+    assert.equal(chunks[0], first);
+  });
+});
+
+describe("InMemoryVectorStore", () => {
+  const chunk = (chunkIndex: number, embedding: number[], embeddingModel = "local:hashing-v1") =>
+    ({ chunkIndex, content: `chunk ${chunkIndex}`, embedding, embeddingModel });
+
+  it("returns the closest chunks of the agent's model, best first", async () => {
+    const store = new InMemoryVectorStore();
+    await store.replaceItemChunks(1, 10, [chunk(0, [1, 0]), chunk(1, [0.6, 0.8])]);
+    await store.replaceItemChunks(1, 11, [chunk(0, [1, 0], "openai:text-embedding-3-small")]);
+    await store.replaceItemChunks(2, 12, [chunk(0, [1, 0])]);
+
+    const hits = await store.search(1, "local:hashing-v1", [1, 0], 5, 0.5);
+    assert.deepEqual(hits.map(hit => [hit.knowledgeItemId, hit.chunkIndex]), [[10, 0], [10, 1]]);
+    assert.equal(hits[0].similarity, 1);
+
+    assert.equal((await store.search(1, "local:hashing-v1", [1, 0], 1, 0)).length, 1);
+    assert.equal((await store.search(1, "local:hashing-v1", [0, 1], 5, 0.9)).length, 0);
+  });
+
+  it("replaces and deletes every chunk of an item", async () => {
+    const store = new InMemoryVectorStore();
+    await store.replaceItemChunks(1, 10, [chunk(0, [1, 0]), chunk(1, [0, 1])]);
+    await store.replaceItemChunks(1, 10, [chunk(0, [0, 1])]);
+
+    const hits = await store.search(1, "local:hashing-v1", [0, 1], 5, 0);
+    assert.deepEqual(hits.map(hit => hit.chunkIndex), [0]);
+    assert.equal(await store.hasChunks(1, "local:hashing-v1"), true);
+
+    await store.deleteItemChunks(10);
+    assert.equal(await store.hasChunks(1, "local:hashing-v1"), false);
+  });
+});